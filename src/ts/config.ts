@@ -1,5 +1,7 @@
 import { Rectangle } from './interfaces/rectangle';
 
+import { RendererType } from './enums.js';
+
 // Supported resolutions for the Back Buffer, lower resolutions yield better performance.
 const supportedResolutions: Rectangle[] = [
   { x: 0, y: 0, width: 160, height: 120 },
@@ -32,3 +34,71 @@ export function decreaseBackBufferSize(): boolean {
   backBufferProps = supportedResolutions[currentResolution];
   return true;
 }
+
+// Supported sizes for the pool of render workers, where 0 renders on the main thread.
+const supportedRenderWorkers: number[] = [0, 1, 2, 4, 8];
+
+// Current size of the pool of render workers, defaults to 2.
+let currentRenderWorkers = 2;
+export let renderWorkers: number = supportedRenderWorkers[currentRenderWorkers];
+
+// Increases the size of the pool of render workers, until the maximum supported size is reached.
+export function increaseRenderWorkers(): boolean {
+  if (currentRenderWorkers + 1 >= supportedRenderWorkers.length) {
+    return false;
+  }
+  currentRenderWorkers += 1;
+  renderWorkers = supportedRenderWorkers[currentRenderWorkers];
+  return true;
+}
+
+// Decreases the size of the pool of render workers, until there are none and the main thread renders instead.
+export function decreaseRenderWorkers(): boolean {
+  if (currentRenderWorkers - 1 < 0) {
+    return false;
+  }
+  currentRenderWorkers -= 1;
+  renderWorkers = supportedRenderWorkers[currentRenderWorkers];
+  return true;
+}
+
+// Supported renderers, which can be switched between at runtime to compare their performance.
+const supportedRenderers: RendererType[] = [RendererType.CANVAS, RendererType.SOFTWARE];
+
+// Current renderer, defaults to the Canvas renderer.
+let currentRenderer = 0;
+export let renderer: RendererType = supportedRenderers[currentRenderer];
+
+// Switches to the next supported renderer, wrapping around to the first once the last is reached.
+export function nextRenderer(): RendererType {
+  currentRenderer = (currentRenderer + 1) % supportedRenderers.length;
+  renderer = supportedRenderers[currentRenderer];
+  return renderer;
+}
+
+// Supported zoom levels for the automap, as the size of each cell in pixels.
+const supportedAutomapZooms: number[] = [2, 4, 6, 8, 12, 16, 24, 32];
+
+// Current zoom level for the automap, defaults to 8 pixels per cell.
+let currentAutomapZoom = 3;
+export let automapZoom: number = supportedAutomapZooms[currentAutomapZoom];
+
+// Zooms the automap in, until the maximum supported zoom is reached.
+export function increaseAutomapZoom(): boolean {
+  if (currentAutomapZoom + 1 >= supportedAutomapZooms.length) {
+    return false;
+  }
+  currentAutomapZoom += 1;
+  automapZoom = supportedAutomapZooms[currentAutomapZoom];
+  return true;
+}
+
+// Zooms the automap out, until the minimum supported zoom is reached.
+export function decreaseAutomapZoom(): boolean {
+  if (currentAutomapZoom - 1 < 0) {
+    return false;
+  }
+  currentAutomapZoom -= 1;
+  automapZoom = supportedAutomapZooms[currentAutomapZoom];
+  return true;
+}
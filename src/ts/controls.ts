@@ -0,0 +1,106 @@
+import type { Rectangle } from './interfaces/rectangle';
+
+import { Action } from './enums.js';
+import { bindInput, clearBindings, getActionName, getBindings, getBoundAction, getInputName, resetBindings, setInputHandler } from './utils/input-utils.js';
+
+// The number of actions that can be bound.
+const actionCount = Object.keys(Action).filter((key) => isNaN(Number(key))).length;
+
+// State
+let configuring = false;
+let selected: Action = Action.FORWARD;
+let listening = false; // Whether the next input is bound to the selected action.
+
+// Checks if the controls are open, in which case the game is paused and every input is handled by the controls.
+export function isConfiguring(): boolean {
+  return configuring;
+}
+
+// Opens the controls, so that the input bound to each action can be changed.
+export function openControls(): void {
+  configuring = true;
+  listening = false;
+  setInputHandler(onControlsInput);
+}
+
+// Closes the controls, handing inputs back to the game.
+export function closeControls(): void {
+  configuring = false;
+  listening = false;
+  setInputHandler(undefined);
+}
+
+// Handles every input whilst the controls are open, either binding it to the selected action or using it to choose the action and what to do with it.
+function onControlsInput(input: string): boolean {
+  if (listening) {
+    if (input !== 'Escape') {
+      bindInput(selected, input);
+    }
+    listening = false;
+    return true;
+  }
+
+  switch (input) {
+    case 'ArrowUp':
+    case 'GamepadAxis1-':
+    case 'Gamepad12':
+      selected = (selected + actionCount - 1) % actionCount;
+      break;
+
+    case 'ArrowDown':
+    case 'GamepadAxis1+':
+    case 'Gamepad13':
+      selected = (selected + 1) % actionCount;
+      break;
+
+    case 'Enter':
+    case 'Gamepad0':
+      listening = true;
+      break;
+
+    case 'Delete':
+    case 'Backspace':
+    case 'Gamepad2':
+      clearBindings(selected);
+      break;
+
+    case 'Home':
+    case 'Gamepad3':
+      resetBindings();
+      break;
+
+    case 'Escape':
+    case 'Gamepad1':
+      closeControls();
+      break;
+
+    default:
+      if (getBoundAction(input) === Action.CONTROLS) {
+        closeControls();
+      }
+      break;
+  }
+  return true;
+}
+
+// Draws every action, and the inputs bound to them, into the specified rectangle, highlighting the selected action.
+export function drawControls(context: CanvasRenderingContext2D, rect: Rectangle): void {
+  const lineHeight = Math.min(Math.floor(rect.height / (actionCount + 4)), 20);
+  const pos = { x: rect.x + 20, y: rect.y + lineHeight };
+
+  context.font = `${Math.max(lineHeight - 4, 8)}px monospace`;
+  context.textAlign = 'start';
+  context.textBaseline = 'top';
+  context.fillStyle = 'white';
+  context.fillText('Controls', pos.x, pos.y);
+  pos.y += lineHeight;
+
+  for (let action = 0; action < actionCount; action++) {
+    const inputs = getBindings(action).map(getInputName).join(', ');
+    context.fillStyle = action === selected ? 'yellow' : 'white';
+    context.fillText(`${action === selected ? '>' : ' '} ${getActionName(action).padEnd(18)} ${action === selected && listening ? 'Press an input to bind...' : inputs || '-'}`, pos.x, (pos.y += lineHeight));
+  }
+
+  context.fillStyle = 'grey';
+  context.fillText(`Up Down select  Enter bind  Delete clear  Home reset all  Escape close`, pos.x, (pos.y += lineHeight * 2));
+}
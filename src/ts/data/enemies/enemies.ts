@@ -0,0 +1,21 @@
+import { EnemyType } from '../../interfaces/enemy';
+
+// Stores all the types of Enemy that are used in the game, where the textures are in the order of EnemyState.
+export const enemyTypes: EnemyType[] = [
+  {
+    id: 1,
+    name: 'Slime',
+    textures: [20, 20, 20, 21, 22, 23],
+    scale: 0.5,
+    radius: 0.25,
+    health: 30,
+    speed: 1.25,
+    damage: 10,
+    attackRange: 0.75,
+    attackTime: 0.6,
+    painTime: 0.3,
+    sightRange: 10,
+    fieldOfView: 120,
+    hearingRadius: 4
+  }
+];
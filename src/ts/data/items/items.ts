@@ -0,0 +1,69 @@
+import { ItemType } from '../../interfaces/item';
+
+import { ItemKind, SoundEffect } from '../../enums.js';
+
+// Stores all the types of Item that can be picked up in the game.
+export const itemTypes: ItemType[] = [
+  {
+    id: 1,
+    name: 'Coin',
+    textureId: 11,
+    scale: 0.25,
+    kind: ItemKind.ITEM,
+    amount: 1,
+    max: 999,
+    sound: SoundEffect.COIN,
+    score: 100
+  },
+  {
+    id: 2,
+    name: 'Key',
+    textureId: 30,
+    scale: 0.25,
+    kind: ItemKind.ITEM,
+    amount: 1,
+    max: 9,
+    sound: SoundEffect.PICKUP
+  },
+  {
+    id: 3,
+    name: 'Health',
+    textureId: 31,
+    scale: 0.3,
+    kind: ItemKind.HEALTH,
+    amount: 25,
+    max: 100,
+    sound: SoundEffect.PICKUP
+  },
+  {
+    id: 4,
+    name: 'Bullets',
+    textureId: 32,
+    scale: 0.3,
+    kind: ItemKind.AMMO,
+    amount: 12,
+    sound: SoundEffect.PICKUP,
+    weapon: 1
+  },
+  {
+    id: 5,
+    name: 'Mana crystal',
+    textureId: 33,
+    scale: 0.25,
+    kind: ItemKind.AMMO,
+    amount: 5,
+    sound: SoundEffect.PICKUP,
+    weapon: 2
+  },
+  {
+    id: 6,
+    name: 'Rage',
+    textureId: 34,
+    scale: 0.3,
+    kind: ItemKind.POWER_UP,
+    amount: 15,
+    max: 30,
+    sound: SoundEffect.POWER_UP,
+    damage: 2
+  }
+];
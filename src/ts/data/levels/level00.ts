@@ -1,19 +1,29 @@
 import { Level } from '../../interfaces/level';
 
-import { SpriteProperties } from '../../enums.js';
+import { SpriteProperties, TriggerActionType, TriggerEvent } from '../../enums.js';
 import {
   createSimpleFloor as sf,
   createFloor as f,
   createSimpleWall as sw,
   createWall as w,
+  createDestructibleWall as dw,
   createInvisibleWall as i,
   createSimpleSwitchToggle as sst,
   createSwitchToggle as st,
   createSimpleSwitchCycler as ssc,
   createThinWall as tw,
-  createDoor as d
+  createThinWallTransparent as ttw,
+  createDoor as d,
+  createExit as x,
+  createLamp as l,
+  setLock as lk,
+  setFlag as fl,
+  setAutoClose as ac
 } from '../../utils/cell-utils.js';
-import { createSpriteBasic as sb, createSpriteNoTint as sbnt } from '../../utils/sprite-utils.js';
+import { createSpriteBasic as sb, createSpriteNoTint as sbnt, setHidden as h } from '../../utils/sprite-utils.js';
+import { attachLight, createLight } from '../../utils/light-utils.js';
+import { createEnemy as e } from '../../utils/enemy-utils.js';
+import { createPickup as p } from '../../utils/item-utils.js';
 
 export const level00: Level = {
   depth: 0,
@@ -29,18 +39,44 @@ export const level00: Level = {
     angle: 270
   },
   floor: 2,
+  ambient: 0.5,
   data: [
     [i(2), i(2), sw(5), i(2), i(2), i(2), i(2), i(2), i(2), i(2)],
+    [i(2), sf(2, 0, 2), sf(2, 0, 2), sf(2, 0, 2), sf(2), sf(2), sf(2), sf(2), sf(2), i(2)],
+    [i(2), sf(2, 0, 2), sw(1, 2), sf(5, 0.25), sf(5, 0.25), sf(2), sf(2), sf(2), st([4, 1, 1, 1, 1, 1]), i(2)],
+    [i(2), f([2, 2, 2, 2, 6, 7], 0, 2), sf(2, 0, 2), sf(5, 0.25), sf(5, 0.25), dw(29, 2), lk(ac(d(2, 10), 3), { item: 2, consume: true }), ttw(13), sf(2), i(2)],
     [i(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), i(2)],
-    [i(2), sf(2), sf(2), sf(5), sf(5), sf(2), sf(2), sf(2), st([4, 1, 1, 1, 1, 1]), i(2)],
-    [i(2), f([2, 2, 2, 2, 6, 7]), sf(2), sf(5), sf(5), sw(2), d(2, 10), sw(2), sf(2), i(2)],
-    [i(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), i(2)],
-    [sw(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sw(2)],
+    [sw(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), lk(l(4, 3, 0.8), { flag: 'power', message: 'The power is off' })],
     [ssc(10), sf(2), sf(2), w([6, 7, 8, 9, 2, 2]), sf(2), sf(2), sf(2), w([2, 5, 2, 5, 2, 2]), sf(2), sw(2)],
     [d(4, 10), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), tw(2)],
-    [sw(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sf(2), sw(2)],
-    [sw(1), sw(1), sw(5), sw(1), sst(4), sw(2), tw(2), sw(2), sw(2), sw(2)]
+    [sw(2), sf(2), sw(1, 0.5), sf(2), sf(2), sf(2), sf(2, -0.25), sf(2), x(18), sw(2)],
+    [sw(1), sw(1), sw(5), sw(1), fl(sst(4), 'power'), sw(2), tw(2), sw(2), sw(2), sw(2)]
+  ],
+  entities: [p(1, 7.5, 1.5), p(1, 8.5, 1.5), p(2, 8.5, 4.5), p(3, 1.5, 4.5), p(4, 3.5, 7.5), p(5, 6.5, 7.5), p(6, 4.5, 6.5), h(p(3, 4.5, 1.5))],
+  sprites: [
+    sbnt(4.5, 5.5, 11, 0.25, SpriteProperties.ALIGN_BOTTOM),
+    attachLight(sb(5.5, 5.5, 5, 1), createLight(0, 0, 2.5, 0.8, 0.4)),
+    sb(6.5, 5.5, 11, 0.25, SpriteProperties.ALIGN_BOTTOM | SpriteProperties.STATIC),
+    sb(7.5, 5.5, 5, 0.25, SpriteProperties.ALIGN_TOP)
+  ],
+  enemies: [
+    e(1, 2.5, 7.5, 0, [
+      { x: 7.5, y: 7.5 },
+      { x: 2.5, y: 7.5 }
+    ]),
+    e(1, 1.5, 8.5, 180)
   ],
-  entities: [],
-  sprites: [sbnt(4.5, 5.5, 11, 0.25, SpriteProperties.ALIGN_BOTTOM), sb(5.5, 5.5, 5, 1), sb(6.5, 5.5, 11, 0.25, SpriteProperties.ALIGN_BOTTOM | SpriteProperties.STATIC), sb(7.5, 5.5, 5, 0.25, SpriteProperties.ALIGN_TOP)]
+  triggers: [
+    { event: TriggerEvent.TIMER, time: 1, once: true, actions: [{ type: TriggerActionType.MESSAGE, message: 'Find the switch that turns the power on' }] },
+    { event: TriggerEvent.INTERACT, x: 8, y: 2, actions: [{ type: TriggerActionType.TOGGLE_LIGHT, sprite: 1 }] },
+    { event: TriggerEvent.PICKUP, entity: 2, once: true, actions: [{ type: TriggerActionType.MESSAGE, message: 'The key opens the door by the window' }] },
+    { event: TriggerEvent.ENTER, x: 1, y: 1, actions: [{ type: TriggerActionType.TELEPORT, x: 8, y: 1, angle: 180 }] },
+    {
+      event: TriggerEvent.ENEMIES_DEAD,
+      actions: [
+        { type: TriggerActionType.SPAWN, entity: 7 },
+        { type: TriggerActionType.MESSAGE, message: 'Something appeared by the entrance' }
+      ]
+    }
+  ]
 };
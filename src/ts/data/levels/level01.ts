@@ -0,0 +1,41 @@
+import { Level } from '../../interfaces/level';
+
+import { FogFalloff, SpriteProperties } from '../../enums.js';
+import { createSimpleFloor as sf, createSimpleWall as sw, createEntrance as e } from '../../utils/cell-utils.js';
+import { createSpriteBasic as sb } from '../../utils/sprite-utils.js';
+import { createFog } from '../../utils/fog-utils.js';
+
+export const level01: Level = {
+  depth: 1,
+  name: 'Courtyard',
+  entrance: {
+    x: 2,
+    y: 2,
+    angle: 45
+  },
+  exit: {
+    x: 9,
+    y: 9,
+    angle: 225
+  },
+  floor: 15,
+  skybox: 14,
+  ambience: 6,
+  fog: createFog({ r: 180, g: 200, b: 220 }, 4, 20, FogFalloff.EXPONENTIAL),
+  data: [
+    [sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16)],
+    [sw(16), e(19), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sw(16)],
+    [sw(16), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sw(16)],
+    [sw(16), sf(15), sf(15), sw(16, 2), sf(15), sf(15), sf(15), sf(15), sw(16, 2), sf(15), sf(15), sw(16)],
+    [sw(16, 0.5), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sw(16, 0.5)],
+    [sw(16, 0.5), sf(15), sf(15), sf(15), sf(15), sf(15, 0.25), sf(15, 0.25), sf(15), sf(15), sf(15), sf(15), sw(16, 0.5)],
+    [sw(16, 0.5), sf(15), sf(15), sf(15), sf(15), sf(15, 0.25), sf(15, 0.25), sf(15), sf(15), sf(15), sf(15), sw(16, 0.5)],
+    [sw(16, 0.5), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sw(16, 0.5)],
+    [sw(16), sf(15), sf(15), sw(16, 2), sf(15), sf(15), sf(15), sf(15), sw(16, 2), sf(15), sf(15), sw(16)],
+    [sw(16), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sw(16)],
+    [sw(16), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sf(15), sw(16)],
+    [sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16), sw(16)]
+  ],
+  entities: [],
+  sprites: [sb(2.5, 7.5, 17, 1, SpriteProperties.ALIGN_BOTTOM), sb(9.5, 2.5, 17, 1, SpriteProperties.ALIGN_BOTTOM), sb(6.5, 9.5, 17, 1, SpriteProperties.ALIGN_BOTTOM)]
+};
@@ -1,5 +1,22 @@
 import { Level } from '../../interfaces/level';
 
 import { level00 } from './level00.js';
+import { level01 } from './level01.js';
+import { fetchLevelFile } from '../../utils/level-file-utils.js';
+import { fetchTiledMap } from '../../utils/tiled-utils.js';
 
-export const levels: Level[] = [level00];
+export const levels: Level[] = [level00, level01];
+
+// Loads the level file, or Tiled map, at the specified URL and adds it to the levels, so that it can be played without having to rebuild.
+export async function loadLevel(url: string): Promise<Level> {
+  const level = /\.(tmx|tmj)$/i.test(url) ? await fetchTiledMap(url) : await fetchLevelFile(url);
+  levels.push(level);
+  return level;
+}
+
+// Puts the specified edited level in place of the level it was edited from, so that it is played instead of it for the rest of the session, e.g. when the
+// player comes back to it. The edited level is added to the end if the level it was edited from is not one of the levels.
+export function replaceLevel(previous: Level | undefined, level: Level): void {
+  const index = previous !== undefined ? levels.indexOf(previous) : -1;
+  levels[index >= 0 ? index : levels.length] = level;
+}
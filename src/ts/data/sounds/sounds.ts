@@ -0,0 +1,20 @@
+import { Sound } from '../../interfaces/sound';
+
+import { createSoundBasic, createSoundLoop } from '../../utils/audio-utils.js';
+
+// Stores all the Sounds that are used in the game.
+export const sounds: Sound[] = [
+  createSoundBasic(1, 'assets/sounds/door.open.01.wav'),
+  createSoundBasic(2, 'assets/sounds/door.close.01.wav'),
+  createSoundBasic(3, 'assets/sounds/switch.01.wav', 0.5),
+  createSoundBasic(4, 'assets/sounds/coin.01.wav', 0.6),
+  createSoundBasic(5, 'assets/sounds/footstep.01.wav', 0.3),
+  createSoundLoop(6, 'assets/sounds/ambience.wind.01.wav', 0.4),
+  createSoundBasic(7, 'assets/sounds/weapon.pistol.01.wav', 0.6),
+  createSoundBasic(8, 'assets/sounds/weapon.fireball.01.wav', 0.6),
+  createSoundBasic(9, 'assets/sounds/impact.01.wav', 0.5),
+  createSoundBasic(10, 'assets/sounds/crumble.01.wav', 0.8),
+  createSoundBasic(11, 'assets/sounds/pickup.01.wav', 0.6),
+  createSoundBasic(12, 'assets/sounds/powerup.01.wav', 0.6),
+  createSoundBasic(13, 'assets/sounds/locked.01.wav', 0.6)
+];
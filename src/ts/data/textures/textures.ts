@@ -1,6 +1,6 @@
 import { Texture } from '../../interfaces/texture';
 
-import { createTextureAnimated, createTextureBasic, createTextureStateful } from '../../utils/texture-utils.js';
+import { createTextureAnimated, createTextureBasic, createTextureDirectional, createTextureStateful } from '../../utils/texture-utils.js';
 
 // Stores all the Textures that are used in the game.
 export const textures: Texture[] = [
@@ -15,5 +15,27 @@ export const textures: Texture[] = [
   createTextureBasic(9, 'assets/debug.wall.west.png', 16, 16),
   createTextureStateful(10, 'assets/debug.switch.cycle.png', 16, 16, 8),
   createTextureAnimated(11, 'assets/object.coin.01.png', 16, 16, 8),
-  createTextureBasic(12, 'assets/debug.sprite.01.png', 16, 16)
+  createTextureBasic(12, 'assets/debug.sprite.01.png', 16, 16),
+  createTextureBasic(13, 'assets/debug.grate.01.png', 16, 16),
+  createTextureBasic(14, 'assets/debug.skybox.01.png', 360, 240),
+  createTextureBasic(15, 'assets/floor.grass.01.png', 16, 16),
+  createTextureBasic(16, 'assets/wall.stone.01.png', 16, 16),
+  createTextureBasic(17, 'assets/object.tree.01.png', 16, 16),
+  createTextureBasic(18, 'assets/exit.stone.01.png', 16, 16),
+  createTextureBasic(19, 'assets/entrance.stone.01.png', 16, 16),
+  createTextureDirectional(20, 'assets/enemy.slime.01.png', 16, 16, 8),
+  createTextureDirectional(21, 'assets/enemy.slime.attack.01.png', 16, 16, 8),
+  createTextureBasic(22, 'assets/enemy.slime.pain.01.png', 16, 16),
+  createTextureBasic(23, 'assets/enemy.slime.dead.01.png', 16, 16),
+  createTextureStateful(24, 'assets/weapon.pistol.01.png', 32, 32, 2),
+  createTextureStateful(25, 'assets/weapon.wand.01.png', 32, 32, 2),
+  createTextureBasic(26, 'assets/projectile.fireball.01.png', 16, 16),
+  createTextureBasic(27, 'assets/decal.impact.01.png', 16, 16),
+  createTextureBasic(28, 'assets/decal.scorch.01.png', 16, 16),
+  createTextureBasic(29, 'assets/wall.cracked.01.png', 16, 16),
+  createTextureBasic(30, 'assets/item.key.01.png', 16, 16),
+  createTextureBasic(31, 'assets/item.health.01.png', 16, 16),
+  createTextureBasic(32, 'assets/item.bullets.01.png', 16, 16),
+  createTextureBasic(33, 'assets/item.mana.01.png', 16, 16),
+  createTextureBasic(34, 'assets/item.power.01.png', 16, 16)
 ];
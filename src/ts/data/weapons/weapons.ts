@@ -0,0 +1,39 @@
+import { WeaponType } from '../../interfaces/weapon';
+
+import { SoundEffect, WeaponAttack } from '../../enums.js';
+
+// Stores all the types of Weapon that are used in the game, in the order the player cycles through them.
+export const weaponTypes: WeaponType[] = [
+  {
+    id: 1,
+    name: 'Pistol',
+    textureId: 24,
+    attack: WeaponAttack.HITSCAN,
+    damage: 10,
+    fireTime: 0.4,
+    range: 16,
+    ammo: 24,
+    maxAmmo: 99,
+    sound: SoundEffect.PISTOL,
+    decal: 27
+  },
+  {
+    id: 2,
+    name: 'Wand',
+    textureId: 25,
+    attack: WeaponAttack.PROJECTILE,
+    damage: 25,
+    fireTime: 0.8,
+    range: 12,
+    ammo: 8,
+    maxAmmo: 30,
+    sound: SoundEffect.FIREBALL,
+    decal: 28,
+    projectile: {
+      textureId: 26,
+      scale: 0.3,
+      radius: 0.1,
+      speed: 6
+    }
+  }
+];
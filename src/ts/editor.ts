@@ -0,0 +1,643 @@
+import type { ActivatorName, CellDefinition, CellTypeName, LevelFile, SpriteDefinition } from './interfaces/level-file';
+import type { Level } from './interfaces/level';
+import type { Portal } from './interfaces/portal';
+import type { Rectangle } from './interfaces/rectangle';
+import type { Vector } from './interfaces/vector';
+
+import { EditorTool, Face } from './enums.js';
+import { renderer } from './config.js';
+import { textures } from './data/textures/textures.js';
+import { Entity } from './objects/entity.js';
+import { render } from './raycaster.js';
+import { createLevelFile, createLevelFromFile, packCellDefinitions, parseLevelFile, unpackCellDefinitions, validateLevelFile } from './utils/level-file-utils.js';
+import { getCell } from './utils/level-utils.js';
+import { initialiseLights, updateLights } from './utils/light-utils.js';
+import { degreesToRadians } from './utils/math-utils.js';
+import { getTextureById, isTextureLoaded, loadTexture } from './utils/texture-utils.js';
+import { parseTiledMap, parseTmx } from './utils/tiled-utils.js';
+
+// The options that can be chosen for the tools that paint cells, where a face of 'all' paints every face of the cell.
+const cellTypes: CellTypeName[] = ['floor', 'wall', 'door', 'entrance', 'exit'];
+const faces: string[] = ['all', 'north', 'east', 'south', 'west', 'top', 'bottom'];
+const activatorNames: ActivatorName[] = ['toggle', 'increment', 'decrement', 'door', 'light'];
+
+// The size, in pixels, of the swatches in the texture palette and the height of each line of the status panel.
+const swatchSize = 32;
+const lineHeight = 14;
+
+// The level being edited, where the cells are kept as a grid of definitions so that they can be painted individually, and only packed into the
+// cells and grid of a level file when it is needed.
+let editing = false;
+let file: LevelFile;
+let definitions: CellDefinition[][] = [];
+let modified = false;
+let errors: string[] = [];
+let message = '';
+
+// The live preview of the level, which is rebuilt whenever it changes, and the camera it is viewed through.
+let preview: Level | undefined;
+let camera: Entity;
+
+// The current tool, and the options for it.
+let tool: EditorTool = EditorTool.CELL;
+let textureId = 1;
+let cellType = 1;
+let face = 0;
+let activator = 0;
+let selected: SpriteDefinition | undefined;
+let dragging = false;
+
+// Where each part of the editor was last drawn, so that mouse positions can be mapped back onto them.
+let mapRect: Rectangle = { x: 0, y: 0, width: 0, height: 0 };
+let paletteRect: Rectangle = { x: 0, y: 0, width: 0, height: 0 };
+let cellSize = 1;
+let hover: Vector | undefined;
+
+// Checks if the editor is open.
+export function isEditing(): boolean {
+  return editing;
+}
+
+// Opens the editor on a copy of the specified level file, loading every texture so that they can all be painted with.
+export async function openEditor(levelFile: LevelFile): Promise<void> {
+  setLevelFile(JSON.parse(JSON.stringify(levelFile)));
+  modified = false;
+  message = '';
+  editing = true;
+
+  await Promise.all(textures.map(loadTexture));
+  updatePreview();
+}
+
+// Closes the editor, returning the edited level so that it can be played, or undefined if it was not changed or is invalid.
+export function closeEditor(): Level | undefined {
+  editing = false;
+  dragging = false;
+  if (!modified) {
+    return undefined;
+  }
+
+  try {
+    return parseLevelFile(getLevelFile());
+  } catch (error) {
+    console.error(error);
+    return undefined;
+  }
+}
+
+// Gets the level being edited as a level file.
+function getLevelFile(): LevelFile {
+  return { ...file, ...packCellDefinitions(definitions) };
+}
+
+// Starts editing the specified level file, with the camera at its entrance.
+function setLevelFile(levelFile: LevelFile): void {
+  file = levelFile;
+  file.sprites = file.sprites || [];
+  file.entities = file.entities || [];
+  definitions = unpackCellDefinitions(file);
+  selected = undefined;
+
+  camera = new Entity(file.entrance.x + 0.5, file.entrance.y + 0.5);
+  camera.rotate(degreesToRadians(file.entrance.angle));
+  updatePreview();
+}
+
+// Creates a new level of the specified size, surrounded by walls, using the current texture.
+function createEmptyLevel(width: number, height: number): LevelFile {
+  const wall: CellDefinition = { type: 'wall', textures: textureId };
+  const floor: CellDefinition = { type: 'floor', textures: textureId };
+  const cells = [];
+  for (let y = 0; y < height; y++) {
+    cells.push(new Array(width).fill(0).map((value, x) => (x === 0 || y === 0 || x === width - 1 || y === height - 1 ? wall : floor)));
+  }
+  return {
+    depth: file.depth,
+    name: 'New Level',
+    entrance: { x: 1, y: 1, angle: 0 },
+    exit: { x: width - 2, y: height - 2, angle: 180 },
+    ...packCellDefinitions(cells)
+  };
+}
+
+// Validates the level and, if it is valid, rebuilds the preview from it.
+function updatePreview(): void {
+  const levelFile = getLevelFile();
+  errors = validateLevelFile(levelFile);
+  if (errors.length > 0) {
+    return;
+  }
+  preview = createLevelFromFile(levelFile);
+  initialiseLights(preview);
+}
+
+// Called whenever the level is changed.
+function onChange(): void {
+  modified = true;
+  message = '';
+  updatePreview();
+}
+
+// Gets the texture of the specified face of a cell definition.
+function getFaceTexture(definition: CellDefinition, face: Face): number {
+  return Array.isArray(definition.textures) ? definition.textures[face] : definition.textures;
+}
+
+// Paints the current texture onto the current face of the specified cell definition, or every face if no face is chosen.
+function paintFace(definition: CellDefinition): void {
+  if (face === 0) {
+    definition.textures = textureId;
+    return;
+  }
+  const textureIds = Array.isArray(definition.textures) ? definition.textures : new Array(6).fill(definition.textures);
+  textureIds[face - 1] = textureId;
+  definition.textures = textureIds.every((id) => id === textureIds[0]) ? textureIds[0] : textureIds;
+}
+
+// Adds the current activator to the specified cell definition, or removes it if it already has it. The light activator also attaches, or removes, a lamp.
+function toggleActivator(definition: CellDefinition): void {
+  const name = activatorNames[activator];
+
+  // Doors always open and close, so they can't be given a second door or toggle activator.
+  if (definition.type === 'door' && (name === 'door' || name === 'toggle')) {
+    return;
+  }
+
+  const activators = definition.activators || [];
+  const index = activators.indexOf(name);
+  if (index >= 0) {
+    activators.splice(index, 1);
+  } else {
+    activators.push(name);
+  }
+  definition.activators = activators;
+
+  if (name === 'light' && index >= 0) {
+    delete definition.lamp;
+    delete definition.state;
+  } else if (name === 'light') {
+    definition.lamp = { radius: 3 };
+    definition.state = 1;
+  }
+
+  // Cells without activators, or a lamp, are left without any so that they are the same as newly painted cells.
+  if (activators.length === 0 && definition.lamp === undefined) {
+    delete definition.activators;
+  }
+}
+
+// Gets the sprites, or entities, that the current tool places.
+function getSprites(): SpriteDefinition[] {
+  return (tool === EditorTool.ENTITY ? file.entities : file.sprites) as SpriteDefinition[];
+}
+
+// Finds the sprite closest to the specified position, if there is one within half a cell.
+function findSprite(position: Vector): SpriteDefinition | undefined {
+  let retVal: SpriteDefinition | undefined;
+  let distance = 0.5;
+  for (const sprite of getSprites()) {
+    const d = Math.hypot(sprite.x - position.x, sprite.y - position.y);
+    if (d < distance) {
+      retVal = sprite;
+      distance = d;
+    }
+  }
+  return retVal;
+}
+
+// Snaps the specified position to the nearest quarter of a cell, keeping it inside the level.
+function snap(position: Vector): Vector {
+  return {
+    x: Math.min(Math.max(Math.round(position.x * 4) / 4, 0), definitions[0].length),
+    y: Math.min(Math.max(Math.round(position.y * 4) / 4, 0), definitions.length)
+  };
+}
+
+// Gets the portal that the current tool moves, if any.
+function getPortal(): Portal | undefined {
+  return tool === EditorTool.ENTRANCE ? file.entrance : tool === EditorTool.EXIT ? file.exit : undefined;
+}
+
+// Gets the position, in cells, of the specified point on the canvas, or undefined if it is not over the map.
+function getMapPosition(x: number, y: number): Vector | undefined {
+  const position = { x: (x - mapRect.x) / cellSize, y: (y - mapRect.y) / cellSize };
+  if (position.x < 0 || position.y < 0 || position.x >= definitions[0].length || position.y >= definitions.length) {
+    return undefined;
+  }
+  return position;
+}
+
+// Applies the current tool at the specified position, in cells. Painting tools are applied continuously whilst dragging, whereas the others only
+// move whatever was picked up when the mouse button was pressed.
+function applyTool(position: Vector, button: number, pressed: boolean): void {
+  const x = Math.floor(position.x);
+  const y = Math.floor(position.y);
+  const definition = definitions[y][x];
+
+  switch (tool) {
+    case EditorTool.CELL: {
+      const type = button === 2 ? 'floor' : cellTypes[cellType];
+      if (definition.type !== type || definition.textures !== textureId) {
+        definitions[y][x] = { type, textures: textureId };
+        onChange();
+      }
+      break;
+    }
+
+    case EditorTool.TEXTURE:
+      paintFace(definition);
+      onChange();
+      break;
+
+    case EditorTool.ACTIVATOR:
+      if (pressed) {
+        toggleActivator(definition);
+        onChange();
+      }
+      break;
+
+    case EditorTool.SPRITE:
+    case EditorTool.ENTITY: {
+      const sprites = getSprites();
+      if (pressed && button === 2) {
+        const sprite = findSprite(position);
+        if (sprite !== undefined) {
+          sprites.splice(sprites.indexOf(sprite), 1);
+          selected = undefined;
+          onChange();
+        }
+        break;
+      }
+      if (pressed) {
+        selected = findSprite(position);
+        if (selected === undefined) {
+          selected = { ...snap(position), texture: textureId };
+          sprites.push(selected);
+        }
+      } else if (selected !== undefined) {
+        Object.assign(selected, snap(position));
+      }
+      onChange();
+      break;
+    }
+
+    case EditorTool.ENTRANCE:
+    case EditorTool.EXIT: {
+      const portal = getPortal() as Portal;
+      if (portal.x !== x || portal.y !== y) {
+        portal.x = x;
+        portal.y = y;
+        onChange();
+      }
+      break;
+    }
+
+    case EditorTool.CAMERA:
+      camera.position = { ...position };
+      break;
+  }
+}
+
+// Rotates the current portal or the camera, or scales the selected sprite, in the specified direction.
+function adjust(amount: number): void {
+  const portal = getPortal();
+  if (portal !== undefined) {
+    portal.angle = (portal.angle + amount * 45 + 360) % 360;
+    onChange();
+  } else if (tool === EditorTool.CAMERA) {
+    camera.rotate(degreesToRadians(amount * 45));
+  } else if (selected !== undefined && (tool === EditorTool.SPRITE || tool === EditorTool.ENTITY)) {
+    selected.scale = Math.max((selected.scale || 1) + amount * 0.25, 0.25);
+    onChange();
+  }
+}
+
+// Switches to the next, or previous, texture, which is also applied to the selected sprite.
+function cycleTexture(amount: number): void {
+  textureId = ((textureId - 1 + amount + textures.length) % textures.length) + 1;
+  if (selected !== undefined && (tool === EditorTool.SPRITE || tool === EditorTool.ENTITY)) {
+    selected.texture = textureId;
+    onChange();
+  }
+}
+
+// Switches to the next, or previous, option for the current tool.
+function cycleOption(amount: number): void {
+  switch (tool) {
+    case EditorTool.CELL:
+      cellType = (cellType + amount + cellTypes.length) % cellTypes.length;
+      break;
+
+    case EditorTool.TEXTURE:
+      face = (face + amount + faces.length) % faces.length;
+      break;
+
+    case EditorTool.ACTIVATOR:
+      activator = (activator + amount + activatorNames.length) % activatorNames.length;
+      break;
+  }
+}
+
+// Gets a description of the current option for the current tool.
+function getOption(): string {
+  switch (tool) {
+    case EditorTool.CELL:
+      return `Type: ${cellTypes[cellType]}`;
+    case EditorTool.TEXTURE:
+      return `Face: ${faces[face]}`;
+    case EditorTool.ACTIVATOR:
+      return `Activator: ${activatorNames[activator]}`;
+    case EditorTool.SPRITE:
+    case EditorTool.ENTITY:
+      return selected !== undefined ? `Selected: (${selected.x}, ${selected.y}) x ${selected.scale || 1}` : 'Selected: None';
+    case EditorTool.ENTRANCE:
+    case EditorTool.EXIT: {
+      const portal = getPortal() as Portal;
+      return `Position: (${portal.x}, ${portal.y}) at ${portal.angle} degrees`;
+    }
+    default:
+      return '';
+  }
+}
+
+// Downloads the level being edited as a level file.
+function saveLevelFile(): void {
+  const name = `${(file.name || `level ${file.depth}`).toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+  const blob = new Blob([JSON.stringify(getLevelFile(), null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(link.href);
+  message = `Saved ${name}`;
+}
+
+// Asks the user for a level file, or Tiled map, to edit instead.
+function openLevelFile(): void {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.json,.tmj,.tmx';
+  input.onchange = async (): Promise<void> => {
+    const selectedFile = input.files !== null ? input.files[0] : undefined;
+    if (selectedFile === undefined) {
+      return;
+    }
+
+    try {
+      const text = await selectedFile.text();
+      const level = /\.tmx$/i.test(selectedFile.name)
+        ? parseTiledMap(parseTmx(text), selectedFile.name)
+        : /\.tmj$/i.test(selectedFile.name)
+        ? parseTiledMap(JSON.parse(text), selectedFile.name)
+        : parseLevelFile(JSON.parse(text), selectedFile.name);
+      setLevelFile(createLevelFile(level));
+      modified = true;
+      message = `Opened ${selectedFile.name}`;
+    } catch (error) {
+      console.error(error);
+      message = `Failed to open ${selectedFile.name}, see the console for details`;
+    }
+  };
+  input.click();
+}
+
+// Handles a key being released whilst the editor is open, returning false if the key is not used by the editor.
+export function onEditorKeyUp(event: KeyboardEvent): boolean {
+  if (event.code.startsWith('Digit')) {
+    const index = Number(event.code.slice(5)) - 1;
+    if (EditorTool[index] !== undefined) {
+      tool = index;
+      selected = undefined;
+      return true;
+    }
+  }
+
+  switch (event.code) {
+    case 'Comma':
+      cycleTexture(-1);
+      return true;
+
+    case 'Period':
+      cycleTexture(1);
+      return true;
+
+    case 'KeyZ':
+      cycleOption(-1);
+      return true;
+
+    case 'KeyX':
+      cycleOption(1);
+      return true;
+
+    case 'KeyQ':
+      adjust(-1);
+      return true;
+
+    case 'KeyE':
+      adjust(1);
+      return true;
+
+    case 'Delete':
+    case 'Backspace':
+      if (selected !== undefined) {
+        const sprites = getSprites();
+        sprites.splice(sprites.indexOf(selected), 1);
+        selected = undefined;
+        onChange();
+      }
+      return true;
+
+    case 'KeyS':
+      saveLevelFile();
+      return true;
+
+    case 'KeyO':
+      openLevelFile();
+      return true;
+
+    case 'KeyN':
+      setLevelFile(createEmptyLevel(16, 16));
+      modified = true;
+      return true;
+
+    default:
+      return false;
+  }
+}
+
+// Handles a mouse button being pressed over the editor, where button 0 is the left button and 2 is the right button.
+export function onEditorMouseDown(x: number, y: number, button: number): void {
+  // Clicking on the palette chooses the texture under the mouse.
+  if (y >= paletteRect.y && y < paletteRect.y + paletteRect.height && x >= paletteRect.x && x < paletteRect.x + paletteRect.width) {
+    const index = Math.floor((x - paletteRect.x) / swatchSize);
+    if (index < textures.length) {
+      cycleTexture(index + 1 - textureId);
+    }
+    return;
+  }
+
+  const position = getMapPosition(x, y);
+  if (position !== undefined) {
+    dragging = true;
+    applyTool(position, button, true);
+  }
+}
+
+// Handles the mouse moving over the editor, continuing to apply the current tool if a button is pressed.
+export function onEditorMouseMove(x: number, y: number, button: number): void {
+  const position = getMapPosition(x, y);
+  hover = position;
+  if (dragging && position !== undefined) {
+    applyTool(position, button, false);
+  }
+}
+
+// Handles a mouse button being released.
+export function onEditorMouseUp(): void {
+  dragging = false;
+}
+
+// Handles the mouse wheel, which rotates portals and the camera, scales sprites, and otherwise chooses the texture.
+export function onEditorWheel(delta: number): void {
+  const amount = Math.sign(delta);
+  if (tool === EditorTool.CELL || tool === EditorTool.TEXTURE || tool === EditorTool.ACTIVATOR) {
+    cycleTexture(amount);
+  } else {
+    adjust(amount);
+  }
+}
+
+// Draws the first frame of the specified texture into the specified rectangle.
+function drawSwatch(context: CanvasRenderingContext2D, id: number, x: number, y: number, width: number, height: number): void {
+  const texture = getTextureById(id);
+  if (texture !== undefined && isTextureLoaded(texture) && texture.canvas !== undefined) {
+    context.drawImage(texture.canvas, 0, 0, texture.width, texture.height, x, y, width, height);
+  } else {
+    context.fillStyle = 'grey';
+    context.fillRect(x, y, width, height);
+  }
+}
+
+// Draws an arrow from the center of the specified position, in cells, pointing in the specified direction, in degrees.
+function drawArrow(context: CanvasRenderingContext2D, position: Vector, angle: number, colour: string): void {
+  const x = mapRect.x + position.x * cellSize;
+  const y = mapRect.y + position.y * cellSize;
+  const radians = degreesToRadians(angle);
+  const length = cellSize * 0.6;
+
+  context.strokeStyle = colour;
+  context.fillStyle = colour;
+  context.lineWidth = 2;
+  context.beginPath();
+  context.moveTo(x, y);
+  context.lineTo(x + Math.cos(radians) * length, y + Math.sin(radians) * length);
+  context.stroke();
+  context.beginPath();
+  context.arc(x, y, cellSize * 0.15, 0, Math.PI * 2);
+  context.fill();
+  context.lineWidth = 1;
+}
+
+// Draws the level from above, with each cell drawn using the texture of its floor, or the north face of anything else.
+function drawMap(context: CanvasRenderingContext2D): void {
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.font = `${Math.max(Math.floor(cellSize * 0.6), 8)}px monospace`;
+
+  for (let y = 0; y < definitions.length; y++) {
+    for (let x = 0; x < definitions[y].length; x++) {
+      const definition = definitions[y][x];
+      const left = mapRect.x + x * cellSize;
+      const top = mapRect.y + y * cellSize;
+      drawSwatch(context, getFaceTexture(definition, definition.type === 'floor' ? Face.BOTTOM : Face.NORTH), left, top, cellSize, cellSize);
+
+      // Floors are darkened, so that anything that blocks the player stands out.
+      if (definition.type === 'floor' && !(definition.properties || []).includes('blocked')) {
+        context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        context.fillRect(left, top, cellSize, cellSize);
+      }
+
+      const label = { door: 'D', entrance: 'E', exit: 'X', wall: '', floor: '' }[definition.type] + (definition.lamp !== undefined ? 'L' : definition.activators !== undefined ? '*' : '');
+      if (label.length > 0) {
+        context.fillStyle = 'white';
+        context.fillText(label, left + cellSize / 2, top + cellSize / 2);
+      }
+
+      context.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+      context.strokeRect(left, top, cellSize, cellSize);
+    }
+  }
+
+  for (const [sprites, colour] of [
+    [file.sprites || [], 'orange'],
+    [file.entities || [], 'lime']
+  ] as [SpriteDefinition[], string][]) {
+    for (const sprite of sprites) {
+      context.fillStyle = colour;
+      context.strokeStyle = sprite === selected ? 'white' : 'black';
+      context.beginPath();
+      context.arc(mapRect.x + sprite.x * cellSize, mapRect.y + sprite.y * cellSize, Math.max(cellSize * 0.25 * (sprite.scale || 1), 2), 0, Math.PI * 2);
+      context.fill();
+      context.stroke();
+    }
+  }
+
+  drawArrow(context, { x: file.entrance.x + 0.5, y: file.entrance.y + 0.5 }, file.entrance.angle, 'cyan');
+  drawArrow(context, { x: file.exit.x + 0.5, y: file.exit.y + 0.5 }, file.exit.angle, 'magenta');
+  drawArrow(context, camera.position, camera.getAngle(), 'yellow');
+
+  if (hover !== undefined) {
+    context.strokeStyle = 'yellow';
+    context.strokeRect(mapRect.x + Math.floor(hover.x) * cellSize, mapRect.y + Math.floor(hover.y) * cellSize, cellSize, cellSize);
+  }
+}
+
+// Draws the editor, with the map on the left, the live preview on the right, and the palette and status underneath.
+export function drawEditor(context: CanvasRenderingContext2D, backBuffer: CanvasRenderingContext2D, elapsed: number): void {
+  const width = context.canvas.width;
+  const height = context.canvas.height;
+  const panelHeight = swatchSize + lineHeight * 5 + 30;
+
+  // Fit the map into the left half of the screen, above the palette and status.
+  const area = { x: 10, y: 10, width: width / 2 - 20, height: height - panelHeight - 20 };
+  cellSize = Math.max(Math.floor(Math.min(area.width / definitions[0].length, area.height / definitions.length)), 1);
+  mapRect = { x: area.x, y: area.y, width: cellSize * definitions[0].length, height: cellSize * definitions.length };
+  drawMap(context);
+
+  // Render the preview, and fit it into the right half of the screen.
+  if (preview !== undefined) {
+    updateLights(preview, elapsed);
+    camera.enter(getCell(preview, Math.floor(camera.position.x), Math.floor(camera.position.y)));
+    render(backBuffer, camera, preview, false, renderer);
+    const scale = Math.min(area.width / backBuffer.canvas.width, area.height / backBuffer.canvas.height);
+    context.drawImage(backBuffer.canvas, width / 2 + 10, area.y, backBuffer.canvas.width * scale, backBuffer.canvas.height * scale);
+  }
+
+  // Draw the palette of textures, highlighting the current one.
+  paletteRect = { x: 10, y: height - panelHeight, width: textures.length * swatchSize, height: swatchSize };
+  for (let i = 0; i < textures.length; i++) {
+    drawSwatch(context, i + 1, paletteRect.x + i * swatchSize, paletteRect.y, swatchSize, swatchSize);
+  }
+  context.strokeStyle = 'yellow';
+  context.lineWidth = 2;
+  context.strokeRect(paletteRect.x + (textureId - 1) * swatchSize, paletteRect.y, swatchSize, swatchSize);
+  context.lineWidth = 1;
+
+  const tools = Object.keys(EditorTool)
+    .filter((key) => isNaN(Number(key)))
+    .map((key, index) => `${index + 1} ${key.charAt(0)}${key.slice(1).toLowerCase()}`)
+    .map((name, index) => (index === tool ? `[${name}]` : name));
+
+  const pos = { x: 10, y: paletteRect.y + swatchSize + 10 };
+  context.font = '12px monospace';
+  context.textAlign = 'start';
+  context.textBaseline = 'top';
+  context.fillStyle = 'white';
+  context.fillText(`Editing ${file.name || `Level ${file.depth}`} (${definitions[0].length} x ${definitions.length})${modified ? ' - Modified' : ''}`, pos.x, pos.y);
+  context.fillText(`Tools: ${tools.join('  ')}`, pos.x, (pos.y += lineHeight));
+  context.fillText(`Texture: ${textureId}  ${getOption()}`, pos.x, (pos.y += lineHeight));
+  context.fillStyle = errors.length > 0 ? 'orange' : 'white';
+  context.fillText(errors.length > 0 ? `${errors.length} problem(s): ${errors[0]}` : message || 'Valid', pos.x, (pos.y += lineHeight));
+  context.fillStyle = 'grey';
+  context.fillText(`Left click paints or places, right click erases, wheel scales or rotates. , . texture  Z X option  Q E rotate or scale  S save  O open  N new  L play`, pos.x, (pos.y += lineHeight));
+}
@@ -41,7 +41,48 @@ export enum CellProperties {
   SOLID = 1,
   BLOCKED = 2,
   INTERACTIVE = 4,
-  THIN = 8
+  THIN = 8,
+  TRANSPARENT = 16
+}
+
+export enum FogFalloff {
+  LINEAR,
+  EXPONENTIAL,
+  EXPONENTIAL_SQUARED
+}
+
+export enum SoundState {
+  UNLOADED,
+  LOADING,
+  LOADED,
+  ERROR
+}
+
+// The IDs of the sounds that are played when something happens in the game, which must match their IDs in sounds.ts.
+export enum SoundEffect {
+  DOOR_OPEN = 1,
+  DOOR_CLOSE,
+  SWITCH,
+  COIN,
+  FOOTSTEP,
+  PISTOL = 7,
+  FIREBALL,
+  IMPACT,
+  CRUMBLE,
+  PICKUP,
+  POWER_UP,
+  LOCKED
+}
+
+export enum RendererType {
+  CANVAS,
+  SOFTWARE
+}
+
+export enum MessageType {
+  LEVEL,
+  RENDER,
+  FRAME
 }
 
 export enum DoorState {
@@ -50,3 +91,110 @@ export enum DoorState {
   OPENING,
   OPEN
 }
+
+// The states of an enemy's AI, which also choose the texture it is drawn with.
+export enum EnemyState {
+  IDLE,
+  PATROL,
+  CHASE,
+  ATTACK,
+  PAIN,
+  DEAD
+}
+
+export enum WeaponAttack {
+  HITSCAN,
+  PROJECTILE
+}
+
+// What picking up an item does, i.e. keeps it in the inventory, e.g. coins and keys, heals the player, adds ammo, or gives a power-up for a while.
+export enum ItemKind {
+  ITEM,
+  HEALTH,
+  AMMO,
+  POWER_UP
+}
+
+// What sets off a trigger, i.e. the player interacting with a cell, walking into a cell, picking up an entity, time passing, or every enemy dying.
+export enum TriggerEvent {
+  INTERACT,
+  ENTER,
+  PICKUP,
+  TIMER,
+  ENEMIES_DEAD
+}
+
+// What a trigger does to the level, or the player, when it is set off.
+export enum TriggerActionType {
+  OPEN_DOOR,
+  CLOSE_DOOR,
+  TOGGLE_LIGHT,
+  SPAWN,
+  TELEPORT,
+  SET_STATE,
+  MESSAGE
+}
+
+export enum AutomapMode {
+  OFF,
+  MINIMAP,
+  FULLSCREEN
+}
+
+export enum EditorTool {
+  CELL,
+  TEXTURE,
+  SPRITE,
+  ENTITY,
+  ENTRANCE,
+  EXIT,
+  ACTIVATOR,
+  CAMERA
+}
+
+export enum Action {
+  FORWARD,
+  BACK,
+  STRAFE_LEFT,
+  STRAFE_RIGHT,
+  TURN_LEFT,
+  TURN_RIGHT,
+  LOOK_UP,
+  LOOK_DOWN,
+  JUMP,
+  CROUCH,
+  INTERACT,
+  FIRE,
+  NEXT_WEAPON,
+  PAUSE,
+  AUTOMAP,
+  AUTOMAP_ZOOM_IN,
+  AUTOMAP_ZOOM_OUT,
+  AUTOMAP_ROTATE,
+  AUTOMAP_TEXTURES,
+  AUTOMAP_CENTER,
+  DEBUG,
+  FOV_UP,
+  FOV_DOWN,
+  RESOLUTION_UP,
+  RESOLUTION_DOWN,
+  WORKERS_UP,
+  WORKERS_DOWN,
+  RENDERER,
+  EDITOR,
+  CONTROLS,
+  QUICK_SAVE,
+  QUICK_LOAD,
+  SAVE_SLOT,
+  SAVE,
+  LOAD,
+  MUTE
+}
+
+export enum TouchControl {
+  MOVE,
+  TURN,
+  INTERACT,
+  FIRE,
+  SWIPE
+}
@@ -1,15 +1,34 @@
-import type { Timer } from './interfaces/timer';
+import type { AutomapOptions } from './interfaces/automap';
 import type { Vector } from './interfaces/vector';
+import type { Player } from './objects/player';
 
 import { Mark, getCurrentFramesPerSecond, getDelta, getElapsed } from './utils/time-utils.js';
-import { backBufferProps, increaseBackBufferSize, decreaseBackBufferSize } from './config.js';
-import { levels } from './data/levels/levels.js';
+import { backBufferProps, increaseBackBufferSize, decreaseBackBufferSize, nextRenderer, renderer, renderWorkers, increaseRenderWorkers, decreaseRenderWorkers, automapZoom, increaseAutomapZoom, decreaseAutomapZoom } from './config.js';
+import { Action, AutomapMode, RendererType, SoundEffect } from './enums.js';
+import { levels, loadLevel, replaceLevel } from './data/levels/levels.js';
+import { itemTypes } from './data/items/items.js';
 import { render } from './raycaster.js';
-import { getCurrentLevel, getGameState, getPlayer, setCurrentLevel, states } from './state.js';
+import { getCurrentLevel, getGameState, getPlayer, getStartingLevelFile, restartLevel, setCurrentLevel, states } from './state.js';
 import { checkEntityCollision } from './utils/collision-utils.js';
 import { getLevelName } from './utils/level-utils.js';
 import { Rectangle } from './interfaces/rectangle.js';
-import { hasTimer, registerTimer, updateTimers } from './utils/timer-utils.js';
+import { createThrottleTimer, hasTimer, registerTimer, updateTimers } from './utils/timer-utils.js';
+import { updateLights } from './utils/light-utils.js';
+import { alertEnemies, updateEnemies } from './utils/enemy-utils.js';
+import { drawAutomap, getAutomapOffset, getAutomapPosition, isExplored } from './utils/automap-utils.js';
+import { createSaveGame, getSavedLevel, readSaveGame, restoreSaveGame, writeSaveGame } from './utils/save-utils.js';
+import { closeEditor, drawEditor, isEditing, onEditorKeyUp, onEditorMouseDown, onEditorMouseMove, onEditorMouseUp, onEditorWheel, openEditor } from './editor.js';
+import { drawControls, isConfiguring, openControls } from './controls.js';
+import { drawTouchControls, layoutTouchControls, onTouchEnd, onTouchMove, onTouchStart } from './touch.js';
+import { getActionMovement, getActionValue, getBoundAction, isActionActive, loadBindings, moveAxes, pollGamepads, pressInput, releaseAllInputs, releaseInput, resetMovement, setActionHandler } from './utils/input-utils.js';
+import { playSound, resumeAudio, toggleMute, updateAudio } from './utils/audio-utils.js';
+import { createRenderPool, getRenderPoolSize, getStripTimings, isRenderPoolSupported, presentFrame, requestFrame } from './utils/pool-utils.js';
+import { findPath, followRoute } from './utils/path-utils.js';
+import { getTextureById, isTextureLoaded } from './utils/texture-utils.js';
+import { updateProjectiles } from './utils/weapon-utils.js';
+import { updateDoors } from './utils/activator-utils.js';
+import { firePickupTriggers, takeTriggerMessages, updateTriggers } from './utils/trigger-utils.js';
+import { collectPickup, getItemTypeById, getPickup, getPickupMessage } from './utils/item-utils.js';
 import * as vu from './utils/vector-utils.js';
 
 // Globals
@@ -22,52 +41,128 @@ let frontBufferProps: Rectangle;
 // States
 let pause: boolean = false;
 let debug: boolean = false;
-let minimap: boolean = false;
-
-// TODO: Clean this up.
-let rotateLeft = false;
-let rotateRight = false;
-let moveForwards = false;
-let moveBackwards = false;
-let interact = false;
+let automapMode: AutomapMode = AutomapMode.OFF;
+let automapRotate = false;
+let automapTextures = false;
+let automapPan: Vector = vu.create();
+let automapDrag = 0; // How far, in pixels, the mouse has moved whilst held on the full screen automap, so that panning is not mistaken for a click.
+let route: Vector[] = []; // The points the player is walking through, after clicking where to go on the full screen automap.
+let saveSlot = 1; // The numbered save slot that is saved to, and loaded from, as opposed to the quick save slot.
+let notice = ''; // A short message shown at the bottom of the screen, e.g. when the game is saved.
+let noticeTime = 0;
+let pickups: { text: string; time: number }[] = []; // The messages shown for what the player has picked up recently, oldest first.
+let stride = 0; // How far the player has walked since their last footstep.
 
 let score = 0;
+let startScore = 0; // The score when the current level was started, which it goes back to if the player dies, as everything they picked up is put back.
+let scoredPlayer: Player | undefined; // The player the start score was taken for, as starting a level always creates a new player.
 const rotationSpeed = 3.1; // Radians per second
 const movementSpeed = 2.5; // Cells per second
-
-function createThrottleTimer(wait: number): Timer {
-  return (delta: number) => {
-    return (wait -= delta) < 0;
-  };
-}
+const lookSpeed = 1; // Viewport heights per second
+const mouseSensitivity = 0.003; // Radians, or viewport heights, per pixel
+const noticeDuration = 2; // Seconds
+const pickupDuration = 3; // Seconds
+const maxPickups = 4; // The most pickup messages shown at once.
+const saveSlots = 9;
+const strideLength = 0.75; // Cells walked between each footstep
 
 function update(elapsed: number): void {
   const player = getPlayer();
-  if (moveForwards) player.move(movementSpeed * elapsed, getCurrentLevel());
-  if (moveBackwards) player.move(-(movementSpeed / 2) * elapsed, getCurrentLevel());
-  if (rotateLeft) player.rotate(-rotationSpeed * elapsed);
-  if (rotateRight) player.rotate(rotationSpeed * elapsed);
+  if (player !== scoredPlayer) {
+    scoredPlayer = player;
+    startScore = score;
+  }
+  const position = { ...player.position };
+  updateLights(getCurrentLevel(), elapsed);
+
+  // Actions bound to keys and buttons move the player at a constant speed, or proportionally for sticks, whereas the mouse moves the player by how far
+  // it has moved.
+  const forwards = getActionValue(Action.FORWARD) - getActionValue(Action.BACK) / 2;
+  const sideways = getActionValue(Action.STRAFE_RIGHT) - getActionValue(Action.STRAFE_LEFT);
+  const turn = (getActionValue(Action.TURN_RIGHT) - getActionValue(Action.TURN_LEFT)) * rotationSpeed * elapsed;
+  const look = (getActionValue(Action.LOOK_UP) - getActionValue(Action.LOOK_DOWN)) * lookSpeed * elapsed;
+  if (forwards !== 0) player.move(forwards * movementSpeed * elapsed, getCurrentLevel());
+  if (sideways !== 0) player.strafe((sideways * movementSpeed * elapsed) / 2, getCurrentLevel());
+  player.rotate(turn + (getActionMovement(Action.TURN_RIGHT) - getActionMovement(Action.TURN_LEFT)) * mouseSensitivity);
+  player.look(look + (getActionMovement(Action.LOOK_UP) - getActionMovement(Action.LOOK_DOWN)) * mouseSensitivity);
+  // Walk the route chosen on the automap, until the player moves or turns themselves.
+  if (forwards !== 0 || sideways !== 0 || turn !== 0) {
+    route = [];
+  } else if (route.length > 0) {
+    followRoute(getCurrentLevel(), player, route, movementSpeed * elapsed);
+  }
+  if (isActionActive(Action.JUMP)) player.jump();
+  player.crouch(isActionActive(Action.CROUCH));
+  player.update(elapsed);
+
+  // Play a footstep every stride whilst walking, varying the pitch a little so that they do not all sound the same.
+  if (!player.isAirborne()) {
+    stride += vu.distance(position, player.position);
+    if (stride >= strideLength) {
+      stride -= strideLength;
+      playSound(SoundEffect.FOOTSTEP, undefined, 0.9 + Math.random() * 0.2);
+      alertEnemies(getCurrentLevel(), player.position, player.crouching ? 0.5 : 1);
+    }
+  }
 
-  if (interact && !hasTimer('interact')) {
-    player.interact(getCurrentLevel());
+  if (isActionActive(Action.INTERACT) && !hasTimer('interact')) {
+    const refusal = player.interact(getCurrentLevel());
+    if (refusal !== undefined) {
+      showNotice(refusal);
+    }
     registerTimer('interact', createThrottleTimer(0.25));
   }
 
-  // FIXME: Check Collisions, nothing moves at the moment so for now just player vs all objects...
+  // Fire whilst the action is held, as fast as the weapon allows, and let the projectiles in flight hit whatever they reach.
+  const targets = [player, ...(getCurrentLevel().enemies || [])];
+  if (isActionActive(Action.FIRE) && !player.fire(getCurrentLevel(), targets) && player.ammo[player.weapon.id] === 0) {
+    showNotice(`No ammo for the ${player.weapon.name}`);
+  }
+  updateProjectiles(getCurrentLevel(), targets, elapsed);
+
+  // Pick up whatever the player walks into, unless they have no room for any of it, e.g. health when they are already at full health.
   const level = getCurrentLevel();
   for (const object of level.entities) {
-    if (object.active === false) {
+    if (object.active === false || !checkEntityCollision(player, { ...object, radius: 0.1 })) {
       continue;
     }
-    if (checkEntityCollision(player, { ...object, radius: 0.1 })) {
-      object.active = false;
-      score += 100;
+    const pickup = getPickup(object);
+    const type = getItemTypeById(pickup.item);
+    const amount = collectPickup(player, pickup);
+    if (type === undefined || amount === 0) {
+      continue;
     }
+    object.active = false;
+    score += (type.score || 0) * amount;
+    playSound(type.sound);
+    showPickup(getPickupMessage(type, amount));
+    firePickupTriggers(level, player, object);
+  }
+
+  // Set off the triggers for the player walking into a cell, for time passing and for every enemy dying, and show what any trigger has to say.
+  updateTriggers(level, player, elapsed);
+  for (const message of takeTriggerMessages()) {
+    showNotice(message);
+  }
+
+  // Close any doors that close by themselves once nobody is in the doorway.
+  updateDoors(level, [player, ...(level.enemies || []).filter((enemy) => enemy.health > 0)], elapsed);
+
+  // Let the enemies hunt the player, and if they kill them start the level again.
+  updateEnemies(level, player, elapsed);
+  if (player.health === 0) {
+    showNotice('You died');
+    score = startScore;
+    route = [];
+    restartLevel(level);
   }
 }
 
 // Main Loop
 function onTick(timestamp: number): void {
+  // Gamepads have to be polled, even whilst paused so that they can unpause.
+  pollGamepads();
+
   if (!pause) {
     // Mark the timer
     Mark(timestamp);
@@ -90,15 +185,47 @@ function onTick(timestamp: number): void {
         break;
 
       case states.LOADED:
+        // Whilst the editor is open the game is paused, and the editor draws over the whole screen.
+        if (isEditing()) {
+          drawEditor(frontBuffer, backBuffer, delta);
+          break;
+        }
+        // Whilst the controls are open the game is also paused.
+        if (isConfiguring()) {
+          drawControls(frontBuffer, frontBufferProps);
+          break;
+        }
         updateTimers(delta);
         update(delta);
-        render(backBuffer, getPlayer(), getCurrentLevel(), debug);
+        updateAudio();
+        // If there is a pool of render workers, then they render the frame in strips so the main thread only has to present it, otherwise render it here.
+        if (getRenderPoolSize() > 0) {
+          requestFrame(getCurrentLevel(), getPlayer(), timestamp, backBufferProps.width, backBufferProps.height, renderer, debug);
+          presentFrame(backBuffer);
+        } else {
+          render(backBuffer, getPlayer(), getCurrentLevel(), debug, renderer);
+        }
         frontBuffer.drawImage(backBufferCanvas, 0, 0, backBufferProps.width, backBufferProps.height, frontBufferProps.x, frontBufferProps.y, frontBufferProps.width, frontBufferProps.height);
+
+        drawWeapon();
+
+        // Flash the screen red when the player is hurt.
+        if (getPlayer().hurt > 0) {
+          frontBuffer.fillStyle = `rgba(255, 0, 0, ${getPlayer().hurt * 0.4})`;
+          frontBuffer.fillRect(frontBufferProps.x, frontBufferProps.y, frontBufferProps.width, frontBufferProps.height);
+        }
+
         frontBuffer.font = '24px serif';
         frontBuffer.textBaseline = 'top';
         frontBuffer.fillStyle = 'white';
         frontBuffer.textAlign = 'end';
         frontBuffer.fillText(`${score}`, frontBufferProps.x + frontBufferProps.width - 10, frontBufferProps.y + 10);
+        frontBuffer.textBaseline = 'bottom';
+        frontBuffer.textAlign = 'start';
+        frontBuffer.fillText(`Health ${getPlayer().health}`, frontBufferProps.x + 10, frontBufferProps.y + frontBufferProps.height - 10);
+        frontBuffer.textAlign = 'end';
+        frontBuffer.fillText(`${getPlayer().weapon.name} ${getPlayer().ammo[getPlayer().weapon.id]}`, frontBufferProps.x + frontBufferProps.width - 10, frontBufferProps.y + frontBufferProps.height - 10);
+        drawInventory();
         break;
     }
 
@@ -114,168 +241,350 @@ function onTick(timestamp: number): void {
       frontBuffer.fillText(`- Frametime: ${getDelta().toFixed(4)} seconds`, pos.x, (pos.y += 10));
       frontBuffer.fillText(`- Runtime:   ${getElapsed().toFixed(4)} seconds`, pos.x, (pos.y += 10));
       frontBuffer.fillText(`Renderer`, pos.x, (pos.y += 10));
+      frontBuffer.fillText(`- Type:  ${RendererType[renderer]}`, pos.x, (pos.y += 10));
+      frontBuffer.fillText(`- Workers: ${getRenderPoolSize() > 0 ? getRenderPoolSize() : 'None, rendering on the main thread'}`, pos.x, (pos.y += 10));
+      getStripTimings().forEach((time, index) => {
+        frontBuffer.fillText(`  - Strip ${index}: ${time.toFixed(2)} ms`, pos.x, (pos.y += 10));
+      });
       frontBuffer.fillText(`- Back:  ${backBufferProps.width} x ${backBufferProps.height}`, pos.x, (pos.y += 10));
       frontBuffer.fillText(`- Front: ${frontBufferProps.width} x ${frontBufferProps.height}`, pos.x, (pos.y += 10));
       const player = getPlayer();
       frontBuffer.fillText(`Player`, pos.x, (pos.y += 10));
       frontBuffer.fillText(`- Position:  (${player.position.x}, ${player.position.y})`, pos.x, (pos.y += 10));
       frontBuffer.fillText(`- Direction: (${player.getAngle().toFixed(2)}`, pos.x, (pos.y += 10));
+      frontBuffer.fillText(`- Elevation: ${player.elevation.toFixed(2)}`, pos.x, (pos.y += 10));
+      frontBuffer.fillText(`- Pitch:     ${player.pitch.toFixed(2)}`, pos.x, (pos.y += 10));
     }
 
-    // If enabled, draw the minimap
-    if (minimap) {
-      const player = getPlayer();
-      frontBuffer.fillStyle = 'green';
-      frontBuffer.fillRect(frontBufferProps.x + 10, frontBufferProps.y + 10, frontBufferProps.width * 0.2, frontBufferProps.height * 0.2);
-
-      // Draw the direction Vector
-      const directionStart = {
-        x: frontBufferProps.x + 10 + (frontBufferProps.width * 0.2) / 2,
-        y: frontBufferProps.y + 10 + (frontBufferProps.height * 0.2) / 2
-      };
-
-      const directionEnd = vu.add(directionStart, vu.scale(player.direction, 20));
-
-      frontBuffer.strokeStyle = 'yellow';
-      frontBuffer.beginPath();
-      frontBuffer.moveTo(directionStart.x, directionStart.y);
-      frontBuffer.lineTo(directionEnd.x, directionEnd.y);
-      frontBuffer.stroke();
-
-      // Draw the Camera Plane
-      const cameraStart = vu.subtract(directionEnd, vu.scale(player.camera, 20));
-      const cameraEnd = vu.add(directionEnd, vu.scale(player.camera, 20));
-
-      frontBuffer.strokeStyle = 'blue';
-      frontBuffer.beginPath();
-      frontBuffer.moveTo(cameraStart.x, cameraStart.y);
-      frontBuffer.lineTo(cameraEnd.x, cameraEnd.y);
-      frontBuffer.stroke();
-
-      // Draw the FOV
-      const fovStart = vu.subtract(directionEnd, vu.scale(player.camera, 20));
-      const fovEnd = vu.add(directionEnd, vu.scale(player.camera, 20));
-
-      frontBuffer.strokeStyle = 'red';
-      frontBuffer.beginPath();
-      frontBuffer.moveTo(directionStart.x, directionStart.y);
-      frontBuffer.lineTo(fovStart.x, fovStart.y);
-      frontBuffer.stroke();
-
-      frontBuffer.beginPath();
-      frontBuffer.moveTo(directionStart.x, directionStart.y);
-      frontBuffer.lineTo(fovEnd.x, fovEnd.y);
-      frontBuffer.stroke();
-
-      // Stats
+    // If enabled, draw the automap, either as a minimap in the corner or over the whole screen.
+    if (automapMode !== AutomapMode.OFF && getGameState() === states.LOADED && !isEditing()) {
+      const rect = automapMode === AutomapMode.FULLSCREEN ? frontBufferProps : { x: frontBufferProps.x + 10, y: frontBufferProps.y + 10, width: frontBufferProps.width * 0.25, height: frontBufferProps.height * 0.25 };
+      drawAutomap(frontBuffer, getCurrentLevel(), getPlayer(), rect, getAutomapOptions());
+    }
+
+    // Draw the touch controls over everything else, once the screen has been touched.
+    if (getGameState() === states.LOADED && !isEditing() && !isConfiguring()) {
+      drawTouchControls(frontBuffer);
+    }
+
+    // Show any notice for a couple of seconds.
+    if (notice !== '' && getElapsed() - noticeTime < noticeDuration) {
+      frontBuffer.font = '16px serif';
+      frontBuffer.textBaseline = 'bottom';
+      frontBuffer.textAlign = 'center';
       frontBuffer.fillStyle = 'white';
-      frontBuffer.font = '12px serif';
-      frontBuffer.textAlign = 'start';
-      frontBuffer.fillText(`Angle: ${player.getAngle().toFixed(2)} Degrees`, 15, 15);
-      frontBuffer.fillText(`FOV: ${player.getFOV().toFixed(2)} Degrees`, 15, 30);
+      frontBuffer.fillText(notice, frontBufferProps.x + frontBufferProps.width / 2, frontBufferProps.y + frontBufferProps.height - 10);
     }
   }
 
+  resetMovement();
   window.requestAnimationFrame(onTick);
 }
 
-window.onkeydown = (event: KeyboardEvent): void => {
-  switch (event.code) {
-    case 'KeyW':
-      moveForwards = true;
+// Draws the weapon the player is holding at the bottom of the view, bobbing as they walk, and kicking up with a flash as it fires.
+function drawWeapon(): void {
+  const player = getPlayer();
+  const texture = getTextureById(player.weapon.textureId);
+  if (texture === undefined || !isTextureLoaded(texture) || texture.canvas === undefined) {
+    return;
+  }
+
+  const size = frontBufferProps.height / 2;
+  const bob = Math.sin((stride / strideLength) * Math.PI) * size * 0.05;
+  const x = frontBufferProps.x + (frontBufferProps.width - size) / 2 + bob;
+  const y = frontBufferProps.y + frontBufferProps.height - size + bob / 2 - player.firing * size * 0.05;
+  const state = player.firing > 0 ? 1 : 0;
+  frontBuffer.drawImage(texture.canvas, 0, state * texture.height, texture.width, texture.height, x, y, size, size);
+}
+
+// Shows a short message at the bottom of the screen.
+function showNotice(text: string): void {
+  notice = text;
+  noticeTime = getElapsed();
+}
+
+// Adds a message for something the player has picked up to those listed at the top of the screen, dropping the oldest if there are too many.
+function showPickup(text: string): void {
+  pickups = [...pickups, { text, time: getElapsed() }].slice(-maxPickups);
+}
+
+// Draws what the player carries, and the power-ups they have, above their health, and what they have picked up recently at the top of the screen.
+function drawInventory(): void {
+  const player = getPlayer();
+  const carried = itemTypes
+    .filter((type) => player.hasItem(type.id) || player.hasPowerUp(type.id))
+    .map((type) => (player.hasPowerUp(type.id) ? `${type.name} ${Math.ceil(player.powerUps[type.id])}s` : `${type.name} ${player.getItemCount(type.id)}`));
+  frontBuffer.font = '16px serif';
+  frontBuffer.textBaseline = 'bottom';
+  frontBuffer.textAlign = 'start';
+  frontBuffer.fillText(carried.join('  '), frontBufferProps.x + 10, frontBufferProps.y + frontBufferProps.height - 40);
+
+  pickups = pickups.filter((pickup) => getElapsed() - pickup.time < pickupDuration);
+  frontBuffer.textBaseline = 'top';
+  frontBuffer.textAlign = 'center';
+  pickups.forEach((pickup, index) => {
+    frontBuffer.fillText(pickup.text, frontBufferProps.x + frontBufferProps.width / 2, frontBufferProps.y + 10 + index * 20);
+  });
+}
+
+// Saves the current level, and the player within it, to the specified slot.
+function saveGame(slot: string): void {
+  if (getGameState() !== states.LOADED || isEditing()) {
+    return;
+  }
+
+  try {
+    writeSaveGame(slot, createSaveGame(getCurrentLevel(), getPlayer(), score));
+    showNotice(`Saved to slot ${slot}`);
+  } catch (error) {
+    console.error(error);
+    showNotice(`Failed to save to slot ${slot}`);
+  }
+}
+
+// Loads the game from the specified slot, switching to the level it was saved in.
+async function loadGame(slot: string): Promise<void> {
+  if (getGameState() !== states.LOADED || isEditing()) {
+    return;
+  }
+
+  try {
+    const save = readSaveGame(slot);
+    if (save === undefined) {
+      showNotice(`Slot ${slot} is empty`);
+      return;
+    }
+    const level = await getSavedLevel(save);
+    route = [];
+    await setCurrentLevel(level, level.entrance);
+    restoreSaveGame(save, level, getPlayer());
+    score = save.score;
+    showNotice(`Loaded slot ${slot}`);
+  } catch (error) {
+    console.error(error);
+    showNotice(`Failed to load slot ${slot}`);
+  }
+}
+
+// Shows what is saved in the current numbered slot.
+function showSaveSlot(): void {
+  try {
+    const save = readSaveGame(`${saveSlot}`);
+    showNotice(save === undefined ? `Slot ${saveSlot}: Empty` : `Slot ${saveSlot}: ${save.level.name || `Level ${save.level.depth}`}, ${new Date(save.date).toLocaleString()}`);
+  } catch (error) {
+    console.error(error);
+    showNotice(`Slot ${saveSlot}: Invalid`);
+  }
+}
+
+// Handles each action as the input bound to it is released, as opposed to actions such as moving, which last for as long as they are pressed.
+function onAction(action: Action): void {
+  const player = getPlayer();
+  switch (action) {
+    // Toggle pausing the main-loop
+    case Action.PAUSE:
+      pause = !pause;
       break;
 
-    case 'KeyA':
-      rotateLeft = true;
+    // Switch to the next weapon the player carries
+    case Action.NEXT_WEAPON:
+      player.nextWeapon();
+      showNotice(player.weapon.name);
       break;
 
-    case 'KeyS':
-      moveBackwards = true;
+    // Cycle the automap between off, the minimap and full screen
+    case Action.AUTOMAP:
+      automapMode = (automapMode + 1) % 3;
       break;
 
-    case 'KeyD':
-      rotateRight = true;
+    // Zoom the automap in, or out
+    case Action.AUTOMAP_ZOOM_IN:
+      increaseAutomapZoom();
       break;
 
-    case 'Space':
-      interact = true;
+    case Action.AUTOMAP_ZOOM_OUT:
+      decreaseAutomapZoom();
       break;
 
-    default:
-      console.log(`code = ${event.code}`);
+    // Toggle the automap rotating with the player, so that they always face up
+    case Action.AUTOMAP_ROTATE:
+      automapRotate = !automapRotate;
       break;
-  }
-};
 
-window.onkeyup = (event: KeyboardEvent): void => {
-  const player = getPlayer();
-  switch (event.code) {
-    // Toggle pausing the main-loop
-    case 'KeyP':
-      pause = !pause;
+    // Toggle drawing the automap with textures, rather than colours
+    case Action.AUTOMAP_TEXTURES:
+      automapTextures = !automapTextures;
       break;
 
-    // Toggle debug on or off
-    case 'KeyM':
-      minimap = !minimap;
+    // Center the automap on the player again, after it has been panned
+    case Action.AUTOMAP_CENTER:
+      automapPan = vu.create();
       break;
 
     // Increase FOV
-    case 'PageUp':
+    case Action.FOV_UP:
       if (player) {
         player.direction = vu.scale(player.direction, 1.1);
       }
       break;
 
     // Decrease FOV
-    case 'PageDown':
+    case Action.FOV_DOWN:
       if (player) {
         player.direction = vu.scale(player.direction, 0.9);
       }
       break;
 
     // Toggle debug on or off
-    case 'KeyI':
+    case Action.DEBUG:
       debug = !debug;
       break;
 
-    case 'KeyW':
-      moveForwards = false;
+    case Action.RESOLUTION_UP:
+      if (increaseBackBufferSize()) {
+        resizeBackbuffer();
+      }
+      break;
+
+    case Action.RESOLUTION_DOWN:
+      if (decreaseBackBufferSize()) {
+        resizeBackbuffer();
+      }
       break;
 
-    case 'KeyA':
-      rotateLeft = false;
+    case Action.WORKERS_UP:
+      if (increaseRenderWorkers()) {
+        resizeRenderPool();
+      }
       break;
 
-    case 'KeyS':
-      moveBackwards = false;
+    case Action.WORKERS_DOWN:
+      if (decreaseRenderWorkers()) {
+        resizeRenderPool();
+      }
       break;
 
-    case 'KeyD':
-      rotateRight = false;
+    // Switch between the Canvas and Software renderers
+    case Action.RENDERER:
+      nextRenderer();
       break;
 
-    case 'Space':
-      interact = false;
+    // Toggle the level editor on or off
+    case Action.EDITOR:
+      toggleEditor();
       break;
 
-    case 'Equal':
-      if (increaseBackBufferSize()) {
-        resizeBackbuffer();
+    // Open the controls, to change what each action is bound to
+    case Action.CONTROLS:
+      if (getGameState() === states.LOADED && !isEditing()) {
+        document.exitPointerLock();
+        openControls();
       }
       break;
 
-    case 'Minus':
-      if (decreaseBackBufferSize()) {
-        resizeBackbuffer();
-      }
+    // Quick save, and quick load
+    case Action.QUICK_SAVE:
+      saveGame('quick');
+      break;
+
+    case Action.QUICK_LOAD:
+      loadGame('quick');
+      break;
+
+    // Choose the next numbered save slot, and then save to, or load from, it
+    case Action.SAVE_SLOT:
+      saveSlot = (saveSlot % saveSlots) + 1;
+      showSaveSlot();
+      break;
+
+    case Action.SAVE:
+      saveGame(`${saveSlot}`);
+      break;
+
+    case Action.LOAD:
+      loadGame(`${saveSlot}`);
+      break;
+
+    case Action.MUTE:
+      showNotice(toggleMute() ? 'Sound off' : 'Sound on');
       break;
 
     default:
       break;
   }
+}
+
+// Browsers only allow sound to play once the player has done something, so every key, click and touch resumes it.
+window.onkeydown = (event: KeyboardEvent): void => {
+  resumeAudio();
+  if (isEditing()) {
+    return;
+  }
+
+  // Stop the browser from acting on any key that is bound, e.g. reloading the page when quick saving.
+  if (getBoundAction(event.code) !== undefined || isConfiguring()) {
+    event.preventDefault();
+  }
+  pressInput(event.code);
+};
+
+window.onkeyup = (event: KeyboardEvent): void => {
+  if (isEditing() && onEditorKeyUp(event)) {
+    return;
+  }
+  releaseInput(event.code);
 };
 
+// Forget about anything that was pressed when the window loses focus, as it will never see them being released.
+window.onblur = releaseAllInputs;
+
+// Opens the level editor on the current level, or closes it and plays the edited level from its entrance.
+function toggleEditor(): void {
+  if (getGameState() !== states.LOADED) {
+    return;
+  }
+
+  if (!isEditing()) {
+    document.exitPointerLock();
+    openEditor(getStartingLevelFile(getCurrentLevel()));
+    return;
+  }
+
+  const level = closeEditor();
+  if (level !== undefined) {
+    replaceLevel(getCurrentLevel(), level);
+    route = [];
+    setCurrentLevel(level, level.entrance);
+  }
+}
+
+// Gets how the automap is drawn, including the route the player is walking.
+function getAutomapOptions(): AutomapOptions {
+  return { zoom: automapZoom, pan: automapPan, rotate: automapRotate, textures: automapTextures, route };
+}
+
+// Finds a route to the center of the explored cell clicked on the full screen automap, which the player then walks until they move themselves.
+function walkToAutomapPosition(x: number, y: number): void {
+  const level = getCurrentLevel();
+  const player = getPlayer();
+  const position = getAutomapPosition(player, frontBufferProps, getAutomapOptions(), x, y);
+  const cellX = Math.floor(position.x);
+  const cellY = Math.floor(position.y);
+  if (!isExplored(level, cellX, cellY)) {
+    return;
+  }
+
+  route = findPath(level, player.position, vu.create(cellX + 0.5, cellY + 0.5), { radius: player.radius, jumpPoints: true }) || [];
+  if (route.length === 0) {
+    showNotice('No way there');
+  }
+}
+
+// Checks if the mouse is locked to the canvas, for mouse-look.
+function isMouseLocked(): boolean {
+  return document.pointerLockElement === frontBufferCanvas;
+}
+
 // Resizes the Back Buffer
 function resizeBackbuffer(): void {
   backBufferCanvas.width = backBufferProps.width;
@@ -285,6 +594,11 @@ function resizeBackbuffer(): void {
   backBuffer.imageSmoothingEnabled = false;
 }
 
+// Resizes the pool of render workers, unless workers are not supported in which case the main thread always renders.
+function resizeRenderPool(): void {
+  createRenderPool(isRenderPoolSupported() ? renderWorkers : 0);
+}
+
 // Resizes the Front Buffer
 function resizeFrontbuffer(): void {
   frontBufferCanvas.width = window.innerWidth;
@@ -303,13 +617,22 @@ function resizeFrontbuffer(): void {
     width: frontBufferCanvas.width - width,
     height: frontBufferCanvas.height - height
   };
+
+  // The touch controls fit around the letterboxed view, e.g. below it in portrait.
+  layoutTouchControls({ x: 0, y: 0, width: frontBufferCanvas.width, height: frontBufferCanvas.height }, frontBufferProps);
 }
 
 // When the window is resized, make sure the FrontBuffer is also resized.
 window.onresize = resizeFrontbuffer;
 
-window.onload = function (): void {
-  // TODO: Once support is more widespread, could investigate using an Offscreen Canvas for the backBuffer.
+window.onload = async function (): Promise<void> {
+  // Use any bindings that were changed in a previous session.
+  loadBindings();
+  setActionHandler(onAction);
+
+  // If supported, render in a pool of workers that each own an Offscreen Canvas, otherwise fall back to rendering on the main thread.
+  resizeRenderPool();
+
   backBufferCanvas = document.createElement('canvas') as HTMLCanvasElement;
   backBuffer = backBufferCanvas.getContext('2d', { alpha: false }) as CanvasRenderingContext2D;
   resizeBackbuffer();
@@ -318,7 +641,85 @@ window.onload = function (): void {
   frontBuffer = frontBufferCanvas.getContext('2d', { alpha: false }) as CanvasRenderingContext2D;
   resizeFrontbuffer();
 
+  // The mouse is used by the level editor, and to pan and zoom the full screen automap.
+  // Otherwise clicking locks the mouse to the canvas, after which the mouse buttons and moving the mouse are handled as inputs.
+  frontBufferCanvas.onmousedown = (event: MouseEvent): void => {
+    resumeAudio();
+    if (isEditing()) {
+      onEditorMouseDown(event.offsetX, event.offsetY, event.button);
+    } else if (isMouseLocked() || isConfiguring()) {
+      pressInput(`Mouse${event.button}`);
+    } else if (automapMode !== AutomapMode.FULLSCREEN && getGameState() === states.LOADED) {
+      frontBufferCanvas.requestPointerLock();
+    } else if (automapMode === AutomapMode.FULLSCREEN) {
+      automapDrag = 0;
+    }
+  };
+  frontBufferCanvas.onmousemove = (event: MouseEvent): void => {
+    if (isEditing()) {
+      onEditorMouseMove(event.offsetX, event.offsetY, event.buttons & 2 ? 2 : 0);
+    } else if (isMouseLocked()) {
+      moveAxes('Mouse', event.movementX, event.movementY);
+    } else if (automapMode === AutomapMode.FULLSCREEN && event.buttons & 1) {
+      const offset = getAutomapOffset(getPlayer(), getAutomapOptions(), event.movementX, event.movementY);
+      automapPan = vu.subtract(automapPan, offset);
+      automapDrag += Math.abs(event.movementX) + Math.abs(event.movementY);
+    }
+  };
+  frontBufferCanvas.onmouseup = (event: MouseEvent): void => {
+    if (isEditing()) {
+      onEditorMouseUp();
+    } else if (isMouseLocked() || isConfiguring()) {
+      releaseInput(`Mouse${event.button}`);
+    } else if (automapMode === AutomapMode.FULLSCREEN && event.button === 0 && automapDrag < 4 && getGameState() === states.LOADED) {
+      walkToAutomapPosition(event.offsetX, event.offsetY);
+    }
+  };
+  frontBufferCanvas.onwheel = (event: WheelEvent): void => {
+    if (isEditing()) {
+      event.preventDefault();
+      onEditorWheel(event.deltaY);
+    } else if (automapMode === AutomapMode.FULLSCREEN) {
+      event.preventDefault();
+      if (event.deltaY < 0) {
+        increaseAutomapZoom();
+      } else {
+        decreaseAutomapZoom();
+      }
+    }
+  };
+  // Touches are handled by the touch controls, and stop the browser from scrolling or zooming instead.
+  frontBufferCanvas.ontouchstart = (event: TouchEvent): void => {
+    event.preventDefault();
+    resumeAudio();
+    onTouchStart(event);
+  };
+  frontBufferCanvas.ontouchmove = (event: TouchEvent): void => {
+    event.preventDefault();
+    onTouchMove(event);
+  };
+  frontBufferCanvas.ontouchend = frontBufferCanvas.ontouchcancel = (event: TouchEvent): void => {
+    event.preventDefault();
+    onTouchEnd(event);
+  };
+  frontBufferCanvas.oncontextmenu = (event: MouseEvent): void => {
+    if (isEditing()) {
+      event.preventDefault();
+    }
+  };
+
   document.body.appendChild(frontBufferCanvas);
   window.requestAnimationFrame(onTick);
-  setCurrentLevel(levels[0], levels[0].entrance);
+
+  // A level file can be played without rebuilding by passing its URL, e.g. index.html?level=assets/levels/level02.json
+  let level = levels[0];
+  const url = new URLSearchParams(window.location.search).get('level');
+  if (url !== null) {
+    try {
+      level = await loadLevel(url);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+  setCurrentLevel(level, level.entrance);
 };
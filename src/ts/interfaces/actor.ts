@@ -0,0 +1,7 @@
+import type { Dynamic } from './dynamic';
+import type { Vector } from './vector';
+
+export interface Actor extends Dynamic {
+  health: number; // The actor is dead once its health reaches 0.
+  damage(amount: number, source?: Vector): void;
+}
@@ -0,0 +1,9 @@
+import type { Vector } from './vector';
+
+export interface AutomapOptions {
+  zoom: number; // The size, in pixels, of each cell.
+  pan: Vector; // The offset, in cells, of the center of the map from the entity.
+  rotate: boolean; // Whether the map rotates so that the entity always faces up, rather than the map always having north up.
+  textures: boolean; // Whether cells are drawn with their textures, rather than a colour for their type.
+  route?: Vector[]; // The points the entity is walking through, if it is walking somewhere on its own.
+}
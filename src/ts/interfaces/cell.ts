@@ -1,4 +1,5 @@
 import { Activator } from './activator';
+import { Light } from './light';
 import { CellProperties, CellType, DoorState } from '../enums';
 
 export interface Cell {
@@ -8,10 +9,26 @@ export interface Cell {
   properties: CellProperties; // Flags to store any special properties of the cell.
   activators: Activator[];
   state: number;
+  floorHeight: number; // The height of the floor of the cell, or the bottom of the wall if solid. 0 is ground level.
+  ceilingHeight: number; // The height of the ceiling of the cell, or the top of the wall if solid. 1 is a single storey.
+  light: number; // The amount of light in the cell, which is added to the ambient light of the level.
+  lamp?: Light; // A light attached to the cell, e.g. a lamp mounted on a wall.
+  health?: number; // Only for destructible walls, the damage the wall can take before it crumbles, leaving its top and bottom faces as a floor.
+  lock?: Lock; // Only for doors and switches, what is needed before the door can be opened or the switch used.
+  flag?: string; // The name of a flag that is set whilst the cell's state is not 0, e.g. a switch that unlocks a door elsewhere.
+}
+
+export interface Lock {
+  item?: number; // The ID of the type of item the player must carry, e.g. a key.
+  consume?: boolean; // Whether the item is used up when the lock is opened, after which the lock stays open.
+  flag?: string; // The name of a flag that must be set, e.g. by a switch.
+  message?: string; // Shown when the lock stays shut. Defaults to saying what is needed.
+  unlocked?: boolean; // Whether the item has been used up, so that it is not needed again.
 }
 
 export interface DoorCell extends Cell {
   status: DoorState; // The doors current state, e.g. Opening, Closed, etc.
   percent: number; // The amount, in percent, the door is closed. 100 mean closed, 0 means open.
   speed: number; // The time, in seconds, the door takes to open or close.
+  autoClose?: number; // The time, in seconds, the door waits once it is open and nothing is in the doorway before it closes by itself.
 }
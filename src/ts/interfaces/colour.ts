@@ -0,0 +1,5 @@
+export interface Colour {
+  r: number;
+  g: number;
+  b: number;
+}
@@ -0,0 +1,46 @@
+import { DoorState } from '../enums';
+
+export interface CellDiff {
+  x: number; // The X coordinate of the Cell.
+  y: number; // The Y coordinate of the Cell.
+  state: number;
+  properties: number;
+  light: number;
+  status?: DoorState; // Only included for doors.
+  percent?: number; // Only included for doors.
+}
+
+export interface SpriteDiff {
+  index: number; // The index of the Sprite within the level's sprites, or entities.
+  active: boolean;
+  x: number;
+  y: number;
+}
+
+export interface EnemyDiff {
+  index: number; // The index of the Enemy within the level's enemies.
+  active: boolean;
+  x: number;
+  y: number;
+  angle: number; // The direction the Enemy's sprite is facing.
+  textureId: number; // The texture for the Enemy's current state.
+}
+
+export interface EffectDiff {
+  index: number; // The index of the Sprite within the level's effects.
+  active: boolean;
+  x: number;
+  y: number;
+  textureId: number;
+  scale: number;
+  properties: number;
+}
+
+export interface LevelDiff {
+  cells: CellDiff[]; // The Cells that have changed.
+  sprites: SpriteDiff[]; // The Sprites that have changed.
+  entities: SpriteDiff[]; // The Entities that have changed, e.g. that have been picked up.
+  enemies: EnemyDiff[]; // The Enemies that have changed.
+  effects: EffectDiff[]; // The effect Sprites that have changed.
+  lights: number[]; // The current brightness of every light in the level.
+}
@@ -1,8 +1,11 @@
 import type { Radian } from '../types';
 import type { Entity } from './entity';
 import type { Level } from './level';
+import type { Vector } from './vector';
 
 export interface Dynamic extends Entity {
   rotate(amount: Radian): void;
+  face(point: Vector): void;
   move(amount: number, level: Level): void;
+  strafe(amount: number, level: Level): void;
 }
@@ -0,0 +1,16 @@
+export interface EnemyType {
+  id: number; // The ID for this type of enemy.
+  name: string;
+  textures: number[]; // The texture for each EnemyState. The textures for moving and attacking have a frame for each direction the enemy can face.
+  scale: number; // The size of the sprite, where 1 is a full cell.
+  radius: number; // The size of the enemy when colliding, in cells.
+  health: number;
+  speed: number; // Cells per second.
+  damage: number; // The health taken from the player by each attack.
+  attackRange: number; // How close, in cells, the enemy has to be to the player to attack them.
+  attackTime: number; // The time, in seconds, from the start of an attack until it hits, which is also the time until the enemy can attack again.
+  painTime: number; // The time, in seconds, the enemy is stunned for when it is hurt.
+  sightRange: number; // How far, in cells, the enemy can see.
+  fieldOfView: number; // How wide, in degrees, the enemy can see until it has been alerted, after which it sees all around.
+  hearingRadius: number; // How far, in cells, the enemy can hear the player.
+}
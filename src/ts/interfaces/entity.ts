@@ -5,5 +5,8 @@ export interface Entity extends Circle {
   direction: Vector;
   camera: Vector;
   active: boolean;
+  elevation: number; // The height of the entity's feet above ground level.
+  eyeHeight: number; // The height of the entity's eyes above its feet.
+  pitch: number; // How far the entity is looking up or down, as a fraction of the viewport height.
   update(elapsed: number): void;
 }
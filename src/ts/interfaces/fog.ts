@@ -0,0 +1,9 @@
+import type { Colour } from './colour';
+import type { FogFalloff } from '../enums';
+
+export interface Fog {
+  colour: Colour; // The colour that surfaces fade to with distance.
+  start: number; // The distance, in cells, at which the fog starts.
+  end: number; // The distance, in cells, at which the fog is completely opaque.
+  falloff: FogFalloff; // How quickly the fog thickens between the start and end distances.
+}
@@ -0,0 +1,6 @@
+export interface Framebuffer {
+  width: number; // The width, in pixels, of the Framebuffer.
+  height: number; // The height, in pixels, of the Framebuffer.
+  image: ImageData; // The image that is copied to the canvas once the frame is complete.
+  pixels: Uint32Array; // View of the image's pixel data, where each pixel is packed into a single ABGR value.
+}
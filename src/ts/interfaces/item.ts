@@ -0,0 +1,22 @@
+import { ItemKind } from '../enums';
+
+export interface ItemType {
+  id: number; // The ID for this type of item.
+  name: string;
+  textureId: number; // The texture the pickup is drawn with.
+  scale: number; // The size of the pickup's sprite, where 1 is a full cell.
+  kind: ItemKind;
+  amount: number; // What a pickup gives unless it says otherwise, i.e. the number of items, the health restored, the rounds of ammo or the seconds of a power-up.
+  // The most the player can carry, the most health it heals up to, or the most seconds a power-up lasts. Defaults to no limit, except for health, which
+  // defaults to the health the player starts with. Ammo is always limited by its weapon.
+  max?: number;
+  sound: number; // The ID of the sound played when it is picked up.
+  score?: number; // The points scored for each one picked up.
+  weapon?: number; // Only for ammo, the ID of the weapon it is for.
+  damage?: number; // Only for power-ups, what the damage of the player's weapons is multiplied by whilst it lasts.
+}
+
+export interface Pickup {
+  item: number; // The ID of the type of item.
+  amount?: number; // Defaults to the amount for the type of item.
+}
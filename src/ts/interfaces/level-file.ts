@@ -0,0 +1,110 @@
+import { Colour } from './colour';
+import { Pickup } from './item';
+import { Portal } from './portal';
+import { Vector } from './vector';
+
+// The names used for the properties, activators and other enumerations in a level file. See docs/level-format.md for details.
+export type CellTypeName = 'floor' | 'wall' | 'door' | 'entrance' | 'exit';
+export type CellPropertyName = 'solid' | 'blocked' | 'interactive' | 'thin' | 'transparent';
+export type ActivatorName = 'toggle' | 'increment' | 'decrement' | 'door' | 'light';
+export type SpritePropertyName = 'tint' | 'align-top' | 'align-bottom' | 'static';
+export type FogFalloffName = 'linear' | 'exponential' | 'exponential-squared';
+export type TriggerEventName = 'interact' | 'enter' | 'pickup' | 'timer' | 'enemies-dead';
+export type TriggerActionName = 'open-door' | 'close-door' | 'toggle-light' | 'spawn' | 'teleport' | 'set-state' | 'message';
+
+export interface LightDefinition {
+  radius: number; // The distance, in cells, at which the light no longer has any effect.
+  intensity?: number; // Defaults to 1.
+  flicker?: number; // Defaults to 0.
+}
+
+export interface LockDefinition {
+  item?: number; // The ID of the type of item the player needs to open it.
+  consume?: boolean; // Whether the item is used up the first time it is opened. Defaults to false.
+  flag?: string; // The flag that needs to be set to open it.
+  message?: string; // Shown when the player can't open it. Defaults to a message saying what is needed.
+}
+
+export interface CellDefinition {
+  type: CellTypeName;
+  textures: number | number[]; // Either a single texture for every face, or one per face in the order north, east, south, west, top and bottom.
+  floorHeight?: number; // Defaults to 0.
+  ceilingHeight?: number; // Defaults to 1, and is the height of the wall for walls.
+  properties?: CellPropertyName[]; // Added to the default properties for the type of cell.
+  activators?: ActivatorName[]; // Added to the default activators for the type of cell.
+  state?: number; // Defaults to 0, or 1 for lamps.
+  light?: number; // Defaults to 0.
+  speed?: number; // Only for doors, the time, in seconds, the door takes to open or close. Defaults to 1.
+  lamp?: LightDefinition; // Attaches a light to the cell.
+  health?: number; // Only for walls, makes the wall destructible, crumbling once it has taken this much damage. Defaults to indestructible.
+  lock?: LockDefinition; // Only for doors and cells with activators, stops the player from opening or using it without a key, item or flag.
+  flag?: string; // Sets the flag whilst the cell is in any state other than 0, e.g. whilst a switch is on.
+  autoClose?: number; // Only for doors, the time, in seconds, the door stays open once nobody is in the doorway. Defaults to staying open.
+}
+
+export interface SpriteDefinition {
+  x: number;
+  y: number;
+  texture: number;
+  scale?: number; // Defaults to 1.
+  properties?: SpritePropertyName[]; // Defaults to ['tint'].
+  light?: LightDefinition; // Attaches a light to the sprite.
+  pickup?: Pickup; // Only for entities, what the player gets by walking into it. Defaults to a coin.
+  hidden?: boolean; // Whether the sprite is hidden until a trigger spawns it. Defaults to false.
+}
+
+export interface EnemyDefinition {
+  type: number; // The ID of the type of enemy.
+  x: number;
+  y: number;
+  angle?: number; // The direction, in degrees, the enemy faces. Defaults to 0.
+  patrol?: Vector[]; // The points the enemy walks between until it sees or hears the player, in order. Defaults to standing still.
+}
+
+export interface TriggerActionDefinition {
+  action: TriggerActionName;
+  x?: number; // The cell the action targets, or for teleports the cell the player is moved to.
+  y?: number;
+  sprite?: number; // The index of the sprite the action targets.
+  entity?: number; // The index of the entity the action targets.
+  state?: number; // Only for set-state.
+  angle?: number; // Only for teleport, in degrees. Defaults to the direction the player was facing.
+  message?: string; // Only for message.
+}
+
+export interface TriggerDefinition {
+  event: TriggerEventName;
+  x?: number; // Only for interact and enter, the cell that sets it off.
+  y?: number;
+  entity?: number; // Only for pickup, the index of the entity that sets it off.
+  time?: number; // Only for timer, the time, in seconds, before it goes off, and between each time after that.
+  once?: boolean; // Defaults to false, going off every time.
+  actions: TriggerActionDefinition[];
+}
+
+export interface FogDefinition {
+  colour: Colour;
+  start: number;
+  end: number;
+  falloff?: FogFalloffName; // Defaults to 'linear'.
+}
+
+export interface LevelFile {
+  depth: number;
+  name?: string;
+  entrance: Portal;
+  exit: Portal;
+  cells: Record<string, CellDefinition>; // Maps each character used in the grid to the cell it represents.
+  grid: string[]; // Each string is a row of the level, and each character in it a cell.
+  sprites?: SpriteDefinition[];
+  entities?: SpriteDefinition[];
+  enemies?: EnemyDefinition[];
+  triggers?: TriggerDefinition[];
+  floor?: number;
+  ceiling?: number;
+  skybox?: number;
+  loot?: number;
+  ambient?: number;
+  ambience?: number;
+  fog?: FogDefinition;
+}
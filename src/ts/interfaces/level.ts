@@ -1,17 +1,34 @@
 import { Portal } from './portal';
 import { Cell } from './cell';
 import { Sprite } from './sprite';
+import { Light } from './light';
+import { Fog } from './fog';
+import { LevelFile } from './level-file';
+import { Trigger } from './trigger';
+import type { Enemy } from '../objects/enemy';
+import type { Projectile } from '../objects/projectile';
 
 export interface Level {
   depth: number;
   name?: string;
+  url?: string; // The URL of the level file the level was loaded from, if it was not defined in code.
+  file?: LevelFile; // The level file the level was created from, so that it can be recreated, e.g. by the render workers.
   entrance: Portal;
   exit: Portal;
   data: Cell[][];
   entities: Sprite[];
   sprites: Sprite[];
+  enemies?: Enemy[]; // The enemies in the level, which move around and attack the player.
+  projectiles?: Projectile[]; // Everything that has been fired and is still in flight.
+  effects?: Sprite[]; // The sprites for short-lived effects, e.g. projectiles and impacts, which are reused once they are inactive.
   floor?: number;
   loot?: number;
   ceiling?: number;
   skybox?: number;
+  ambient?: number; // The amount of light everywhere in the level, where 1 is fully lit. Defaults to 1.
+  ambience?: number; // The ID of the sound looped in the background of the level, e.g. wind.
+  lights?: Light[]; // Every light in the level, including those attached to cells and sprites.
+  fog?: Fog; // The fog that surfaces fade into with distance. Defaults to fading to black.
+  triggers?: Trigger[]; // What happens when the player does something in the level, e.g. a switch that opens a door elsewhere.
+  explored?: Uint8Array; // Whether each cell, row by row, has been seen by the player, so that it is drawn on the automap.
 }
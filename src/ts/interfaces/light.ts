@@ -0,0 +1,10 @@
+import type { Vector } from './vector';
+
+export interface Light {
+  position: Vector; // The position of the light, shared with the sprite it is attached to so that it follows it around.
+  radius: number; // The distance, in cells, at which the light no longer has any effect.
+  intensity: number; // How bright the light is at its center, where 1 is fully lit.
+  flicker: number; // How much the light flickers, where 0 is a steady light and 1 flickers between full and no intensity.
+  active: boolean; // Whether the light is switched on.
+  brightness: number; // The current brightness of the light, taking into account flickering and whether it is active.
+}
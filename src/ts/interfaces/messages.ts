@@ -0,0 +1,40 @@
+import { MessageType, RendererType } from '../enums';
+import { Entity } from './entity';
+import { LevelDiff } from './diff';
+import { LevelFile } from './level-file';
+
+// The parts of an Entity that are needed to render the level from its perspective.
+export type EntityState = Omit<Entity, 'update'>;
+
+// Sent to the render worker when the current level changes.
+export interface LevelMessage {
+  type: MessageType.LEVEL;
+  level: number; // The index of the level within levels.
+  file?: LevelFile; // The level file, for levels that were loaded at runtime and hence are not in the worker's levels.
+  state?: SharedArrayBuffer; // The shared level state, if supported, in which case no diffs are sent with each frame.
+}
+
+// Sent to the render worker to request that the next frame is rendered.
+export interface RenderMessage {
+  type: MessageType.RENDER;
+  timestamp: number; // The timestamp of the frame, so that animations stay in sync with the main thread.
+  width: number; // The width, in pixels, of the Back Buffer.
+  height: number; // The height, in pixels, of the Back Buffer.
+  start: number; // The first column of the strip to render.
+  end: number; // The column after the last column of the strip to render.
+  renderer: RendererType;
+  debug: boolean;
+  entity: EntityState; // The entity to render the level from the perspective of.
+  diff?: LevelDiff; // The changes to the level since the last frame was requested, unless the level state is shared.
+}
+
+// Sent back from the render worker once its strip of a frame has been rendered.
+export interface FrameMessage {
+  type: MessageType.FRAME;
+  image?: ImageBitmap; // The rendered frame, or undefined if the level is still loading. Only the columns of the strip are valid.
+  start: number; // The first column of the strip.
+  end: number; // The column after the last column of the strip.
+  time: number; // The time, in milliseconds, it took to render the strip.
+  explored?: number[]; // The index of every cell seen whilst rendering the strip, so that they can be added to the automap.
+  failed?: boolean; // Whether the worker failed to load the level or render the strip, in which case the main thread has to render instead.
+}
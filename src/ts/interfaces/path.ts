@@ -0,0 +1,13 @@
+import type { Cell } from './cell';
+import type { Circle } from './circle';
+
+export interface PathOptions {
+  passable?: (cell: Cell) => boolean; // Whether a path can go through the cell. Defaults to any cell that is neither solid nor blocked, and doors.
+  doorCost?: number; // The extra cost of going through a door, as it has to be opened first. Defaults to 2.
+  avoid?: Circle[]; // Anything to keep away from, e.g. other enemies, whose cells cost more to go through rather than being impassable.
+  avoidCost?: number; // The extra cost of going through a cell that is being avoided. Defaults to 4.
+  radius?: number; // The radius of whatever follows the path, which is kept clear of walls when the path is smoothed. Defaults to 0.25.
+  jumpPoints?: boolean; // Whether to use jump point search, which expands far fewer cells across open areas. Defaults to false.
+  smooth?: boolean; // Whether to remove the points that can be walked past in a straight line. Defaults to true.
+  maxNodes?: number; // The number of cells to expand before giving up. Defaults to every cell in the level.
+}
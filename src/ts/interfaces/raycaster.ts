@@ -1,5 +1,7 @@
 import { Face } from '../enums';
 import { Cell } from './cell';
+import { Rectangle } from './rectangle';
+import { Texture } from './texture';
 
 export interface CastResult {
   x: number; // The X coordinate of the Cell.
@@ -9,3 +11,31 @@ export interface CastResult {
   wall: number; // The coordinate on the face that the ray hit.
   distance: number; // The distance to the wall from the point of origin.
 }
+
+// Decides if a ray should stop at the specified Cell.
+export type RayPredicate = (cell: Cell) => boolean | number;
+
+export interface WallSlice {
+  texture: Texture; // The texture to draw the slice with.
+  source: Rectangle; // The slice of the texture to draw.
+  destination: Rectangle; // The location in the viewport to draw the slice.
+  distance: number; // The distance to the wall from the point of origin.
+  transparent: boolean; // Whether the wall can be seen through.
+  light: number; // The amount of light falling on the wall, where 0 is pitch black and 1 is fully lit.
+}
+
+export interface SpriteProjection {
+  texture: Texture; // The texture to draw the sprite with.
+  offset: number; // The X offset of the frame within the texture.
+  destination: Rectangle; // The location in the viewport to draw the whole sprite.
+  clip: Rectangle; // The columns of the destination that are not entirely hidden, where each column can still be partly hidden.
+  distance: number; // The perpendicular distance to the sprite from the camera plane.
+  light: number; // The amount of light falling on the sprite, where 0 is pitch black and 1 is fully lit.
+  fog: number; // The amount of fog between the camera and the sprite, where 0 is clear and 1 is completely obscured.
+}
+
+export interface Occlusion {
+  distance: number; // The distance from the camera plane beyond which only these rows can be seen.
+  top: number; // The first row that can be seen.
+  bottom: number; // The row after the last row that can be seen.
+}
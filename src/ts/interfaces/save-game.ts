@@ -0,0 +1,80 @@
+import type { Vector } from './vector';
+import type { LevelFile } from './level-file';
+import type { CellType, DoorState, EnemyState } from '../enums';
+
+// A snapshot of the game that can be serialised as JSON, and restored later. Only what can change whilst playing is saved, so that the rest comes from
+// the level itself, and cells and sprites are identified by their position rather than their index so that saves survive changes to the level.
+export interface SavedLevel {
+  index: number; // The index of the level within the levels.
+  depth: number;
+  name?: string;
+  url?: string; // The URL of the level file, or Tiled map, the level was loaded from, if any.
+  file?: LevelFile; // The level itself, if it was edited and so cannot be loaded from anywhere else.
+  width: number; // The width of the level when it was saved, so that the explored cells can be found even if its size has changed.
+}
+
+export interface SavedPlayer {
+  position: Vector;
+  direction: Vector;
+  camera: Vector;
+  elevation: number;
+  pitch: number;
+  crouching: boolean;
+  health: number;
+  weapon: number; // The Id of the weapon being held.
+  ammo: Record<number, number>; // How much ammo is left for each weapon, by the Id of the weapon.
+  inventory: Record<number, number>; // How many of each item the player carries, by the Id of the type of item.
+  powerUps: Record<number, number>; // The seconds left on each power-up, by the Id of the type of item.
+}
+
+export interface SavedCell {
+  x: number;
+  y: number;
+  type: CellType; // The state is only restored if the cell is still of the same type.
+  state: number;
+  status?: DoorState; // Only for doors. A door that was opening or closing carries on doing so once it is loaded.
+  percent?: number; // Only for doors.
+  lamp?: boolean; // Whether the light attached to the cell is switched on.
+  health?: number; // Only for walls that can be destroyed, which are no longer solid once it reaches 0.
+  unlocked?: boolean; // Only for locks that used up their item, which stay open once they have been opened.
+}
+
+export interface SavedSprite {
+  x: number;
+  y: number;
+  texture: number;
+  active: boolean;
+  light?: boolean; // Whether the light attached to the sprite is switched on.
+}
+
+// Enemies move around, so they are identified by their index instead, and are only restored if they are still of the same type.
+export interface SavedEnemy {
+  type: number;
+  position: Vector;
+  direction: Vector;
+  camera: Vector;
+  health: number;
+  state: EnemyState;
+  waypoint: number; // The index of the patrol point the enemy is walking to.
+  target?: Vector; // Where the enemy last saw, or heard, the player.
+}
+
+// Triggers are identified by their index, in the same way as enemies.
+export interface SavedTrigger {
+  fired: boolean;
+  elapsed?: number; // Only for timers.
+}
+
+export interface SaveGame {
+  version: number; // The version of the schema, so that older saves can be upgraded when they are loaded.
+  date: string; // When the game was saved, as an ISO 8601 string.
+  level: SavedLevel;
+  player: SavedPlayer;
+  score: number;
+  cells: SavedCell[]; // Every door, interactive cell and lamp, and every cell a trigger acts on.
+  entities: SavedSprite[]; // Only those that are no longer active, e.g. that have been collected, or that have a light.
+  sprites: SavedSprite[]; // Only those that are no longer active, or that have a light.
+  enemies: SavedEnemy[]; // Every enemy, in the order of the level's enemies.
+  triggers: SavedTrigger[]; // Every trigger, in the order of the level's triggers.
+  explored: number[]; // The index of every explored cell, row by row.
+}
@@ -0,0 +1,20 @@
+import type { Vector } from './vector';
+
+import { SoundState } from '../enums';
+
+export interface Sound {
+  id: number; // The ID for this sound.
+  url: string; // Source audio for the sound, e.g. 'sound.wav'.
+  volume: number; // How loud the sound is played, where 1 is as loud as it was recorded.
+  loop: boolean; // Whether the sound repeats until it is stopped, e.g. the ambience of a level.
+  state: SoundState; // The current status of the Sound.
+  buffer?: AudioBuffer; // The decoded audio for the sound.
+}
+
+export interface Voice {
+  sound: Sound; // The sound being played.
+  source: AudioBufferSourceNode;
+  gain: GainNode; // Attenuates the sound by its distance from the listener, and by any wall between them.
+  panner: StereoPannerNode; // Pans the sound towards whichever side of the listener it is on.
+  position: Vector; // Where the sound is being played in the level.
+}
@@ -1,4 +1,6 @@
 import { Vector } from './vector';
+import { Light } from './light';
+import { Pickup } from './item';
 
 export interface Sprite {
   position: Vector;
@@ -7,4 +9,8 @@ export interface Sprite {
   textureId: number;
   properties: number;
   distance?: number;
+  angle?: number; // The direction, in radians, a static sprite is facing, so that it is seen from the front when it faces the camera. Defaults to 0.
+  light?: Light; // A light attached to the sprite, e.g. a torch. Sprites that emit light are not shaded.
+  pickup?: Pickup; // Only for entities, what the player gets by walking into it. Defaults to a coin.
+  hidden?: boolean; // Whether the sprite starts inactive, until a trigger spawns it.
 }
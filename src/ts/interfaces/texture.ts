@@ -1,3 +1,5 @@
+import type { Canvas } from '../types';
+
 import { TextureState, TextureProperties } from '../enums';
 
 export interface Texture {
@@ -11,7 +13,8 @@ export interface Texture {
   frames: number; // The number of animation frames the texture has.
   state: TextureState; // Flags that store the current status of the Texture.
   properties: TextureProperties; // Flags to store any special properties of the texture.
-  canvas?: HTMLCanvasElement; // Handle to the Offscreen Canvas for this Texture data.
+  canvas?: Canvas; // Handle to the Offscreen Canvas for this Texture data.
   buffer?: Uint8ClampedArray; // Raw pixel data for the Texture.
-  effect?: HTMLCanvasElement; // Handle to the Offscreen Canvas for effect purposes.
+  effect?: Canvas; // Handle to the Offscreen Canvas for effect purposes.
+  effectKey?: string; // Describes the effect currently drawn to the effect canvas, so that it is only redrawn when it changes.
 }
@@ -0,0 +1,64 @@
+// The parts of a map saved by the Tiled editor, https://www.mapeditor.org, that are needed to import it as a level. These follow Tiled's JSON format,
+// and maps saved as TMX are converted into the same shape when they are parsed. See docs/tiled.md for details.
+export type TiledPropertyValue = string | number | boolean;
+
+export interface TiledProperty {
+  name: string;
+  type?: string; // One of string, int, float, bool, color, file, object or class. Defaults to string.
+  value: TiledPropertyValue;
+}
+
+export interface TiledTile {
+  id: number; // The ID of the tile within its tileset.
+  type?: string; // The class of the tile, which was called type before Tiled 1.9.
+  class?: string;
+  properties?: TiledProperty[];
+}
+
+export interface TiledTileset {
+  firstgid: number; // The global ID of the first tile in the tileset.
+  source?: string; // The URL of an external tileset, relative to the map, which must be loaded before the map can be converted.
+  name?: string;
+  tilecount?: number;
+  tiles?: TiledTile[]; // Only tiles that have properties, or a class, are included.
+}
+
+export interface TiledObject {
+  id: number;
+  name?: string;
+  type?: string; // The class of the object, which was called type before Tiled 1.9.
+  class?: string;
+  x: number; // In pixels.
+  y: number; // In pixels. For tile objects this is the bottom of the tile, rather than the top.
+  width?: number;
+  height?: number;
+  gid?: number; // The global ID of the tile, for tile objects.
+  point?: boolean;
+  properties?: TiledProperty[];
+}
+
+export interface TiledLayer {
+  type: 'tilelayer' | 'objectgroup' | 'imagelayer' | 'group';
+  name: string;
+  width?: number;
+  height?: number;
+  data?: number[] | string; // The global tile IDs, row by row, either as an array or as an encoded string.
+  encoding?: 'csv' | 'base64';
+  compression?: string;
+  objects?: TiledObject[];
+  layers?: TiledLayer[]; // The layers within a group.
+  properties?: TiledProperty[];
+}
+
+export interface TiledMap {
+  type?: string;
+  orientation: string;
+  infinite?: boolean;
+  width: number; // In tiles.
+  height: number; // In tiles.
+  tilewidth: number; // In pixels.
+  tileheight: number; // In pixels.
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+}
@@ -0,0 +1,24 @@
+import { TriggerActionType, TriggerEvent } from '../enums';
+
+export interface TriggerAction {
+  type: TriggerActionType;
+  x?: number; // The cell the action targets, or for teleports the cell the player is moved to.
+  y?: number;
+  sprite?: number; // The index of the sprite the action targets, e.g. to spawn it or toggle its light.
+  entity?: number; // The index of the entity the action targets.
+  state?: number; // Only for SET_STATE, the state the cell is set to.
+  angle?: number; // Only for TELEPORT, the direction, in degrees, the player faces afterwards. Defaults to the direction they were facing.
+  message?: string; // Only for MESSAGE.
+}
+
+export interface Trigger {
+  event: TriggerEvent;
+  x?: number; // Only for INTERACT and ENTER, the cell that sets it off.
+  y?: number;
+  entity?: number; // Only for PICKUP, the index of the entity that sets it off.
+  time?: number; // Only for TIMER, the time, in seconds, from the start of the level, and between each time it goes off after that.
+  once?: boolean; // Whether it only goes off the first time. Defaults to false.
+  actions: TriggerAction[];
+  fired?: boolean; // Whether it has gone off yet.
+  elapsed?: number; // Only for TIMER, the time since it last went off.
+}
@@ -0,0 +1,32 @@
+import type { Actor } from './actor';
+import type { Cell } from './cell';
+import type { Vector } from './vector';
+import { WeaponAttack } from '../enums';
+
+export interface ProjectileType {
+  textureId: number; // The texture the projectile is drawn with whilst in flight.
+  scale: number; // The size of the sprite, where 1 is a full cell.
+  radius: number; // The size of the projectile when colliding, in cells.
+  speed: number; // Cells per second.
+}
+
+export interface WeaponType {
+  id: number; // The ID for this type of weapon.
+  name: string;
+  textureId: number; // The texture drawn over the view whilst the weapon is held, with a state for at rest and a state for firing.
+  attack: WeaponAttack;
+  damage: number; // The health taken from whatever is hit.
+  fireTime: number; // The time, in seconds, between each shot.
+  range: number; // How far, in cells, a hitscan attack reaches, or a projectile flies before it fizzles out.
+  ammo: number; // The ammo the player starts with.
+  maxAmmo: number; // The most ammo the player can carry.
+  sound: number; // The ID of the sound played when the weapon is fired.
+  decal: number; // The texture left briefly wherever a shot hits.
+  projectile?: ProjectileType; // Only for projectile attacks, what is fired.
+}
+
+export interface Impact {
+  position: Vector; // Where the shot hit.
+  actor?: Actor; // The actor that was hit, if any.
+  cell?: Cell; // The wall that was hit, if it did not hit an actor.
+}
@@ -0,0 +1,240 @@
+import type { Actor } from '../interfaces/actor';
+import type { EnemyType } from '../interfaces/enemy';
+import type { Level } from '../interfaces/level';
+import type { Sprite } from '../interfaces/sprite';
+import type { Vector } from '../interfaces/vector';
+
+import { Entity } from './entity.js';
+import { EnemyState, SpriteProperties } from '../enums.js';
+import { degreesToRadians } from '../utils/math-utils.js';
+import { findPath, followRoute, isPathClear } from '../utils/path-utils.js';
+import { castRay, rayHitsOpaque } from '../utils/ray-utils.js';
+import { createSpriteBasic } from '../utils/sprite-utils.js';
+import * as vu from '../utils/vector-utils.js';
+
+const searchTime = 5; // Seconds an enemy keeps looking for the player after losing track of them, before going back to what it was doing.
+const arrivalDistance = 0.1; // How close, in cells, an enemy has to get to a point to have reached it.
+const routeTime = 1; // Seconds before an enemy finds its route again, so that it goes around anything that has moved into its way.
+
+export class Enemy extends Entity implements Actor {
+  type: EnemyType;
+  sprite: Sprite; // The sprite the enemy is drawn with, which shares its position.
+  health: number;
+  state: EnemyState;
+  time: number; // How long, in seconds, the enemy has been in its current state.
+  spawn: Vector; // Where the enemy started, so that it can be put back there.
+  angle: number; // The direction, in degrees, the enemy started facing.
+  patrol: Vector[]; // The points the enemy walks between, in order, until it is alerted.
+  waypoint: number; // The index of the patrol point the enemy is walking to.
+  target?: Vector; // Where the enemy last saw, or heard, the player.
+  lostTime: number; // How long, in seconds, since the enemy last saw or heard the player.
+  route: Vector[]; // The points the enemy is walking through to get around walls, ending where it is going.
+  routeGoal?: Vector; // Where the route ends, so that a new route is found once the enemy is going somewhere else.
+  routeAge: number; // How long, in seconds, since the route was found.
+
+  constructor(type: EnemyType, x: number, y: number, angle: number = 0, patrol: Vector[] = []) {
+    super(x, y);
+    this.type = type;
+    this.radius = type.radius;
+    this.scale = type.scale;
+    this.spawn = vu.create(x, y);
+    this.angle = angle;
+    this.patrol = patrol;
+    this.sprite = createSpriteBasic(x, y, type.textures[EnemyState.IDLE], type.scale, SpriteProperties.ALIGN_BOTTOM | SpriteProperties.STATIC);
+    this.sprite.position = this.position;
+    this.health = type.health;
+    this.state = EnemyState.IDLE;
+    this.time = 0;
+    this.waypoint = 0;
+    this.lostTime = Infinity;
+    this.route = [];
+    this.routeAge = 0;
+    this.reset();
+  }
+
+  // Puts the enemy back where it started, at full health.
+  reset(): void {
+    // NOTE: The position is updated in place, as it is shared with the sprite.
+    this.position.x = this.spawn.x;
+    this.position.y = this.spawn.y;
+    this.direction = vu.create(1, 0);
+    this.camera = vu.create(0, 0.66);
+    this.rotate(degreesToRadians(this.angle));
+    this.health = this.type.health;
+    this.waypoint = 0;
+    this.target = undefined;
+    this.lostTime = Infinity;
+    this.route = [];
+    this.routeGoal = undefined;
+    this.setState(this.patrol.length > 0 ? EnemyState.PATROL : EnemyState.IDLE);
+  }
+
+  // Checks if the enemy has been killed.
+  isDead(): boolean {
+    return this.state === EnemyState.DEAD;
+  }
+
+  // Checks if the enemy knows the player is around, in which case it is hunting them.
+  isAlerted(): boolean {
+    return this.state === EnemyState.CHASE || this.state === EnemyState.ATTACK || this.state === EnemyState.PAIN;
+  }
+
+  // Changes the state of the enemy, and the texture it is drawn with.
+  setState(state: EnemyState): void {
+    this.state = state;
+    this.time = 0;
+    this.updateSprite();
+  }
+
+  // Updates the sprite to match the state of the enemy, and the direction it is facing.
+  updateSprite(): void {
+    this.sprite.textureId = this.type.textures[this.state];
+    this.sprite.angle = vu.angle(this.direction);
+    this.sprite.active = this.active;
+  }
+
+  // Checks if the enemy can see the specified position, i.e. it is in range, in front of the enemy unless it has been alerted, and there is nothing
+  // opaque in the way.
+  canSee(level: Level, position: Vector): boolean {
+    const distance = vu.distance(position, this.position);
+    if (distance > this.type.sightRange) {
+      return false;
+    }
+    if (distance < arrivalDistance) {
+      return true;
+    }
+
+    const direction = vu.normalise(vu.subtract(position, this.position));
+    if (!this.isAlerted() && vu.dot(direction, this.direction) < Math.cos(degreesToRadians(this.type.fieldOfView / 2))) {
+      return false;
+    }
+    const result = castRay(level, this.position, direction, rayHitsOpaque, Math.ceil(distance) + 1);
+    return result === undefined || result.distance >= distance;
+  }
+
+  // Alerts the enemy to a noise at the specified position, which it goes to investigate.
+  hear(position: Vector): void {
+    if (this.isDead()) {
+      return;
+    }
+    this.target = vu.create(position.x, position.y);
+    this.lostTime = 0;
+    if (!this.isAlerted()) {
+      this.setState(EnemyState.CHASE);
+    }
+  }
+
+  // Walks the enemy towards the specified point, stopping short of it by the specified distance, and returns whether it has got there. The enemy walks
+  // straight at the point if nothing is in the way, otherwise it follows a route around walls, through doors and past other enemies.
+  walkTo(level: Level, point: Vector, elapsed: number, stop: number = 0): boolean {
+    const distance = vu.distance(point, this.position) - stop;
+    if (distance <= arrivalDistance) {
+      return true;
+    }
+    const amount = Math.min(this.type.speed * elapsed, distance);
+
+    if (isPathClear(level, this.position, point, this.radius)) {
+      this.route = [];
+      this.face(point);
+      this.move(amount, level);
+      return false;
+    }
+
+    this.routeAge += elapsed;
+    const goal = this.routeGoal;
+    if (this.route.length === 0 || goal === undefined || Math.floor(goal.x) !== Math.floor(point.x) || Math.floor(goal.y) !== Math.floor(point.y) || this.routeAge > routeTime) {
+      const avoid = (level.enemies || []).filter((enemy) => enemy !== this && !enemy.isDead());
+      this.route = findPath(level, this.position, point, { avoid, radius: this.radius, jumpPoints: true }) || [];
+      this.routeGoal = vu.create(point.x, point.y);
+      this.routeAge = 0;
+    }
+
+    // Without a route the enemy can only head straight for the point, and hope that whatever is in the way moves.
+    if (this.route.length === 0) {
+      this.face(point);
+      this.move(amount, level);
+    } else {
+      followRoute(level, this, this.route, amount);
+    }
+    return false;
+  }
+
+  // Decides what the enemy does next, based on whether it can see the player, and then does it.
+  think(level: Level, player: Actor, elapsed: number): void {
+    if (this.isDead()) {
+      return;
+    }
+    this.time += elapsed;
+    this.lostTime += elapsed;
+
+    // Remember where the player was seen, so that the enemy can go there if it loses sight of them.
+    const sees = player.health > 0 && this.canSee(level, player.position);
+    if (sees) {
+      this.target = vu.create(player.position.x, player.position.y);
+      this.lostTime = 0;
+      if (!this.isAlerted()) {
+        this.setState(EnemyState.CHASE);
+      }
+    }
+    const distance = vu.distance(player.position, this.position);
+
+    switch (this.state) {
+      case EnemyState.PATROL:
+        if (this.walkTo(level, this.patrol[this.waypoint], elapsed)) {
+          this.waypoint = (this.waypoint + 1) % this.patrol.length;
+        }
+        break;
+
+      case EnemyState.CHASE:
+        if (sees && distance <= this.type.attackRange) {
+          this.face(player.position);
+          this.setState(EnemyState.ATTACK);
+        } else if (this.lostTime > searchTime) {
+          this.target = undefined;
+          this.setState(this.patrol.length > 0 ? EnemyState.PATROL : EnemyState.IDLE);
+        } else if (this.target !== undefined) {
+          // Stop within reach of the player, but walk all the way to where they were last seen or heard.
+          this.walkTo(level, this.target, elapsed, sees ? this.type.attackRange * 0.75 : 0);
+        }
+        break;
+
+      // The attack only hits if the player is still in reach by the time it lands, so the player can back away from it.
+      case EnemyState.ATTACK:
+        if (sees) {
+          this.face(player.position);
+        }
+        if (this.time >= this.type.attackTime) {
+          if (sees && distance <= this.type.attackRange * 1.25) {
+            player.damage(this.type.damage, this.position);
+          }
+          this.setState(EnemyState.CHASE);
+        }
+        break;
+
+      case EnemyState.PAIN:
+        if (this.time >= this.type.painTime) {
+          this.setState(EnemyState.CHASE);
+        }
+        break;
+    }
+
+    this.updateSprite();
+  }
+
+  // Hurts the enemy, stunning it briefly and alerting it to where the damage came from, or killing it once it has no health left.
+  damage(amount: number, source?: Vector): void {
+    if (this.isDead()) {
+      return;
+    }
+    this.health = Math.max(this.health - amount, 0);
+    if (this.health === 0) {
+      this.setState(EnemyState.DEAD);
+      return;
+    }
+    if (source !== undefined) {
+      this.target = vu.create(source.x, source.y);
+      this.lostTime = 0;
+    }
+    this.setState(EnemyState.PAIN);
+  }
+}
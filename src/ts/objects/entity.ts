@@ -2,11 +2,14 @@ import type { Radian } from '../types';
 import type { Vector } from '../interfaces/vector';
 import type { Dynamic } from '../interfaces/dynamic';
 import type { Level } from '../interfaces/level';
+import type { Cell } from '../interfaces/cell';
+import type { Circle } from '../interfaces/circle';
 
 import * as vu from '../utils/vector-utils.js';
 import { radiansToDegrees } from '../utils/math-utils.js';
-import { isBlocked, isSolid } from '../utils/cell-utils.js';
+import { getFloorHeight, isBlocked, isSolid } from '../utils/cell-utils.js';
 import { getCell } from '../utils/level-utils.js';
+import { checkEntityCollision, checkEntityWithCell, getCellBounds, getDistanceToRectangle } from '../utils/collision-utils.js';
 
 export class Entity implements Dynamic {
   position: Vector;
@@ -16,6 +19,10 @@ export class Entity implements Dynamic {
   active: boolean;
   scale: number;
   radius: number;
+  elevation: number;
+  eyeHeight: number;
+  pitch: number;
+  stepHeight: number;
 
   constructor(x: number, y: number) {
     this.position = vu.create(x, y);
@@ -24,7 +31,11 @@ export class Entity implements Dynamic {
 
     this.active = true;
     this.scale = 1.0;
-    this.radius = 0.5;
+    this.radius = 0.25;
+    this.elevation = 0;
+    this.eyeHeight = 0.5;
+    this.pitch = 0;
+    this.stepHeight = 0.25;
   }
 
   getAngle(): number {
@@ -48,21 +59,86 @@ export class Entity implements Dynamic {
     this.camera = vu.rotate(this.camera, amount);
   }
 
+  // Turns the entity to face the specified point.
+  face(point: Vector): void {
+    if (vu.distance(point, this.position) > 0) {
+      this.rotate(vu.angle(vu.subtract(point, this.position)) - vu.angle(this.direction));
+    }
+  }
+
+  // Returns the height of the Entities eyes, relative to ground level.
+  getEyeLevel(): number {
+    return this.elevation + this.eyeHeight;
+  }
+
+  // Checks if the entity can move into the specified cell, i.e. it is not solid, the floor is not too high to step up onto and the ceiling is high
+  // enough to fit under.
+  canEnter(cell: Cell | undefined): boolean {
+    if (cell === undefined || isSolid(cell) || isBlocked(cell)) {
+      return false;
+    }
+    const floorHeight = Math.max(cell.floorHeight, this.elevation);
+    return cell.floorHeight - this.elevation <= this.stepHeight && cell.ceilingHeight - floorHeight > this.eyeHeight;
+  }
+
+  // Updates the entities elevation when it moves into a new cell, by default standing on the floor of that cell.
+  enter(cell: Cell | undefined): void {
+    this.elevation = getFloorHeight(cell);
+  }
+
   move(amount: number, level: Level): void {
-    const position = vu.add(this.position, vu.scale(this.direction, amount));
+    this.moveBy(vu.scale(this.direction, amount), level);
+  }
 
-    // Check for a collision on the X Axis
-    const xCell = getCell(level, Math.floor(position.x), Math.floor(this.position.y));
-    if (xCell !== undefined && !isSolid(xCell) && !isBlocked(xCell)) {
-      this.position.x = position.x;
+  // Moves the entity sideways, along the camera plane, where a positive amount moves it to the right.
+  strafe(amount: number, level: Level): void {
+    this.moveBy(vu.scale(vu.normalise(this.camera), amount), level);
+  }
+
+  // Checks if the entity would collide with any of the cells around the specified position that it cannot enter. Moving away from anything the entity
+  // already overlaps is allowed, so that it can always get back out of it, e.g. when a door closes on it.
+  collides(level: Level, x: number, y: number): boolean {
+    const moved: Circle = { position: vu.create(x, y), radius: this.radius };
+    for (let cellY = Math.floor(y - this.radius); cellY <= Math.floor(y + this.radius); cellY++) {
+      for (let cellX = Math.floor(x - this.radius); cellX <= Math.floor(x + this.radius); cellX++) {
+        if (this.canEnter(getCell(level, cellX, cellY))) {
+          continue;
+        }
+        const bounds = getCellBounds(level, cellX, cellY);
+        if (checkEntityWithCell(moved, bounds) && getDistanceToRectangle(moved.position, bounds) < getDistanceToRectangle(this.position, bounds)) {
+          return true;
+        }
+      }
+    }
+
+    // Enemies block anything else, until they are dead, in the same way.
+    for (const enemy of level.enemies || []) {
+      if ((enemy as Entity) !== this && !enemy.isDead() && checkEntityCollision(moved, enemy) && vu.distance(moved.position, enemy.position) < vu.distance(this.position, enemy.position)) {
+        return true;
+      }
     }
+    return false;
+  }
 
-    // Check for a collision on the Y Axis
-    const yCell = getCell(level, Math.floor(this.position.x), Math.floor(position.y));
-    if (yCell !== undefined && !isSolid(yCell) && !isBlocked(yCell)) {
-      this.position.y = position.y;
+  // Moves the entity by the specified offset, sliding along anything it collides with. The offset is split into steps smaller than the entity, so
+  // that it cannot pass through thin walls when moving quickly.
+  moveBy(offset: Vector, level: Level): void {
+    const steps = Math.max(Math.ceil(Math.max(Math.abs(offset.x), Math.abs(offset.y)) / (this.radius / 2)), 1);
+    for (let step = 0; step < steps; step++) {
+      // Move along each axis separately, so that if only one of them collides the entity slides along the other.
+      const x = this.position.x + offset.x / steps;
+      if (!this.collides(level, x, this.position.y)) {
+        this.position.x = x;
+      }
+      const y = this.position.y + offset.y / steps;
+      if (!this.collides(level, this.position.x, y)) {
+        this.position.y = y;
+      }
     }
 
+    // Update the elevation for whichever cell the entity ended up in, e.g. stepping up onto platforms or dropping down into pits.
+    this.enter(getCell(level, Math.floor(this.position.x), Math.floor(this.position.y)));
+
     /*
     // FIXME: Generalise Portals
     // Check if we walked into a hole.
@@ -1,117 +1,228 @@
 import { Level } from '../interfaces/level';
-import { CastResult } from '../interfaces/raycaster';
-import { Vector } from '../interfaces/vector';
+import { Actor } from '../interfaces/actor';
+import { Cell, DoorCell } from '../interfaces/cell';
+import { WeaponType } from '../interfaces/weapon';
+import { ItemType } from '../interfaces/item';
 
 import { Entity } from './entity.js';
-import { CellType, Face } from '../enums.js';
+import { CellType, DoorState, SoundEffect, TriggerEvent } from '../enums.js';
 import { levels } from '../data/levels/levels.js';
+import { weaponTypes } from '../data/weapons/weapons.js';
+import { itemTypes } from '../data/items/items.js';
 import { setCurrentLevel } from '../state.js';
-import { isInteractive } from '../utils/cell-utils.js';
-import { getCell } from '../utils/level-utils.js';
+import { getCeilingHeight, getFloorHeight, isDoor, isInteractive } from '../utils/cell-utils.js';
+import { playSoundAtCell } from '../utils/audio-utils.js';
+import { castRay, rayHitsInteractive } from '../utils/ray-utils.js';
+import { createThrottleTimer, hasTimer, registerTimer } from '../utils/timer-utils.js';
+import { fireWeapon } from '../utils/weapon-utils.js';
+import { unlock } from '../utils/lock-utils.js';
+import { fireCellTriggers } from '../utils/trigger-utils.js';
 import * as vu from '../utils/vector-utils.js';
 
-// FIXME: Slimmed down copy of the raycast function from raycaster.ts, should merge
-function castRay(entity: Entity, level: Level, maxDepth: number = 50): CastResult | undefined {
-  const direction = entity.direction;
+const gravity = 9.8; // Cells per second, per second
+const jumpSpeed = 2.5; // Cells per second
+const crouchSpeed = 2; // Cells per second
+const standingEyeHeight = 0.5;
+const crouchingEyeHeight = 0.25;
+const headroom = 0.05; // The minimum gap to keep between the player's eyes and the ceiling.
+const maxPitch = 0.5; // As a fraction of the viewport height.
+const hurtTime = 0.5; // Seconds
+const flashTime = 0.15; // Seconds
 
-  // Calculate the distance from one cell boundary to the next boundary in the X or Y direction.
-  const deltaDistanceX = Math.abs(1 / entity.direction.x);
-  const deltaDistanceY = Math.abs(1 / entity.direction.y);
+// The health the player starts each level with.
+export const maxHealth = 100;
 
-  // Tracks the current Cell as the line is cast.
-  const castCell: Vector = vu.create(Math.floor(entity.position.x), Math.floor(entity.position.y));
+export class Player extends Entity implements Actor {
+  velocity: number; // The vertical speed of the player, in cells per second.
+  crouching: boolean;
+  floorHeight: number; // The height of the floor of the cell the player is in.
+  ceilingHeight: number; // The height of the ceiling of the cell the player is in.
+  health: number;
+  hurt: number; // Fades from 1 to 0 after the player is hurt, e.g. to flash the screen.
+  weapon: WeaponType; // The weapon the player is holding.
+  ammo: Record<number, number>; // The ammo the player has for each weapon, by ID.
+  firing: number; // Fades from 1 to 0 after the player fires, e.g. to show the muzzle flash.
+  inventory: Record<number, number>; // How many of each item the player carries, by the ID of the type of item.
+  powerUps: Record<number, number>; // The seconds left on each power-up the player has, by the ID of the type of item.
 
-  // Tracks the total distance from the ray's origin as the line is cast.
-  const castDistance: Vector = vu.create();
+  constructor(x: number, y: number) {
+    super(x, y);
+    this.health = maxHealth;
+    this.hurt = 0;
+    this.weapon = weaponTypes[0];
+    this.ammo = {};
+    for (const weapon of weaponTypes) {
+      this.ammo[weapon.id] = weapon.ammo;
+    }
+    this.firing = 0;
+    this.inventory = {};
+    this.powerUps = {};
+    this.velocity = 0;
+    this.crouching = false;
+    this.floorHeight = 0;
+    this.ceilingHeight = 1;
+  }
+
+  // The player is subject to gravity, so rather than snapping down to the floor of a new cell, only step up and then fall to it in update.
+  enter(cell: Cell | undefined): void {
+    this.floorHeight = getFloorHeight(cell);
+    this.ceilingHeight = getCeilingHeight(cell);
+    this.elevation = Math.max(this.elevation, this.floorHeight);
+  }
 
-  // Counts the steps along each axis as the line is cast.
-  const castStep: Vector = vu.create();
+  // Checks if the player is in the air, i.e. jumping or falling.
+  isAirborne(): boolean {
+    return this.elevation > this.floorHeight || this.velocity > 0;
+  }
 
-  // Step to the next Cell on the X Axis.
-  if (direction.x < 0) {
-    castStep.x = -1;
-    castDistance.x = (entity.position.x - castCell.x) * deltaDistanceX;
-  } else {
-    castStep.x = 1;
-    castDistance.x = (castCell.x + 1 - entity.position.x) * deltaDistanceX;
+  // Makes the player jump, if they are standing on something.
+  jump(): void {
+    if (!this.isAirborne()) {
+      this.velocity = jumpSpeed;
+    }
   }
 
-  // Step to the next Cell on the Y Axis.
-  if (direction.y < 0) {
-    castStep.y = -1;
-    castDistance.y = (entity.position.y - castCell.y) * deltaDistanceY;
-  } else {
-    castStep.y = 1;
-    castDistance.y = (castCell.y + 1 - entity.position.y) * deltaDistanceY;
+  // Makes the player crouch, or stand back up again.
+  crouch(crouching: boolean): void {
+    this.crouching = crouching;
   }
 
-  // Count the number of DDA steps executed, so that we can break if the maximum depth is reached.
-  let count = 0;
+  // Tilts the players view up or down by the specified amount, as a fraction of the viewport height.
+  look(amount: number): void {
+    this.pitch = Math.min(Math.max(this.pitch + amount, -maxPitch), maxPitch);
+  }
 
-  // Tracks if the DDA step was in the X or the Y axis.
-  let side;
+  // Hurts the player, who is dead once they have no health left.
+  damage(amount: number): void {
+    this.health = Math.max(this.health - amount, 0);
+    this.hurt = 1;
+  }
 
-  // Use DDA to step through all the cell boundaries the ray touches.
-  while (count++ < maxDepth) {
-    // Advance along either the X or the Y axis to the next Cell boundary.
-    if (castDistance.x < castDistance.y) {
-      castDistance.x += deltaDistanceX;
-      castCell.x += castStep.x;
-      side = castStep.x < 0 ? Face.EAST : Face.WEST;
-    } else {
-      castDistance.y += deltaDistanceY;
-      castCell.y += castStep.y;
-      side = castStep.y > 0 ? Face.NORTH : Face.SOUTH;
+  // Switches to the next weapon, going back to the first after the last.
+  nextWeapon(): void {
+    this.weapon = weaponTypes[(weaponTypes.indexOf(this.weapon) + 1) % weaponTypes.length];
+  }
+
+  // Fires the weapon being held at the targets, unless it has not recovered from the last shot or is out of ammo, and returns whether it fired.
+  fire(level: Level, targets: Actor[]): boolean {
+    if (hasTimer('weapon') || this.ammo[this.weapon.id] <= 0) {
+      return false;
     }
+    registerTimer('weapon', createThrottleTimer(this.weapon.fireTime));
+    this.ammo[this.weapon.id]--;
+    this.firing = 1;
+    fireWeapon(level, this, { ...this.weapon, damage: this.weapon.damage * this.getDamageMultiplier() }, targets);
+    return true;
+  }
 
-    // Get the Cell that the ray has hit.
-    const cell = getCell(level, castCell.x, castCell.y);
+  // Heals the player by up to the specified amount, without going over the specified health, and returns how much they were healed.
+  heal(amount: number, max: number = maxHealth): number {
+    const healed = Math.max(Math.min(amount, max - this.health), 0);
+    this.health += healed;
+    return healed;
+  }
 
-    // If the cell is not valid, then most likely exceeded the boundaries of the level hence give up.
-    if (cell === undefined) {
-      break;
+  // Adds up to the specified ammo for a weapon, without going over the most the weapon can carry, and returns how much was added.
+  addAmmo(weaponId: number, amount: number): number {
+    const weapon = weaponTypes.find((type) => type.id === weaponId);
+    if (weapon === undefined) {
+      return 0;
     }
+    const added = Math.max(Math.min(amount, weapon.maxAmmo - this.ammo[weapon.id]), 0);
+    this.ammo[weapon.id] += added;
+    return added;
+  }
 
-    // Check if the Cell is Solid.
-    if (isInteractive(cell)) {
-      // Calculate the distance from the ray's origin to the solid that was hit, and the specific point on the wall the ray hit.
-      let distance = 0;
-      let wall = 0;
-      switch (side) {
-        case Face.EAST:
-        case Face.WEST:
-          distance = Math.abs((castCell.x - entity.position.x + (1 - castStep.x) / 2) / direction.x);
-          wall = entity.position.y + ((castCell.x - entity.position.x + (1 - castStep.x) / 2) / direction.x) * direction.y;
-          wall -= Math.floor(wall);
-          break;
-
-        case Face.NORTH:
-        case Face.SOUTH:
-          distance = Math.abs((castCell.y - entity.position.y + (1 - castStep.y) / 2) / direction.y);
-          wall = entity.position.x + ((castCell.y - entity.position.y + (1 - castStep.y) / 2) / direction.y) * direction.x;
-          wall -= Math.floor(wall);
-          break;
-      }
+  // Gets how many of the specified item the player carries.
+  getItemCount(id: number): number {
+    return this.inventory[id] || 0;
+  }
 
-      return {
-        ...castCell,
-        cell,
-        face: side,
-        wall,
-        distance: distance
-      };
+  // Checks if the player carries at least the specified number of an item, e.g. a key for a door.
+  hasItem(id: number, amount: number = 1): boolean {
+    return this.getItemCount(id) >= amount;
+  }
+
+  // Adds up to the specified number of an item to the inventory, without going over the most that can be carried, and returns how many were added.
+  addItem(type: ItemType, amount: number): number {
+    const added = Math.max(Math.min(amount, (type.max !== undefined ? type.max : Infinity) - this.getItemCount(type.id)), 0);
+    if (added > 0) {
+      this.inventory[type.id] = this.getItemCount(type.id) + added;
     }
+    return added;
   }
-  return undefined;
-}
 
-export class Player extends Entity {
-  constructor(x: number, y: number) {
-    super(x, y);
+  // Takes the specified number of an item from the inventory, e.g. using up a key, unless there are not enough, and returns whether they were taken.
+  consumeItem(id: number, amount: number = 1): boolean {
+    if (!this.hasItem(id, amount)) {
+      return false;
+    }
+    this.inventory[id] -= amount;
+    if (this.inventory[id] === 0) {
+      delete this.inventory[id];
+    }
+    return true;
+  }
+
+  // Makes a power-up last up to the specified number of seconds longer, without going over the longest it can last, and returns how many seconds were
+  // added.
+  addPowerUp(type: ItemType, time: number): number {
+    const remaining = this.powerUps[type.id] || 0;
+    const added = Math.max(Math.min(time, (type.max !== undefined ? type.max : Infinity) - remaining), 0);
+    if (added > 0) {
+      this.powerUps[type.id] = remaining + added;
+    }
+    return added;
+  }
+
+  // Checks if the specified power-up has not yet worn off.
+  hasPowerUp(id: number): boolean {
+    return (this.powerUps[id] || 0) > 0;
+  }
+
+  // Gets what the damage of the player's weapons is multiplied by, from every power-up they have.
+  getDamageMultiplier(): number {
+    return itemTypes.reduce((multiplier, type) => (this.hasPowerUp(type.id) && type.damage !== undefined ? multiplier * type.damage : multiplier), 1);
+  }
+
+  update(elapsed: number): void {
+    this.hurt = Math.max(this.hurt - elapsed / hurtTime, 0);
+    this.firing = Math.max(this.firing - elapsed / flashTime, 0);
+    for (const id of Object.keys(this.powerUps)) {
+      this.powerUps[Number(id)] -= elapsed;
+      if (this.powerUps[Number(id)] <= 0) {
+        delete this.powerUps[Number(id)];
+      }
+    }
+
+    // Move the players eyes towards the crouching or standing height, but never stand up into the ceiling.
+    const target = Math.min(this.crouching ? crouchingEyeHeight : standingEyeHeight, this.ceilingHeight - this.elevation - headroom);
+    if (this.eyeHeight < target) {
+      this.eyeHeight = Math.min(this.eyeHeight + crouchSpeed * elapsed, target);
+    } else {
+      this.eyeHeight = Math.max(this.eyeHeight - crouchSpeed * elapsed, target);
+    }
+
+    // Apply gravity.
+    this.velocity -= gravity * elapsed;
+    this.elevation += this.velocity * elapsed;
+
+    // Stop at the ceiling.
+    if (this.getEyeLevel() > this.ceilingHeight - headroom) {
+      this.elevation = this.ceilingHeight - headroom - this.eyeHeight;
+      this.velocity = Math.min(this.velocity, 0);
+    }
+
+    // Land on the floor.
+    if (this.elevation <= this.floorHeight) {
+      this.elevation = this.floorHeight;
+      this.velocity = 0;
+    }
   }
 
-  interact(level: Level): void {
-    const result = castRay(this, level, 2);
+  // Uses whatever the player is facing, if it is within reach, returning a message to show the player if it could not be used, e.g. a locked door.
+  interact(level: Level): string | undefined {
+    const result = castRay(level, this.position, vu.normalise(this.direction), rayHitsInteractive, 2);
     if (result != undefined) {
       const cell = result.cell;
       const reach = 1 + this.radius;
@@ -120,9 +231,23 @@ export class Player extends Entity {
       if (result.distance < reach) {
         // Target cell can be interacted with, and the specific face is stateful...
         if (isInteractive(cell)) {
+          // A locked door can still be closed, but it can only be opened, as a locked switch can only be used, once the player can open the lock.
+          const opening = !isDoor(cell) || (cell as DoorCell).status === DoorState.CLOSED || (cell as DoorCell).status === DoorState.CLOSING;
+          const refusal = opening ? unlock(level, cell, this) : undefined;
+          if (refusal !== undefined) {
+            playSoundAtCell(cell, SoundEffect.LOCKED);
+            return refusal;
+          }
+
           for (const activator of cell.activators) {
             activator(cell);
           }
+
+          // Doors make their own sound as they open and close.
+          if (!isDoor(cell)) {
+            playSoundAtCell(cell, SoundEffect.SWITCH);
+          }
+          fireCellTriggers(level, this, TriggerEvent.INTERACT, cell);
         }
 
         // Target is an entrance...
@@ -144,5 +269,6 @@ export class Player extends Entity {
         }
       }
     }
+    return undefined;
   }
 }
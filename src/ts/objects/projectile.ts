@@ -0,0 +1,66 @@
+import type { Actor } from '../interfaces/actor';
+import type { Level } from '../interfaces/level';
+import type { Sprite } from '../interfaces/sprite';
+import type { Impact, WeaponType } from '../interfaces/weapon';
+
+import { Entity } from './entity.js';
+import { isSolid } from '../utils/cell-utils.js';
+import { checkEntityCollision, checkEntityWithCell, getCellBounds } from '../utils/collision-utils.js';
+import { getCell } from '../utils/level-utils.js';
+import * as vu from '../utils/vector-utils.js';
+
+export class Projectile extends Entity {
+  weapon: WeaponType; // The weapon that fired the projectile, which decides what it looks like, how fast it flies and how much it hurts.
+  owner: Actor; // Whoever fired the projectile, who it cannot hit.
+  sprite?: Sprite; // The effect sprite the projectile is drawn with, which shares its position, or undefined if every effect sprite was in use.
+  travelled: number; // How far, in cells, the projectile has flown.
+
+  constructor(weapon: WeaponType, owner: Actor, sprite?: Sprite) {
+    super(owner.position.x, owner.position.y);
+    this.weapon = weapon;
+    this.owner = owner;
+    this.direction = vu.normalise(owner.direction);
+    this.radius = weapon.projectile !== undefined ? weapon.projectile.radius : 0.1;
+    this.travelled = 0;
+
+    if (sprite !== undefined) {
+      this.sprite = sprite;
+      sprite.position = this.position;
+    }
+  }
+
+  // Moves the projectile, in steps no longer than its radius so that it cannot pass through anything, returning what it hit, if anything. The
+  // projectile is no longer active once it has hit something or flown as far as its weapon reaches.
+  fly(level: Level, targets: Actor[], elapsed: number): Impact | undefined {
+    const speed = this.weapon.projectile !== undefined ? this.weapon.projectile.speed : 0;
+    let distance = Math.min(speed * elapsed, this.weapon.range - this.travelled);
+    while (this.active && distance > 0) {
+      const step = Math.min(distance, this.radius);
+      distance -= step;
+      this.travelled += step;
+
+      // NOTE: The position is updated in place, as it is shared with the sprite.
+      this.position.x += this.direction.x * step;
+      this.position.y += this.direction.y * step;
+
+      const x = Math.floor(this.position.x);
+      const y = Math.floor(this.position.y);
+      const cell = getCell(level, x, y);
+      if (cell === undefined || (isSolid(cell) && checkEntityWithCell(this, getCellBounds(level, x, y)))) {
+        this.active = false;
+        return { position: vu.subtract(this.position, vu.scale(this.direction, this.radius)), cell };
+      }
+
+      const actor = targets.find((target) => target !== this.owner && target.health > 0 && checkEntityCollision(this, target));
+      if (actor !== undefined) {
+        this.active = false;
+        return { position: vu.create(this.position.x, this.position.y), actor };
+      }
+    }
+
+    if (this.travelled >= this.weapon.range) {
+      this.active = false;
+    }
+    return undefined;
+  }
+}
@@ -1,317 +1,219 @@
+import type { Canvas, Context2D } from './types';
 import type { Entity } from './interfaces/entity';
 import type { Sprite } from './interfaces/sprite';
 import type { Level } from './interfaces/level';
 import type { Rectangle } from './interfaces/rectangle';
-import type { CastResult } from './interfaces/raycaster';
 import type { Vector } from './interfaces/vector';
-import type { Cell, DoorCell } from './interfaces/cell';
-
-import { Face } from './enums.js';
-import { drawBorderRectangle, drawGradient, drawTexture, drawTint } from './utils/canvas-utils.js';
-import { getTexture, isDoor, isSolid, isThin } from './utils/cell-utils.js';
-import { getCell } from './utils/level-utils.js';
+import type { Cell } from './interfaces/cell';
+import type { Texture } from './interfaces/texture';
+import type { CastResult, Occlusion, SpriteProjection, WallSlice } from './interfaces/raycaster';
+import type { Framebuffer } from './interfaces/framebuffer';
+import type { Fog } from './interfaces/fog';
+
+import { Face, RendererType } from './enums.js';
+import { drawBorderRectangle, drawFill, drawShade, drawSkybox, drawTexture } from './utils/canvas-utils.js';
+import { getCeilingHeight, getFloorHeight, getTexture, isSolid, isThin, isTransparent } from './utils/cell-utils.js';
+import { getCell, isOutdoors } from './utils/level-utils.js';
 import { getAnimationFrame } from './utils/time-utils.js';
-import { applyEffectTint, getTextureById, isTextureAnimated, isTextureStateful } from './utils/texture-utils.js';
+import { applyEffect, getTextureById, isTextureAnimated, isTextureStateful } from './utils/texture-utils.js';
 import { isSpriteAlignedBottom, isSpriteAlignedTop, isSpriteStatic, isSpriteTinted } from './utils/sprite-utils.js';
 import { radiansToDegrees } from './utils/math-utils.js';
+import { rayHitsAll, traceRay } from './utils/ray-utils.js';
+import { getLightLevel } from './utils/light-utils.js';
+import { getFog, getFogAmount, getFogStyle } from './utils/fog-utils.js';
+import { markExplored } from './utils/automap-utils.js';
+import { clearFramebuffer, createFramebuffer, drawSkyboxColumn, drawTextureColumn, presentFramebuffer, shadePixel } from './utils/framebuffer-utils.js';
 import * as vu from './utils/vector-utils.js';
 
-// Derived from https://lodev.org/cgtutor/raycasting.html.
-// Casts a ray from the specified point at the specified angle and returns the first Wall the ray impacts.
-export function castRay(width: number, column: number, entity: Entity, level: Level, maxDepth: number = 50): CastResult | undefined {
-  const camera = (2 * column) / width - 1;
-  const direction: Vector = vu.add(entity.direction, vu.scale(entity.camera, camera));
-
-  // Calculate the distance from one cell boundary to the next boundary in the X or Y direction.
-  const deltaDistanceX = Math.abs(1 / direction.x);
-  const deltaDistanceY = Math.abs(1 / direction.y);
-
-  // Tracks the current Cell as the line is cast.
-  const castCell: Vector = vu.create(Math.floor(entity.position.x), Math.floor(entity.position.y));
+// Gets the height of the specified entity's eyes, relative to ground level.
+function getEyeLevel(entity: Entity): number {
+  return entity.elevation + entity.eyeHeight;
+}
 
-  // Tracks the total distance from the ray's origin as the line is cast.
-  const castDistance: Vector = vu.create();
+// Gets the row of the viewport that the horizon is at, which moves up and down as the specified entity looks up and down.
+function getHorizon(entity: Entity, height: number): number {
+  return height / 2 + entity.pitch * height;
+}
 
-  // Counts the steps along each axis as the line is cast.
-  const castStep: Vector = vu.create();
+// Projects the specified height, at the specified distance from the camera, to a row in the viewport.
+function project(z: number, distance: number, eye: number, horizon: number, height: number): number {
+  return Math.round(horizon - ((z - eye) * height) / distance);
+}
 
-  // Step to the next Cell on the X Axis.
-  if (direction.x < 0) {
-    castStep.x = -1;
-    castDistance.x = (entity.position.x - castCell.x) * deltaDistanceX;
-  } else {
-    castStep.x = 1;
-    castDistance.x = (castCell.x + 1 - entity.position.x) * deltaDistanceX;
+// Gets the texture for the floor, or ceiling, of the specified cell. Solid cells use their top face for their floor, as that is the top of the wall.
+function getFlatTexture(level: Level, cell: Cell | undefined, ceiling: boolean): Texture | undefined {
+  if (cell === undefined) {
+    const textureId = ceiling ? level.ceiling : level.floor;
+    return textureId ? getTextureById(textureId) : undefined;
   }
 
-  // Step to the next Cell on the Y Axis.
-  if (direction.y < 0) {
-    castStep.y = -1;
-    castDistance.y = (entity.position.y - castCell.y) * deltaDistanceY;
-  } else {
-    castStep.y = 1;
-    castDistance.y = (castCell.y + 1 - entity.position.y) * deltaDistanceY;
+  if (isSolid(cell)) {
+    return getTexture(cell, ceiling ? Face.BOTTOM : Face.TOP);
   }
+  return getTexture(cell, ceiling ? Face.TOP : Face.BOTTOM);
+}
 
-  // Count the number of DDA steps executed, so that we can break if the maximum depth is reached.
-  let count = 0;
-
-  // Tracks if the DDA step was in the X or the Y axis.
-  let side;
-
-  // Use DDA to step through all the cell boundaries the ray touches.
-  while (count++ < maxDepth) {
-    // Advance along either the X or the Y axis to the next Cell boundary.
-    if (castDistance.x < castDistance.y) {
-      castDistance.x += deltaDistanceX;
-      castCell.x += castStep.x;
-      side = castStep.x < 0 ? Face.EAST : Face.WEST;
-    } else {
-      castDistance.y += deltaDistanceY;
-      castCell.y += castStep.y;
-      side = castStep.y > 0 ? Face.NORTH : Face.SOUTH;
+// Draws a vertical span of a horizontal plane, i.e. a floor or a ceiling, at the specified height for a single column of the viewport into the buffer.
+function renderFlat(buffer: Framebuffer, level: Level, entity: Entity, direction: Vector, column: number, z: number, start: number, end: number, horizon: number, ceiling: boolean): void {
+  const width = buffer.width;
+  const height = buffer.height;
+  const eye = getEyeLevel(entity);
+  const fog = getFog(level);
+
+  for (let y = start; y < end; y++) {
+    // Calculate the distance from the camera to the plane for the current row.
+    const rowDistance = ((eye - z) * height) / (y + 0.5 - horizon);
+
+    // Calculate the X and Y positions of the point on the plane for this pixel.
+    const rowX = entity.position.x + rowDistance * direction.x;
+    const rowY = entity.position.y + rowDistance * direction.y;
+
+    // Calculate the X and Y coordinates of the specific cell.
+    const cellX = Math.floor(rowX);
+    const cellY = Math.floor(rowY);
+
+    // Get the cell, and the specific texture for the target cell.
+    const cell = getCell(level, cellX, cellY);
+    const texture = getFlatTexture(level, cell, ceiling);
+    if (texture === undefined) {
+      continue;
     }
 
-    // Get the Cell that the ray has hit.
-    const cell = getCell(level, castCell.x, castCell.y);
+    // Calculate the specific X and Y pixel of the texture coordinate for this pixel.
+    let tx = Math.floor(texture.width * (rowX - cellX)) & (texture.width - 1);
+    const ty = Math.floor(texture.height * (rowY - cellY)) & (texture.height - 1);
 
-    // If the cell is not valid, then most likely exceeded the boundaries of the level hence give up.
-    if (cell === undefined) {
-      break;
+    // Flip the Ceiling on the X axis
+    // TODO: Add support for flipping textures on surfaces based on flags.
+    if (ceiling) {
+      tx = texture.width - 1 - tx;
     }
 
-    // Check if the Cell is Solid.
-    if (isSolid(cell)) {
-      // Calculate the distance from the ray's origin to the solid that was hit, and the specific point on the wall the ray hit.
-      let distance = 0;
-      let wall = 0;
-      switch (side) {
-        case Face.EAST:
-        case Face.WEST:
-          if (isThin(cell)) {
-            // Check if the ray hits the center line of the thin wall, if not then it will hit the adjacent cell hence continue.
-            if (castDistance.x - deltaDistanceX * 0.5 > castDistance.y) {
-              continue;
-            }
-
-            // FIXME: When updating this function to return a drawing list, this will need to be reversed before the loop continues.
-            castCell.x += castStep.x * 0.5;
-          }
-
-          distance = Math.abs((castCell.x - entity.position.x + (1 - castStep.x) / 2) / direction.x);
-          wall = entity.position.y + ((castCell.x - entity.position.x + (1 - castStep.x) / 2) / direction.x) * direction.y;
-          wall -= Math.floor(wall);
-
-          // If the cell is a door, the account for the door opening or closing.
-          if (isDoor(cell)) {
-            // Calculate the percentage that the door is open.
-            const doorOpenPercent = 0.01 * (cell as DoorCell).percent;
-
-            // Check if the ray hits the door, and if not continue to cast.
-            if (wall > doorOpenPercent) {
-              castCell.x -= castStep.x * 0.5;
-              continue;
-            }
-
-            // Offset the texture for the door based on how open it is.
-            wall = doorOpenPercent - wall;
-          }
-          break;
-
-        case Face.NORTH:
-        case Face.SOUTH:
-          if (isThin(cell)) {
-            // Check if the ray hits the center line of the thin wall, if not then it will hit the adjacent cell hence continue.
-            if (castDistance.y - deltaDistanceY * 0.5 > castDistance.x) {
-              continue;
-            }
-
-            // FIXME: When updating this function to return a drawing list, this will need to be reversed before the loop continues.
-            castCell.y += castStep.y * 0.5;
-          }
-          distance = Math.abs((castCell.y - entity.position.y + (1 - castStep.y) / 2) / direction.y);
-          wall = entity.position.x + ((castCell.y - entity.position.y + (1 - castStep.y) / 2) / direction.y) * direction.x;
-          wall -= Math.floor(wall);
-
-          if (isDoor(cell)) {
-            // Calculate the percentage that the door is open.
-            const doorOpenPercent = 0.01 * (cell as DoorCell).percent;
-
-            // Check if the ray hits the door, and if not continue to cast.
-            if (wall > doorOpenPercent) {
-              castCell.y -= castStep.y * 0.5;
-              continue;
-            }
-
-            // Offset the texture for the door based on how open it is.
-            wall = doorOpenPercent - wall;
-          }
-          break;
-      }
+    // If the texture is animated, then calculate the offset for the frame within the texture.
+    let texXAnimationOffset = 0;
+    if (isTextureAnimated(texture)) {
+      const frame = getAnimationFrame();
+      texXAnimationOffset = frame * texture.width;
+    }
 
-      return {
-        ...castCell,
-        cell,
-        face: side,
-        wall,
-        distance: distance
-      };
+    // If the texture is stateful, then calculate the Y offset for the frame within the texture.
+    let texYStateOffset = 0;
+    if (isTextureStateful(texture)) {
+      texYStateOffset = ((cell as Cell).state % texture.states) * (texture.height * texture.imageWidth);
     }
+
+    // Calculate the amount of light falling on the pixel, and the amount of fog between it and the entity.
+    const light = getLightLevel(level, cell, rowX, rowY);
+    const fogAmount = getFogAmount(fog, rowDistance);
+
+    // Copy the RGB values for the specified pixel directly from the textures data buffer into the correct location in the buffer, shading it as it goes.
+    const sourceOffset = 4 * (texYStateOffset + (texXAnimationOffset + tx + ty * texture.imageWidth));
+    buffer.pixels[column + y * width] = shadePixel(texture.buffer as Uint8ClampedArray, sourceOffset, light, fog.colour, fogAmount);
   }
-  return undefined;
 }
 
-// Draws the floor for the specified level, from the perspective of the specified Entity, onto the specified Canvas.
-export function renderFloorAndCeiling(context: CanvasRenderingContext2D, entity: Entity, level: Level): void {
-  // The width and height of the context.
-  const width = context.canvas.width;
-  const height = context.canvas.height;
-  const halfHeight = height / 2;
-
-  // Create a temporary buffer for storing the data. This can then be copied to the framebuffer in a single draw operation.
-  // FIXME: Avoid reallocating this buffer each frame, should cache it unless the width changes.
-  const buffer: ImageData = context.createImageData(width, height);
-
-  // Calculate the X and Y positions for the leftmost ray, where x = 0, and the rightmost ray, where x = width.
-  const rayDirX0 = entity.direction.x - entity.camera.x;
-  const rayDirY0 = entity.direction.y - entity.camera.y;
-  const rayDirX1 = entity.direction.x + entity.camera.x;
-  const rayDirY1 = entity.direction.y + entity.camera.y;
-
-  // For each row from the horizon to the bottom of the screen.
-  for (let y = 0; y < halfHeight; y++) {
-    // Calculate the distance from the camera to the floor for the current row.
-    const rowDistance = y > 0 ? halfHeight / y : halfHeight;
-
-    // Calculate the real world step vector we have to add for each x (parallel to camera plane)
-    // adding step by step avoids multiplications with a weight in the inner loop
-    const stepX = (rowDistance * (rayDirX1 - rayDirX0)) / width;
-    const stepY = (rowDistance * (rayDirY1 - rayDirY0)) / width;
-
-    // Calculate the X and Y positions for the first pixel in the row.
-    let rowX = entity.position.x + rowDistance * rayDirX0;
-    let rowY = entity.position.y + rowDistance * rayDirY0;
-
-    // For each pixel in the row.
-    for (let x = 0; x < width; x++) {
-      // Calculate the X and Y coordinates of the specific cell.
-      const cellX = Math.floor(rowX);
-      const cellY = Math.floor(rowY);
-
-      // Get the cell
-      const cell = getCell(level, cellX, cellY);
-
-      // Get the specific textures for the target cell.
-      let floorTexture, ceilingTexture;
-      if (cell !== undefined) {
-        floorTexture = getTexture(cell, Face.BOTTOM);
-        ceilingTexture = getTexture(cell, Face.TOP);
-      } else {
-        if (level.floor) {
-          floorTexture = getTextureById(level.floor);
-        }
+// Calculates the slices needed to draw the specified wall, between the heights bottom and top, for a single column of the viewport clipped to the rows
+// between clipTop and clipBottom. Walls taller than a single storey repeat their texture for each storey.
+function getWallSlices(result: CastResult, column: number, bottom: number, top: number, light: number, eye: number, horizon: number, height: number, clipTop: number, clipBottom: number): WallSlice[] {
+  const retVal: WallSlice[] = [];
 
-        if (level.ceiling) {
-          ceilingTexture = getTextureById(level.ceiling);
-        }
-      }
+  // Get the texture for the solid cell.
+  const texture = getTexture(result.cell, result.face);
 
-      if (floorTexture) {
-        // Calculate the specific X and Y pixel of the texture coordinate for this pixel.
-        const tx = Math.floor(floorTexture.width * (rowX - cellX)) & (floorTexture.width - 1);
-        const ty = Math.floor(floorTexture.height * (rowY - cellY)) & (floorTexture.height - 1);
+  // Calculate the X offset in the Texture for the slice that needs to be rendered.
+  let wallX = Math.floor(result.wall * texture.width);
 
-        // If the texture is animated, then calculate the offset for the frame within the texture.
-        let texXAnimationOffset = 0;
-        if (isTextureAnimated(floorTexture)) {
-          const frame = getAnimationFrame();
-          texXAnimationOffset = frame * floorTexture.width;
-        }
+  // If the texture is animated, then calculate the X offset for the frame within the texture.
+  let textureAnimationOffset = 0;
+  if (isTextureAnimated(texture)) {
+    const frame = getAnimationFrame();
+    textureAnimationOffset = frame * texture.width;
+  }
 
-        // If the texture is stateful, then calculate the Y offset for the frame within the texture.
-        let texYStateOffset = 0;
-        if (isTextureStateful(floorTexture)) {
-          texYStateOffset = ((cell as Cell).state % floorTexture.states) * (floorTexture.height * floorTexture.imageWidth);
-        }
+  // If the texture is stateful, then calculate the Y offset for the frame within the texture.
+  let textureStateOffset = 0;
+  if (isTextureStateful(texture)) {
+    textureStateOffset = (result.cell.state % texture.states) * texture.height;
+  }
 
-        // Get the RGBA values for the specified pixel directly from the textures data buffer.
-        const sourceOffset = 4 * (texYStateOffset + (texXAnimationOffset + tx + ty * floorTexture.imageWidth));
-        const textureBuffer = floorTexture.buffer as Uint8ClampedArray;
-        const pixel = {
-          r: textureBuffer[sourceOffset],
-          g: textureBuffer[sourceOffset + 1],
-          b: textureBuffer[sourceOffset + 2],
-          a: textureBuffer[sourceOffset + 3]
-        };
-
-        // Write that RGBA data into the correct location in the temporary buffer.
-        const offset = 4 * (Math.floor(x) + Math.floor(halfHeight + y) * width);
-        buffer.data[offset] = pixel.r;
-        buffer.data[offset + 1] = pixel.g;
-        buffer.data[offset + 2] = pixel.b;
-        buffer.data[offset + 3] = pixel.a;
-      }
+  // If the face of the wall is North or East then need to invert the X offset.
+  if (result.face === Face.NORTH || result.face === Face.EAST) {
+    wallX = texture.width - wallX - 1;
+  }
 
-      if (ceilingTexture) {
-        // Calculate the specific X and Y pixel of the texture coordinate for this pixel.
-        let tx = Math.floor(ceilingTexture.width * (rowX - cellX)) & (ceilingTexture.width - 1);
-        const ty = Math.floor(ceilingTexture.height * (rowY - cellY)) & (ceilingTexture.height - 1);
+  // Split the wall into storeys, so that each storey is drawn with a full copy of the texture.
+  for (let storey = Math.floor(bottom); storey < top; storey++) {
+    const storeyBottom = Math.max(storey, bottom);
+    const storeyTop = Math.min(storey + 1, top);
 
-        // Flip the Ceiling on the X axis
-        // TODO: Add support for flipping textures on surfaces based on flags.
-        tx = ceilingTexture.width - 1 - tx;
+    // Calculate the rows the storey should be drawn at based on its distance from the entity.
+    const y0 = horizon - ((storeyTop - eye) * height) / result.distance;
+    const y1 = horizon - ((storeyBottom - eye) * height) / result.distance;
 
-        // If the texture is animated, then calculate the offset for the frame within the texture.
-        let texXAnimationOffset = 0;
-        if (isTextureAnimated(ceilingTexture)) {
-          const frame = getAnimationFrame();
-          texXAnimationOffset = frame * ceilingTexture.width;
-        }
+    // Clip the storey to the rows that are still visible.
+    const rowStart = Math.max(Math.round(y0), clipTop);
+    const rowEnd = Math.min(Math.round(y1), clipBottom);
+    if (rowStart >= rowEnd) {
+      continue;
+    }
 
-        // If the texture is stateful, then calculate the Y offset for the frame within the texture.
-        let texYStateOffset = 0;
-        if (isTextureStateful(ceilingTexture)) {
-          texYStateOffset = ((cell as Cell).state % ceilingTexture.states) * (ceilingTexture.height * ceilingTexture.imageWidth);
-        }
+    // Calculate the slice of the texture that maps to the visible rows, where the top of each storey is the top of the texture.
+    const v0 = (storey + 1 - storeyTop) * texture.height;
+    const v1 = (storey + 1 - storeyBottom) * texture.height;
+    const vStart = v0 + ((rowStart - y0) / (y1 - y0)) * (v1 - v0);
+    const vEnd = v0 + ((rowEnd - y0) / (y1 - y0)) * (v1 - v0);
 
-        // Get the RGBA values for the specified pixel directly from the textures data buffer.
-        const sourceOffset = 4 * (texYStateOffset + (texXAnimationOffset + tx + ty * ceilingTexture.imageWidth));
-        const textureBuffer = ceilingTexture.buffer as Uint8ClampedArray;
-        const pixel = {
-          r: textureBuffer[sourceOffset],
-          g: textureBuffer[sourceOffset + 1],
-          b: textureBuffer[sourceOffset + 2],
-          a: textureBuffer[sourceOffset + 3]
-        };
-
-        // Write that RGBA data into the correct location in the temporary buffer.
-        const offset = 4 * (Math.floor(x) + Math.floor(halfHeight - 1 - y) * width);
-        buffer.data[offset] = pixel.r;
-        buffer.data[offset + 1] = pixel.g;
-        buffer.data[offset + 2] = pixel.b;
-        buffer.data[offset + 3] = pixel.a;
-      }
+    retVal.push({
+      texture,
+      source: {
+        x: textureAnimationOffset + wallX,
+        y: textureStateOffset + vStart,
+        width: 1,
+        height: vEnd - vStart
+      },
+      destination: {
+        x: column,
+        y: rowStart,
+        width: 1,
+        height: rowEnd - rowStart
+      },
+      distance: result.distance,
+      transparent: isTransparent(result.cell) !== 0,
+      light
+    });
+  }
 
-      // Increment the X and Y coordinates ready for the next pixel.
-      rowX += stepX;
-      rowY += stepY;
+  return retVal;
+}
+
+// Gets the rows of a single column of the viewport that a sprite drawn at the specified destination and distance can be seen in, from the occlusions
+// recorded front to back for that column as its ray was cast. There are no rows if the sprite is hidden behind the nearer walls, floors and ceilings.
+function getSpriteRows(occlusions: Occlusion[], destination: Rectangle, distance: number): Occlusion {
+  let visible = occlusions[0];
+  for (const occlusion of occlusions) {
+    if (occlusion.distance > distance) {
+      break;
     }
+    visible = occlusion;
   }
 
-  // Copy the data from the temporary buffer to the framebuffer.
-  context.putImageData(buffer, 0, 0);
-
-  // TODO: It might be more performant to apply the tint when writing the RGB values to the temporary buffer.
-  drawGradient(context, { x: 0, y: halfHeight - 1 }, { x: width, y: height }, 'rgba(0,0,0,180)', 'transparent');
-  drawGradient(context, { x: 0, y: 0 }, { x: width, y: halfHeight }, 'transparent', 'rgba(0,0,0,180)');
+  return {
+    distance,
+    top: Math.max(visible.top, Math.round(destination.y)),
+    bottom: Math.min(visible.bottom, Math.round(destination.y + destination.height))
+  };
 }
 
-// Function to render the specified sprite, from the perspective of the specified entity, to the specified canvas.
-export function renderSprite(context: CanvasRenderingContext2D, entity: Entity, depthBuffer: number[], sprite: Sprite, debug = false): void {
-  // The width and height of the context.
-  const width = context.canvas.width;
-  const height = context.canvas.height;
-  const halfHeight = height / 2;
+// Projects the specified sprite, from the perspective of the specified entity, into a viewport of the specified size and clips it to the columns
+// between start and end. Returns undefined if the sprite is behind the entity, offscreen or entirely hidden behind the occlusions for each column.
+function projectSprite(width: number, height: number, start: number, end: number, entity: Entity, level: Level, occlusions: Occlusion[][], sprite: Sprite): SpriteProjection | undefined {
+  const horizon = getHorizon(entity, height);
+  const eye = getEyeLevel(entity);
+
+  // Get the cell the sprite is in, so that it can be placed on its floor or hung from its ceiling.
+  const cell = getCell(level, Math.floor(sprite.position.x), Math.floor(sprite.position.y));
+  const floorHeight = getFloorHeight(cell);
+  const ceilingHeight = getCeilingHeight(cell);
 
   // Get the texture for the sprite
   const texture = getTextureById(sprite.textureId);
@@ -327,7 +229,7 @@ export function renderSprite(context: CanvasRenderingContext2D, entity: Entity,
 
   // If the sprite is behind the player, don't render it.
   if (transformY <= 0) {
-    return;
+    return undefined;
   }
 
   // The X position of the sprite
@@ -346,22 +248,35 @@ export function renderSprite(context: CanvasRenderingContext2D, entity: Entity,
   // Calculate the destination rectangle for rendering the sprite.
   const destinationRectangle: Rectangle = {
     x: Math.floor(-spriteWidth / 2 + spriteScreenX),
-    y: -spriteHeight / 2 + halfHeight,
+    y: -spriteHeight / 2 + horizon - ((floorHeight + 0.5 - eye) * height) / transformY,
     width: spriteWidth,
     height: spriteHeight
   };
 
   // Only draw the sprite if it is onscreen
-  if (destinationRectangle.x + destinationRectangle.width < 0 || destinationRectangle.x >= width) {
-    return;
+  if (destinationRectangle.x + destinationRectangle.width < start || destinationRectangle.x >= end) {
+    return undefined;
+  }
+
+  // Update destination rectangle to correctly position the sprite.
+  if (isSpriteAlignedTop(sprite)) {
+    destinationRectangle.y = horizon - ((ceilingHeight - eye) * height) / transformY;
+  } else if (isSpriteAlignedBottom(sprite)) {
+    destinationRectangle.y = horizon - ((floorHeight - eye) * height) / transformY - spriteHeight;
   }
 
   const clipRectangle: Rectangle = { ...destinationRectangle };
 
+  // Checks if any rows of the specified column of the sprite can be seen.
+  const isVisible = (column: number): boolean => {
+    const rows = getSpriteRows(occlusions[column], destinationRectangle, transformY);
+    return rows.top < rows.bottom;
+  };
+
   // Find the leftmost obstruction.
   let leftMostFound = false;
-  for (let column = destinationRectangle.x; column < destinationRectangle.x + destinationRectangle.width; column++) {
-    if (transformY < depthBuffer[column]) {
+  for (let column = Math.max(destinationRectangle.x, start); column < Math.min(destinationRectangle.x + destinationRectangle.width, end); column++) {
+    if (isVisible(column)) {
       clipRectangle.x = column;
       clipRectangle.width = destinationRectangle.x + destinationRectangle.width - column;
       leftMostFound = true;
@@ -371,24 +286,17 @@ export function renderSprite(context: CanvasRenderingContext2D, entity: Entity,
 
   // The entire sprite is obscured by something else.
   if (leftMostFound === false) {
-    return;
+    return undefined;
   }
 
   // Find the rightmost obstruction.
-  for (let column = destinationRectangle.x + destinationRectangle.width; column >= clipRectangle.x; column--) {
-    if (transformY < depthBuffer[column]) {
-      clipRectangle.width = column - clipRectangle.x;
+  for (let column = Math.min(destinationRectangle.x + destinationRectangle.width, end) - 1; column >= clipRectangle.x; column--) {
+    if (isVisible(column)) {
+      clipRectangle.width = column + 1 - clipRectangle.x;
       break;
     }
   }
 
-  // Update destination rectangle to correctly position the sprite.
-  if (isSpriteAlignedTop(sprite)) {
-    clipRectangle.y = destinationRectangle.y = -Math.abs(Math.round(height / transformY)) / 2 + halfHeight;
-  } else if (isSpriteAlignedBottom(sprite)) {
-    clipRectangle.y = destinationRectangle.y = Math.abs(Math.round(height / transformY)) / 2 + halfHeight - spriteHeight;
-  }
-
   // If the object is animated, then calculate the offset for the frame within the texture.
   let texXAnimationOffset = 0;
   if (isTextureAnimated(texture)) {
@@ -398,51 +306,79 @@ export function renderSprite(context: CanvasRenderingContext2D, entity: Entity,
 
   // If the sprite is static, then calculate which frame to render relative to the entity's position
   if (isSpriteStatic(sprite)) {
-    const radians = Math.atan2(spriteY, spriteX);
+    const radians = Math.atan2(spriteY, spriteX) - (sprite.angle || 0);
 
     // FIXME: Do I even need to convert this back to degrees?
     let degrees = radiansToDegrees(radians);
 
     // FIXME: This slightly offsets the sprite by 1/2 a frame in degrees, but could probably handle this by applying a rotation to the sprite.
     degrees += 360 / texture.frames / 2;
-    if (degrees < 0) {
-      degrees += 360;
-    }
-    if (degrees >= 360) {
-      degrees -= 360;
-    }
+    degrees = ((degrees % 360) + 360) % 360;
 
     // Calculate the specific frame to display
     const frame = Math.floor((texture.frames / 360) * degrees);
     texXAnimationOffset = frame * texture.width;
   }
 
-  // Apply a darkened tint to the sprite, based on its distance from the entity.
-  if (isSpriteTinted(sprite)) {
-    applyEffectTint(texture, texXAnimationOffset, ((height / (sprite.distance || 0)) * 1.6) / height);
-  }
+  return {
+    texture,
+    offset: texXAnimationOffset,
+    destination: destinationRectangle,
+    clip: clipRectangle,
+    distance: transformY,
+    // Calculate the amount of light falling on the sprite, unless it is a light source itself.
+    light: sprite.light !== undefined ? 1 : getLightLevel(level, cell, sprite.position.x, sprite.position.y),
+    // Calculate the amount of fog between the entity and the sprite, in the same way as for the walls, floors and ceilings.
+    fog: isSpriteTinted(sprite) ? getFogAmount(getFog(level), transformY) : 0
+  };
+}
 
-  const textureCroppedWidth = (clipRectangle.width / destinationRectangle.width) * texture.width;
-  const textureCroppedX = clipRectangle.x > destinationRectangle.x ? texture.width - textureCroppedWidth : 0;
+// Function to render the specified sprite, as calculated by projectSprite, to the specified canvas. Each column is clipped to the rows that can be seen
+// past the occlusions for it, where neighbouring columns that are clipped to the same rows are drawn together.
+export function renderSprite(context: Context2D, projection: SpriteProjection, occlusions: Occlusion[][], fog: Fog, debug = false): void {
+  const texture = projection.texture;
+  const destinationRectangle = projection.destination;
+  const clipRectangle = projection.clip;
+
+  // Darken the sprite based on the amount of light falling on it, and fade it into the fog based on its distance from the entity.
+  const shaded = projection.fog > 0 || projection.light < 1;
+  if (shaded) {
+    applyEffect(texture, projection.offset, projection.light, getFogStyle(fog, projection.fog));
+  }
 
-  // The slice of the texture that we want to render to the framebuffer.
-  const sourceRectangle: Rectangle = {
-    x: 0 + texXAnimationOffset + textureCroppedX,
-    y: 0,
-    width: textureCroppedWidth,
-    height: texture.height
-  };
+  // If the sprite has been shaded, then draw it from the effect canvas instead, which only holds the current frame.
+  const canvas = shaded ? texture.effect : texture.canvas;
+  const offset = shaded ? 0 : projection.offset;
 
-  let canvas = texture.canvas;
+  // Draws the columns from first up to last of the sprite, clipped to the specified rows.
+  const drawColumns = (first: number, last: number, rows: Occlusion): void => {
+    if (rows.top >= rows.bottom) {
+      return;
+    }
 
-  // Apply a darkened tint to the sprite, based on its distance from the entity.
-  if (isSpriteTinted(sprite)) {
-    canvas = texture.effect as HTMLCanvasElement;
-    sourceRectangle.x = textureCroppedX;
-  }
+    // The slice of the texture that we want to render to the framebuffer.
+    const sourceRectangle: Rectangle = {
+      x: offset + ((first - destinationRectangle.x) / destinationRectangle.width) * texture.width,
+      y: ((rows.top - destinationRectangle.y) / destinationRectangle.height) * texture.height,
+      width: ((last - first) / destinationRectangle.width) * texture.width,
+      height: ((rows.bottom - rows.top) / destinationRectangle.height) * texture.height
+    };
+    drawTexture(context, canvas as Canvas, sourceRectangle, { x: first, y: rows.top, width: last - first, height: rows.bottom - rows.top });
+  };
 
   // Draw the sprite to the screen.
-  drawTexture(context, canvas as HTMLCanvasElement, sourceRectangle, clipRectangle);
+  const end = clipRectangle.x + clipRectangle.width;
+  let first = clipRectangle.x;
+  let rows = getSpriteRows(occlusions[first], destinationRectangle, projection.distance);
+  for (let column = first + 1; column < end; column++) {
+    const next = getSpriteRows(occlusions[column], destinationRectangle, projection.distance);
+    if (next.top !== rows.top || next.bottom !== rows.bottom) {
+      drawColumns(first, column, rows);
+      first = column;
+      rows = next;
+    }
+  }
+  drawColumns(first, end, rows);
 
   // If 'debug' is on, draw some additional borders.
   if (debug) {
@@ -451,88 +387,268 @@ export function renderSprite(context: CanvasRenderingContext2D, entity: Entity,
   }
 }
 
-// Function to render the specified level, from the perspective of the specified entity to the target canvas
-export function render(context: CanvasRenderingContext2D, entity: Entity, level: Level, debug = false): void {
-  // The width and height of the context.as
+// Function to rasterise the specified sprite, as calculated by projectSprite, into the specified framebuffer. Each column is clipped to the rows that can
+// be seen past the occlusions for it, in the same way as renderSprite.
+export function rasteriseSprite(framebuffer: Framebuffer, projection: SpriteProjection, occlusions: Occlusion[][], fog: Fog): void {
+  const texture = projection.texture;
+  const destination = projection.destination;
+  const start = Math.max(projection.clip.x, 0);
+  const end = Math.min(projection.clip.x + projection.clip.width, framebuffer.width);
+
+  for (let column = start; column < end; column++) {
+    const rows = getSpriteRows(occlusions[column], destination, projection.distance);
+    if (rows.top >= rows.bottom) {
+      continue;
+    }
+
+    // Calculate the column and rows of the texture that map to the visible rows of this column of the viewport.
+    const u = Math.min(Math.floor(((column + 0.5 - destination.x) / destination.width) * texture.width), texture.width - 1);
+    const source: Rectangle = {
+      x: projection.offset + u,
+      y: ((rows.top - destination.y) / destination.height) * texture.height,
+      width: 1,
+      height: ((rows.bottom - rows.top) / destination.height) * texture.height
+    };
+    drawTextureColumn(framebuffer, texture, source, { x: column, y: rows.top, width: 1, height: rows.bottom - rows.top }, projection.light, fog.colour, projection.fog);
+  }
+}
+
+// Function to render the specified wall slice, as calculated by getWallSlices, to the specified canvas.
+export function renderWall(context: Context2D, slice: WallSlice, fog: Fog): void {
+  // Draw the wall to the framebuffer.
+  drawTexture(context, slice.texture.canvas as Canvas, slice.source, slice.destination);
+
+  // Darken the wall based on the amount of light falling on it, and fade it into the fog based on its distance from the entity.
+  // NOTE: The shading is a solid rectangle, so would also darken whatever can be seen through a transparent cell, hence skip it for those.
+  if (!slice.transparent) {
+    if (slice.light < 1) {
+      drawShade(context, slice.destination, slice.light);
+    }
+
+    const fogAmount = getFogAmount(fog, slice.distance);
+    if (fogAmount > 0) {
+      drawFill(context, slice.destination, getFogStyle(fog, fogAmount));
+    }
+  }
+}
+
+// Function to rasterise the specified wall slice, as calculated by getWallSlices, into the specified framebuffer. As each pixel is shaded individually,
+// transparent walls are shaded in the same way as any other wall.
+export function rasteriseWall(framebuffer: Framebuffer, slice: WallSlice, fog: Fog): void {
+  drawTextureColumn(framebuffer, slice.texture, slice.source, slice.destination, slice.light, fog.colour, getFogAmount(fog, slice.distance));
+}
+
+// Calculates the column of the skybox texture that can be seen in the specified column of the viewport, from the perspective of the specified entity.
+function getSkyboxColumn(entity: Entity, skybox: Texture, column: number, width: number): number {
+  // Calculate the direction of the ray for this column, relative to the camera plane.
+  const camera = (2 * column) / width - 1;
+  const direction: Vector = vu.add(entity.direction, vu.scale(entity.camera, camera));
+
+  // The sky is a cylinder around the entity, so scroll the texture based on the angle of the ray.
+  const angle = Math.atan2(direction.y, direction.x) / (2 * Math.PI);
+  return Math.floor((angle - Math.floor(angle)) * skybox.width);
+}
+
+// Function to render the specified column of the sky, from the perspective of the specified entity, to the specified canvas.
+export function renderSky(context: Context2D, entity: Entity, skybox: Texture, destination: Rectangle): void {
   const width = context.canvas.width;
   const height = context.canvas.height;
+  drawSkybox(context, destination, getSkyboxColumn(entity, skybox, destination.x, width), getHorizon(entity, height), skybox);
+}
 
-  // FIXME: Shouldn't need to reallocate this every frame.
-  const depthBuffer = new Array(width).fill(50);
+// Function to rasterise the specified column of the sky, from the perspective of the specified entity, into the specified framebuffer.
+export function rasteriseSky(framebuffer: Framebuffer, entity: Entity, skybox: Texture, destination: Rectangle): void {
+  const width = framebuffer.width;
+  const height = framebuffer.height;
+  drawSkyboxColumn(framebuffer, destination, getSkyboxColumn(entity, skybox, destination.x, width), getHorizon(entity, height), skybox);
+}
 
-  // Draw the Floor and Ceiling
-  renderFloorAndCeiling(context, entity, level);
+// Draws the specified wall slices and sprite projections together, from the furthest to the nearest, so that whatever is nearer is drawn over whatever
+// is behind it. Sprites are only clipped to the walls that cover the top or bottom of each column, hence this is what draws a sprite behind a transparent
+// wall, or any other wall, before the wall itself.
+function drawBackToFront(slices: WallSlice[], projections: SpriteProjection[], drawWall: (slice: WallSlice) => void, drawSprite: (projection: SpriteProjection) => void): void {
+  slices.sort((a, b) => b.distance - a.distance);
+  projections.sort((a, b) => b.distance - a.distance);
+
+  // A wall at the same distance as a sprite is drawn first, so that a transparent wall the sprite is standing in, e.g. a half-open door, doesn't hide it.
+  let next = 0;
+  for (const slice of slices) {
+    while (next < projections.length && projections[next].distance > slice.distance) {
+      drawSprite(projections[next++]);
+    }
+    drawWall(slice);
+  }
+  while (next < projections.length) {
+    drawSprite(projections[next++]);
+  }
+}
+
+// The framebuffer is reused between frames, and is only reallocated when the size of the canvas changes.
+let framebuffer: Framebuffer | undefined;
 
-  // Draw the Walls
-  for (let column = 0; column < width; column++) {
-    // Get the first solid cell this ray hits.
-    const result = castRay(width, column, entity, level);
+// Gets the framebuffer for the specified canvas.
+function getFramebuffer(context: Context2D): Framebuffer {
+  if (framebuffer === undefined || framebuffer.width !== context.canvas.width || framebuffer.height !== context.canvas.height) {
+    framebuffer = createFramebuffer(context);
+  }
+  return framebuffer;
+}
+
+// Function to render the specified level, from the perspective of the specified entity to the target canvas. The Canvas renderer only rasterises the
+// floors and ceilings itself and draws everything else with the canvas, whereas the Software renderer rasterises everything into the framebuffer.
+// Only the columns between start and end are rendered, so that the viewport can be split into strips that are rendered in parallel.
+export function render(context: Context2D, entity: Entity, level: Level, debug = false, renderer: RendererType = RendererType.CANVAS, start = 0, end = context.canvas.width): void {
+  // The width and height of the context.
+  const width = context.canvas.width;
+  const height = context.canvas.height;
+  const horizon = getHorizon(entity, height);
+  const eye = getEyeLevel(entity);
 
-    // FIXME: Should draw something when no solid is found within the maximum range.
-    if (result !== undefined) {
-      // Stick the distance into the Depth Buffer
-      depthBuffer[column] = result.distance;
+  // Clear the framebuffer, as anything that is not drawn this frame should be black.
+  const buffer = getFramebuffer(context);
+  clearFramebuffer(buffer);
 
-      // Calculate the height the wall should be rendered at based on its distance from the entity.
-      let wallHeight = Math.abs(Math.floor(height / result.distance));
+  // The rows of each column that can still be seen beyond each distance, so that sprites can be clipped to them.
+  // FIXME: Shouldn't need to reallocate this every frame.
+  const occlusions: Occlusion[][] = new Array(width);
+
+  // The sky and walls are drawn after the floors and ceilings have been copied to the framebuffer, hence collect them as the rays are cast.
+  const slices: WallSlice[] = [];
+  const skies: Rectangle[] = [];
+
+  // Outdoor levels have no ceiling, so the sky can be seen above every cell.
+  const outdoors = isOutdoors(level);
+  const skybox = level.skybox ? getTextureById(level.skybox) : undefined;
+
+  // Everything is faded into the same fog based on its distance from the entity.
+  const fog = getFog(level);
+
+  // The cell the entity is standing in has always been explored.
+  markExplored(level, Math.floor(entity.position.x), Math.floor(entity.position.y));
+
+  for (let column = start; column < end; column++) {
+    // Calculate the direction of the ray for this column, relative to the camera plane.
+    const camera = (2 * column) / width - 1;
+    const direction: Vector = vu.add(entity.direction, vu.scale(entity.camera, camera));
+
+    // Tracks the rows of this column that have not yet been drawn. As each cell is drawn front to back, this window closes until nothing else is visible.
+    let clipTop = 0;
+    let clipBottom = height;
+    occlusions[column] = [{ distance: 0, top: clipTop, bottom: clipBottom }];
+
+    // Tracks the height of the floor and ceiling the ray is currently travelling over.
+    const origin = getCell(level, Math.floor(entity.position.x), Math.floor(entity.position.y));
+    let floorHeight = getFloorHeight(origin);
+    let ceilingHeight = outdoors ? Infinity : getCeilingHeight(origin);
+
+    // Tracks the cell the ray is currently travelling through, as the light in that cell is what falls on the walls it hits.
+    let region = origin;
+
+    // Closes the window over the rows covered by an opaque wall between the heights bottom and top, if it covers the top or bottom of the window.
+    const occlude = (distance: number, bottom: number, top: number): void => {
+      const rowTop = project(top, distance, eye, horizon, height);
+      const rowBottom = project(bottom, distance, eye, horizon, height);
+      if (rowBottom >= clipBottom && rowTop <= clipTop) {
+        clipTop = clipBottom;
+      } else if (rowBottom >= clipBottom) {
+        clipBottom = Math.max(Math.min(rowTop, clipBottom), clipTop);
+      } else if (rowTop <= clipTop) {
+        clipTop = Math.min(Math.max(rowBottom, clipTop), clipBottom);
+      }
+    };
+
+    // Visits each cell the ray passes through, front to back, marking them as explored for the automap.
+    const visit = (result: CastResult): boolean => {
+      const cell = result.cell;
+      markExplored(level, result.x, result.y);
+
+      // Calculate the amount of light falling on the point the ray hit.
+      const light = getLightLevel(level, region, entity.position.x + direction.x * result.distance, entity.position.y + direction.y * result.distance);
+
+      // Draw the floor that the ray has travelled over to reach this cell.
+      if (floorHeight < eye) {
+        const row = Math.max(project(floorHeight, result.distance, eye, horizon, height), clipTop);
+        if (row < clipBottom) {
+          renderFlat(buffer, level, entity, direction, column, floorHeight, row, clipBottom, horizon, false);
+          clipBottom = row;
+        }
+      }
 
-      // FIXME: Quick kludge to workaround the issue where from a certain distance the floor/ceiling is visible above/below a wall.
-      wallHeight += 2;
+      // Draw the ceiling that the ray has travelled under to reach this cell.
+      if (ceilingHeight > eye) {
+        const row = Math.min(project(ceilingHeight, result.distance, eye, horizon, height), clipBottom);
+        if (row > clipTop) {
+          renderFlat(buffer, level, entity, direction, column, ceilingHeight, clipTop, row, horizon, true);
+          clipTop = row;
+        }
+      }
 
-      // Calculate the position on the Y axis of the viewport to start drawing the wall from.
-      const wallY = -wallHeight / 2 + height / 2;
+      if (isSolid(cell)) {
+        // Draw the wall, including any part of it below the floor the ray has travelled over, e.g. when looking out of a pit.
+        const bottom = Math.min(floorHeight, cell.floorHeight);
+        const top = cell.ceilingHeight;
+        slices.push(...getWallSlices(result, column, bottom, top, light, eye, horizon, height, clipTop, clipBottom));
 
-      // Get the texture for the solid cell.
-      const texture = getTexture(result.cell, result.face);
+        if (!isTransparent(cell)) {
+          occlude(result.distance, bottom, top);
+        }
 
-      // Calculate the X offset in the Texture for the slice that needs to be rendered.
-      let wallX = Math.floor(result.wall * texture.width);
+        // The top of a solid block is the floor for the rest of the cell, whereas thin walls have no top.
+        if (!isThin(cell)) {
+          floorHeight = top;
+        }
+      } else {
+        // If the floor steps up, then draw the front of the step.
+        if (cell.floorHeight > floorHeight) {
+          slices.push(...getWallSlices(result, column, floorHeight, cell.floorHeight, light, eye, horizon, height, clipTop, clipBottom));
+          occlude(result.distance, floorHeight, cell.floorHeight);
+        }
 
-      // If the texture is animated, then calculate the X offset for the frame within the texture.
-      let textureAnimationOffset = 0;
-      if (isTextureAnimated(texture)) {
-        const frame = getAnimationFrame();
-        textureAnimationOffset = frame * texture.width;
-      }
+        // If the ceiling steps down, then draw the front of the step.
+        if (!outdoors && cell.ceilingHeight < ceilingHeight) {
+          slices.push(...getWallSlices(result, column, cell.ceilingHeight, ceilingHeight, light, eye, horizon, height, clipTop, clipBottom));
+          occlude(result.distance, cell.ceilingHeight, ceilingHeight);
+        }
 
-      // If the texture is stateful, then calculate the Y offset for the frame within the texture.
-      let textureStateOffset = 0;
-      if (isTextureStateful(texture)) {
-        textureStateOffset = (result.cell.state % texture.states) * texture.height;
+        floorHeight = cell.floorHeight;
+        ceilingHeight = outdoors ? Infinity : cell.ceilingHeight;
+        region = cell;
       }
 
-      // If the face of the wall is North or East then need to invert the X offset.
-      if (result.face === Face.NORTH || result.face === Face.EAST) {
-        wallX = texture.width - wallX - 1;
+      // Record the rows that can still be seen beyond this cell, if the floor, ceiling or walls drawn for it have covered any more of them.
+      const last = occlusions[column][occlusions[column].length - 1];
+      if (clipTop !== last.top || clipBottom !== last.bottom) {
+        occlusions[column].push({ distance: result.distance, top: clipTop, bottom: clipBottom });
       }
 
-      // The slice of the texture that we want to render to the framebuffer.
-      const sourceRectangle: Rectangle = {
-        x: textureAnimationOffset + wallX,
-        y: textureStateOffset,
-        width: 1,
-        height: texture.height
-      };
+      // Stop casting once nothing else can be seen.
+      return clipTop >= clipBottom;
+    };
+    traceRay(level, entity.position, direction, rayHitsAll, 50, visit);
 
-      // The location to render that texture to in the framebuffer.
-      const destinationRectangle: Rectangle = {
-        x: column,
-        y: wallY,
-        width: 1,
-        height: wallHeight
-      };
+    // Nothing can be seen beyond the maximum depth.
+    occlusions[column].push({ distance: 50, top: 0, bottom: 0 });
 
-      // Draw the wall to the framebuffer.
-      drawTexture(context, texture.canvas as HTMLCanvasElement, sourceRectangle, destinationRectangle);
+    // Anything that is still visible is beyond the maximum depth or outside the level, so extend the current floor and ceiling to the horizon.
+    const horizonRow = Math.round(horizon);
+    if (floorHeight < eye && (skybox === undefined || level.floor !== undefined) && clipBottom > Math.max(horizonRow, clipTop)) {
+      renderFlat(buffer, level, entity, direction, column, floorHeight, Math.max(horizonRow, clipTop), clipBottom, horizon, false);
+      clipBottom = Math.max(horizonRow, clipTop);
+    }
+    if (ceilingHeight > eye && !outdoors && clipTop < Math.min(horizonRow, clipBottom)) {
+      renderFlat(buffer, level, entity, direction, column, ceilingHeight, clipTop, Math.min(horizonRow, clipBottom), horizon, true);
+      clipTop = Math.min(horizonRow, clipBottom);
+    }
 
-      // Apply a darkened tint to the wall, based on its distance from the entity.
-      drawTint(context, destinationRectangle, (wallHeight * 1.6) / height);
+    // Anything that is still visible after that is open to the sky.
+    if (skybox !== undefined && clipTop < clipBottom) {
+      skies.push({ x: column, y: clipTop, width: 1, height: clipBottom - clipTop });
     }
   }
 
   // FIXME: On level load, create a linked list for active sprites and use that rather than allocate this each frame.
   // Prepare the sprites...
-  const sprites: Sprite[] = [...level.sprites];
+  const sprites: Sprite[] = [...level.sprites, ...level.entities, ...(level.enemies || []).map((enemy) => enemy.sprite), ...(level.effects || [])];
   for (const sprite of sprites) {
     sprite.distance = Math.sqrt((entity.position.x - sprite.position.x) * (entity.position.x - sprite.position.x) + (entity.position.y - sprite.position.y) * (entity.position.y - sprite.position.y));
   }
@@ -543,16 +659,62 @@ export function render(context: CanvasRenderingContext2D, entity: Entity, level:
     return (b.distance || 0) - (a.distance || 0);
   });
 
-  // After sorting the sprites, do the projection and draw them
-  for (let i = 0; i < sprites.length; i++) {
-    // For ease...
-    const sprite = sprites[i];
-
+  // Project each active sprite, from back to front.
+  const projections: SpriteProjection[] = [];
+  for (const sprite of sprites) {
     // Don't bother on non-active sprites.
     if (sprite.active === false) {
       continue;
     }
 
-    renderSprite(context, entity, depthBuffer, sprite, debug);
+    const projection = projectSprite(width, height, start, end, entity, level, occlusions, sprite);
+    if (projection !== undefined) {
+      projections.push(projection);
+    }
+  }
+
+  // Draw the Sky, then the Walls and Sprites together from back to front, so that the nearest walls and sprites, and anything seen through transparent
+  // walls, are drawn on top.
+  if (renderer === RendererType.SOFTWARE) {
+    if (skybox !== undefined) {
+      for (const sky of skies) {
+        rasteriseSky(buffer, entity, skybox, sky);
+      }
+    }
+
+    drawBackToFront(
+      slices,
+      projections,
+      (slice) => rasteriseWall(buffer, slice, fog),
+      (projection) => rasteriseSprite(buffer, projection, occlusions, fog)
+    );
+
+    // Copy the finished frame to the canvas.
+    presentFramebuffer(context, buffer, start, end);
+
+    // If 'debug' is on, draw some additional borders.
+    if (debug) {
+      for (const projection of projections) {
+        drawBorderRectangle(context, projection.destination);
+        drawBorderRectangle(context, projection.clip, 'green');
+      }
+    }
+    return;
   }
+
+  // Copy the floors and ceilings from the framebuffer to the canvas.
+  presentFramebuffer(context, buffer, start, end);
+
+  if (skybox !== undefined) {
+    for (const sky of skies) {
+      renderSky(context, entity, skybox, sky);
+    }
+  }
+
+  drawBackToFront(
+    slices,
+    projections,
+    (slice) => renderWall(context, slice, fog),
+    (projection) => renderSprite(context, projection, occlusions, fog, debug)
+  );
 }
@@ -1,14 +1,22 @@
 import { Level } from './interfaces/level';
+import { LevelFile } from './interfaces/level-file';
 import { Portal } from './interfaces/portal';
-import { Texture } from './interfaces/texture';
+import { SavedCell } from './interfaces/save-game';
 
 import { Player } from './objects/player.js';
 import { sleep } from './utils/time-utils.js';
-import { getCell, getTextureIdsForLevel } from './utils/level-utils.js';
+import { getCell, loadSoundsForLevel, loadTexturesForLevel } from './utils/level-utils.js';
 import { degreesToRadians } from './utils/math-utils.js';
 import { CellType } from './enums.js';
-import { getTextureById, loadTexture } from './utils/texture-utils.js';
+import { initialiseLights, resetLights } from './utils/light-utils.js';
 import { isBlocked, isSolid } from './utils/cell-utils.js';
+import { playAmbience, setAudioListener, stopSounds } from './utils/audio-utils.js';
+import { resetEffects } from './utils/weapon-utils.js';
+import { resetTriggers } from './utils/trigger-utils.js';
+import { resetEnemies } from './utils/enemy-utils.js';
+import { resetPickups } from './utils/item-utils.js';
+import { getSavedCells, restoreCells } from './utils/save-utils.js';
+import { createLevelFile } from './utils/level-file-utils.js';
 
 export enum states {
   STARTING,
@@ -19,6 +27,8 @@ export enum states {
 let currentLevel: Level;
 let player: Player;
 let currentState: number = states.STARTING;
+const starts = new WeakMap<Level, SavedCell[]>(); // The state of the cells of each level when it was first started, so that it can be started again.
+const startFiles = new WeakMap<Level, LevelFile>(); // Each level that was not created from a level file, as a level file when it was first started.
 
 export function getGameState(): number {
   return currentState;
@@ -34,22 +44,27 @@ export async function setCurrentLevel(level: Level, start: Portal): Promise<void
   setGameState(states.LOADING);
 
   // FIXME: Should free any resources used by the current level
+  stopSounds();
 
-  // Update the current level
+  // Update the current level, remembering how it was the first time so that it can be started again.
   currentLevel = level;
+  if (!starts.has(level)) {
+    starts.set(level, getSavedCells(level));
+    if (level.file === undefined) {
+      startFiles.set(level, createLevelFile(level));
+    }
+  }
 
-  // Get the Textures used for the level.
-  const textureIds = getTextureIdsForLevel(level);
+  // Gather the lights used by the level, and clear away anything left from when it was last played, e.g. projectiles in flight.
+  initialiseLights(level);
+  resetEffects(level);
+  resetTriggers(level);
 
-  // Load the textures.
-  const promises: Promise<Texture>[] = [];
-  for (const textureId of textureIds) {
-    const texture = getTextureById(textureId);
-    promises.push(loadTexture(texture));
-  }
+  // Load the Textures used for the level, and wait for them all to load.
+  await loadTexturesForLevel(level);
 
-  // Wait for all the Textures to load.
-  await Promise.all(promises);
+  // Load the Sounds used for the level, which does not wait for sounds that fail to load.
+  await loadSoundsForLevel(level);
 
   // Initialise and position Player
   let playerX = start.x;
@@ -69,12 +84,34 @@ export async function setCurrentLevel(level: Level, start: Portal): Promise<void
 
   player = new Player(playerX + 0.5, playerY + 0.5);
   player.rotate(degreesToRadians(start.angle));
+  player.enter(getCell(level, playerX, playerY));
+  setAudioListener(level, player);
 
   // FIXME: Should time the load, and then sleep for the delta.
   await sleep(2000);
 
   // Update Game State
   setGameState(states.LOADED);
+  playAmbience(level.ambience);
+}
+
+// Starts the specified level again from its entrance, as it was when it was first started, e.g. when the player dies. The player starts again with
+// nothing, so everything they picked up is put back too, and any lights switched by triggers are switched back on.
+export async function restartLevel(level: Level): Promise<void> {
+  restoreCells(level, starts.get(level) || []);
+  resetEnemies(level);
+  resetPickups(level);
+  for (const sprite of level.sprites) {
+    sprite.active = !sprite.hidden;
+  }
+  resetLights([...level.sprites, ...level.entities]);
+  await setCurrentLevel(level, level.entrance);
+}
+
+// Gets the specified level as a level file, as it was when it was first started rather than as it is now, e.g. so that it can be edited without the
+// switches that were flicked and walls that were destroyed whilst playing it.
+export function getStartingLevelFile(level: Level): LevelFile {
+  return level.file || startFiles.get(level) || createLevelFile(level);
 }
 
 export function getPlayer(): Player {
@@ -0,0 +1,186 @@
+import type { Circle } from './interfaces/circle';
+import type { Rectangle } from './interfaces/rectangle';
+import type { Vector } from './interfaces/vector';
+
+import { TouchControl } from './enums.js';
+import { moveAxes, pressInput, releaseInput, setInputValue } from './utils/input-utils.js';
+import * as vu from './utils/vector-utils.js';
+
+// The prefix of the inputs for each stick, so that they can be bound like any other input.
+const stickInputs: Record<number, string> = {
+  [TouchControl.MOVE]: 'TouchMove',
+  [TouchControl.TURN]: 'TouchTurn'
+};
+
+// The input, and label, of each button.
+const buttonInputs: Record<number, string> = {
+  [TouchControl.INTERACT]: 'TouchInteract',
+  [TouchControl.FIRE]: 'TouchFire'
+};
+const buttonLabels: Record<number, string> = {
+  [TouchControl.INTERACT]: 'Use',
+  [TouchControl.FIRE]: 'Fire'
+};
+
+// State
+let enabled = false; // The controls are only shown once the screen has been touched, so that they do not get in the way otherwise.
+let controls: Circle[] = []; // The position and size, in pixels, of each control, indexed by TouchControl.
+const touchControls = new Map<number, TouchControl>(); // The control each touch started on, by the touch's identifier.
+const touchPositions = new Map<number, Vector>(); // Where each touch is now.
+
+// Checks if the screen has been touched, in which case the touch controls are shown.
+export function isTouchEnabled(): boolean {
+  return enabled;
+}
+
+// Positions the controls for the specified screen and view, where the view is the letterboxed part of the screen the game is drawn in. In portrait the
+// view has space above and below it, so if there is room the controls go below it rather than over it, and the buttons go between the sticks.
+export function layoutTouchControls(screen: Rectangle, view: Rectangle): void {
+  const radius = Math.min(screen.width, screen.height) * 0.15;
+  const margin = radius / 2;
+  const below = screen.y + screen.height - (view.y + view.height);
+  const y = below >= (radius + margin) * 2 ? view.y + view.height + below / 2 : screen.y + screen.height - radius - margin;
+  const portrait = screen.height > screen.width;
+
+  controls = [];
+  controls[TouchControl.MOVE] = { position: vu.create(screen.x + margin + radius, y), radius };
+  controls[TouchControl.TURN] = { position: vu.create(screen.x + screen.width - margin - radius, y), radius };
+  controls[TouchControl.INTERACT] = {
+    position: portrait ? vu.create(screen.x + screen.width / 2, y - radius * 0.6) : vu.create(screen.x + screen.width - margin - radius, y - radius * 1.5 - margin),
+    radius: radius / 2
+  };
+  controls[TouchControl.FIRE] = {
+    position: portrait ? vu.create(screen.x + screen.width / 2, y + radius * 0.6) : vu.create(screen.x + screen.width - margin - radius * 2.25, y - radius * 1.5 - margin),
+    radius: radius / 2
+  };
+}
+
+// Checks if the specified control is a button, rather than a stick.
+function isButton(control: TouchControl): boolean {
+  return buttonInputs[control] !== undefined;
+}
+
+// Gets the control at the specified position, where touching anywhere that is not a control swipes.
+function getControlAt(position: Vector): TouchControl {
+  const control = controls.findIndex((circle) => vu.distance(position, circle.position) <= circle.radius * 1.25);
+  return control >= 0 ? control : TouchControl.SWIPE;
+}
+
+// Gets the position of the specified touch within the element it touched.
+function getTouchPosition(touch: Touch): Vector {
+  const rect = (touch.target as Element).getBoundingClientRect();
+  return vu.create(touch.clientX - rect.left, touch.clientY - rect.top);
+}
+
+// Gets how far the stick is pushed in each direction, from -1 to 1, when it is touched at the specified position.
+function getStickOffset(control: TouchControl, position: Vector): Vector {
+  const circle = controls[control];
+  const offset = vu.scale(vu.subtract(position, circle.position), 1 / circle.radius);
+  const length = vu.distance(offset, vu.create());
+  return length > 1 ? vu.scale(offset, 1 / length) : offset;
+}
+
+// Presses the inputs of the stick by how far it is pushed in each direction, releasing them as it moves back to its center.
+function updateStick(control: TouchControl, position: Vector): void {
+  const offset = getStickOffset(control, position);
+  setInputValue(`${stickInputs[control]}X-`, Math.max(-offset.x, 0));
+  setInputValue(`${stickInputs[control]}X+`, Math.max(offset.x, 0));
+  setInputValue(`${stickInputs[control]}Y-`, Math.max(-offset.y, 0));
+  setInputValue(`${stickInputs[control]}Y+`, Math.max(offset.y, 0));
+}
+
+// Starts tracking each new touch, pressing whichever control it started on.
+export function onTouchStart(event: TouchEvent): void {
+  enabled = true;
+  for (const touch of Array.from(event.changedTouches)) {
+    const position = getTouchPosition(touch);
+    const control = getControlAt(position);
+    touchControls.set(touch.identifier, control);
+    touchPositions.set(touch.identifier, position);
+
+    if (isButton(control)) {
+      pressInput(buttonInputs[control]);
+    } else if (control !== TouchControl.SWIPE) {
+      updateStick(control, position);
+    }
+  }
+}
+
+// Moves the stick each touch started on, or swipes by how far it has moved.
+export function onTouchMove(event: TouchEvent): void {
+  for (const touch of Array.from(event.changedTouches)) {
+    const control = touchControls.get(touch.identifier);
+    const previous = touchPositions.get(touch.identifier);
+    if (control === undefined || previous === undefined) {
+      continue;
+    }
+
+    const position = getTouchPosition(touch);
+    touchPositions.set(touch.identifier, position);
+    if (control === TouchControl.SWIPE) {
+      moveAxes('Swipe', position.x - previous.x, position.y - previous.y);
+    } else if (!isButton(control)) {
+      updateStick(control, position);
+    }
+  }
+}
+
+// Stops tracking each touch that has ended, releasing the control it was on.
+export function onTouchEnd(event: TouchEvent): void {
+  for (const touch of Array.from(event.changedTouches)) {
+    const control = touchControls.get(touch.identifier);
+    touchControls.delete(touch.identifier);
+    touchPositions.delete(touch.identifier);
+
+    if (control !== undefined && isButton(control)) {
+      releaseInput(buttonInputs[control]);
+    } else if (control !== undefined && control !== TouchControl.SWIPE) {
+      updateStick(control, controls[control].position);
+    }
+  }
+}
+
+// Draws the sticks, with their knobs wherever they are being pushed, and the buttons.
+export function drawTouchControls(context: CanvasRenderingContext2D): void {
+  if (!enabled) {
+    return;
+  }
+
+  context.save();
+  context.lineWidth = 2;
+  context.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+  context.fillStyle = 'rgba(255, 255, 255, 0.15)';
+  controls.forEach((circle, control) => {
+    context.beginPath();
+    context.arc(circle.position.x, circle.position.y, circle.radius, 0, Math.PI * 2);
+    context.fill();
+    context.stroke();
+
+    if (isButton(control)) {
+      return;
+    }
+
+    // Draw the knob of the stick under the touch that is pushing it, if any.
+    let knob = circle.position;
+    for (const [identifier, touched] of touchControls) {
+      const position = touchPositions.get(identifier);
+      if (touched === control && position !== undefined) {
+        knob = vu.add(circle.position, vu.scale(getStickOffset(control, position), circle.radius));
+      }
+    }
+    context.beginPath();
+    context.arc(knob.x, knob.y, circle.radius / 3, 0, Math.PI * 2);
+    context.fill();
+    context.stroke();
+  });
+
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillStyle = 'rgba(255, 255, 255, 0.75)';
+  for (const control of [TouchControl.INTERACT, TouchControl.FIRE]) {
+    const button = controls[control];
+    context.font = `${Math.floor(button.radius / 2)}px sans-serif`;
+    context.fillText(buttonLabels[control], button.position.x, button.position.y);
+  }
+  context.restore();
+}
@@ -2,3 +2,5 @@ import { Vector } from './interfaces/vector';
 
 export type Radian = number;
 export type Scaler = Vector;
+export type Canvas = HTMLCanvasElement | OffscreenCanvas;
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
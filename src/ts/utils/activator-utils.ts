@@ -1,9 +1,15 @@
 import { Cell, DoorCell } from '../interfaces/cell';
+import { Entity } from '../interfaces/entity';
+import { Level } from '../interfaces/level';
 
-import { DoorState } from '../enums.js';
+import { DoorState, SoundEffect } from '../enums.js';
 import { isDoor } from './cell-utils.js';
+import { playSoundAtCell } from './audio-utils.js';
 import { registerTimer } from './timer-utils.js';
 
+// State
+const idleTimes = new Map<string, number>(); // How long each door that closes by itself has been open with nothing in its doorway, by the door's ID.
+
 // Toggles the specified cells state between 0 and 1.
 export function activatorToggle(cell: Cell): void {
   cell.state = cell.state === 0 ? 1 : 0;
@@ -19,6 +25,40 @@ export function activatorDecrement(cell: Cell): void {
   cell.state += 1;
 }
 
+// Switches the light attached to the specified cell on or off.
+export function activatorLight(cell: Cell): void {
+  if (cell.lamp !== undefined) {
+    cell.lamp.active = !cell.lamp.active;
+  }
+}
+
+// Registers a timer to move the door in the direction of its status, e.g. when a saved game is loaded whilst the door was opening.
+export function startDoorTimer(door: DoorCell): void {
+  switch (door.status) {
+    case DoorState.CLOSING:
+      registerTimer(door.id, (delta: number): boolean => {
+        door.percent += (100 / door.speed) * delta;
+        door.percent = Math.min(door.percent, 100);
+        if (door.percent === 100) {
+          door.status = DoorState.CLOSED;
+        }
+        return door.status === DoorState.CLOSED;
+      });
+      break;
+
+    case DoorState.OPENING:
+      registerTimer(door.id, (delta: number): boolean => {
+        door.percent -= (100 / door.speed) * delta;
+        door.percent = Math.max(door.percent, 0);
+        if (door.percent === 0) {
+          door.status = DoorState.OPEN;
+        }
+        return door.status === DoorState.OPEN;
+      });
+      break;
+  }
+}
+
 // Registers a timer to open or close the door over a defined period of time.
 export function activatorDoor(cell: Cell): void {
   if (isDoor(cell)) {
@@ -28,28 +68,47 @@ export function activatorDoor(cell: Cell): void {
       case DoorState.OPEN:
       case DoorState.OPENING:
         door.status = DoorState.CLOSING;
-        registerTimer(door.id, (delta: number): boolean => {
-          door.percent += (100 / door.speed) * delta;
-          door.percent = Math.min(door.percent, 100);
-          if (door.percent === 100) {
-            door.status = DoorState.CLOSED;
-          }
-          return door.status === DoorState.CLOSED;
-        });
+        startDoorTimer(door);
+        playSoundAtCell(door, SoundEffect.DOOR_CLOSE);
         break;
 
       case DoorState.CLOSED:
       case DoorState.CLOSING:
         door.status = DoorState.OPENING;
-        registerTimer(door.id, (delta: number): boolean => {
-          door.percent -= (100 / door.speed) * delta;
-          door.percent = Math.max(door.percent, 0);
-          if (door.percent === 0) {
-            door.status = DoorState.OPEN;
-          }
-          return door.status === DoorState.OPEN;
-        });
+        startDoorTimer(door);
+        playSoundAtCell(door, SoundEffect.DOOR_OPEN);
         break;
     }
   }
 }
+
+// Checks if any of the entities is standing in the cell at the specified position.
+function isOccupied(x: number, y: number, entities: Entity[]): boolean {
+  return entities.some((entity) => Math.abs(entity.position.x - (x + 0.5)) < 0.5 + entity.radius && Math.abs(entity.position.y - (y + 0.5)) < 0.5 + entity.radius);
+}
+
+// Closes each open door that closes by itself, once nothing has stood in its doorway for long enough. Should be called every frame, with everything that
+// can stand in a doorway, e.g. the player and the enemies.
+export function updateDoors(level: Level, entities: Entity[], elapsed: number): void {
+  level.data.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (!isDoor(cell) || (cell as DoorCell).autoClose === undefined) {
+        return;
+      }
+      const door = cell as DoorCell;
+      if (door.status !== DoorState.OPEN || isOccupied(x, y, entities)) {
+        idleTimes.delete(door.id);
+        return;
+      }
+
+      const idle = (idleTimes.get(door.id) || 0) + elapsed;
+      idleTimes.set(door.id, idle);
+      if (idle >= (door.autoClose as number)) {
+        idleTimes.delete(door.id);
+        for (const activator of door.activators) {
+          activator(door);
+        }
+      }
+    });
+  });
+}
@@ -0,0 +1,219 @@
+import type { Cell } from '../interfaces/cell';
+import type { Entity } from '../interfaces/entity';
+import type { Level } from '../interfaces/level';
+import type { Sound, Voice } from '../interfaces/sound';
+import type { Vector } from '../interfaces/vector';
+
+import { SoundState } from '../enums.js';
+import { sounds } from '../data/sounds/sounds.js';
+import { castRay, rayHitsSolid } from './ray-utils.js';
+import * as vu from './vector-utils.js';
+
+const hearingDistance = 16; // The distance, in cells, beyond which sounds can no longer be heard.
+const occlusion = 0.3; // How much of a sound can be heard through a wall.
+
+// State
+let context: AudioContext | undefined;
+let master: GainNode | undefined;
+let muted = false;
+let currentLevel: Level | undefined; // The level sounds are played in, used to find walls between them and the listener.
+let listener: Entity | undefined; // Who is hearing the sounds, usually the player.
+let ambience: AudioBufferSourceNode | undefined;
+const voices: Voice[] = []; // Every positional sound that is currently playing, so that they can follow the listener as they move.
+
+// Creates a new Sound using the specified input
+function createSound(id: number, url: string, volume: number, loop: boolean): Sound {
+  return {
+    id,
+    url,
+    volume,
+    loop,
+    state: SoundState.UNLOADED
+  };
+}
+
+// Helper function to create a sound that is played once.
+export function createSoundBasic(id: number, url: string, volume: number = 1): Sound {
+  return createSound(id, url, volume, false);
+}
+
+// Helper function to create a sound that repeats until it is stopped.
+export function createSoundLoop(id: number, url: string, volume: number = 1): Sound {
+  return createSound(id, url, volume, true);
+}
+
+// Gets the specified sound by Id.
+export function getSoundById(id: number): Sound | undefined {
+  return sounds[id - 1];
+}
+
+// Gets the audio context, creating it the first time, or undefined if the browser has no WebAudio support.
+function getAudioContext(): AudioContext | undefined {
+  if (context === undefined && typeof AudioContext !== 'undefined') {
+    context = new AudioContext();
+    master = context.createGain();
+    master.gain.value = muted ? 0 : 1;
+    master.connect(context.destination);
+  }
+  return context;
+}
+
+// Resumes the audio, which browsers only allow in response to the player doing something, e.g. pressing a key.
+export function resumeAudio(): void {
+  const audio = getAudioContext();
+  if (audio !== undefined && audio.state === 'suspended') {
+    audio.resume();
+  }
+}
+
+// Mutes, or unmutes, every sound, returning whether they are now muted.
+export function toggleMute(): boolean {
+  muted = !muted;
+  if (master !== undefined) {
+    master.gain.value = muted ? 0 : 1;
+  }
+  return muted;
+}
+
+// Fetches and decodes the specified sound. Sounds that fail to load are reported and then never played, rather than stopping the level from loading.
+export async function loadSound(sound: Sound): Promise<Sound> {
+  const audio = getAudioContext();
+  if (audio === undefined || sound.state !== SoundState.UNLOADED) {
+    return sound;
+  }
+
+  sound.state = SoundState.LOADING;
+  try {
+    const response = await fetch(sound.url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch sound '${sound.url}': ${response.status} ${response.statusText}`);
+    }
+    sound.buffer = await audio.decodeAudioData(await response.arrayBuffer());
+    sound.state = SoundState.LOADED;
+  } catch (error) {
+    console.error(error);
+    sound.state = SoundState.ERROR;
+  }
+  return sound;
+}
+
+// Sets the level sounds are played in, and who is hearing them.
+export function setAudioListener(level: Level, entity: Entity): void {
+  currentLevel = level;
+  listener = entity;
+}
+
+// Gets how loud a sound at the specified position is for the listener, based on its distance from them and whether there is a wall between them.
+function getAttenuation(position: Vector): number {
+  if (currentLevel === undefined || listener === undefined) {
+    return 1;
+  }
+
+  const offset = vu.subtract(position, listener.position);
+  const distance = vu.distance(position, listener.position);
+  if (distance >= hearingDistance) {
+    return 0;
+  }
+  let retVal = 1 - distance / hearingDistance;
+
+  // The sound is muffled if the ray hits a wall before it reaches the sound, allowing for sounds made by the wall itself, e.g. a switch.
+  if (distance > 0.5) {
+    const result = castRay(currentLevel, listener.position, vu.normalise(offset), rayHitsSolid, Math.ceil(distance) + 1);
+    if (result !== undefined && result.distance < distance - 0.75) {
+      retVal *= occlusion;
+    }
+  }
+  return retVal * retVal;
+}
+
+// Gets how far to the right of the listener a sound at the specified position is, from -1 on their left to 1 on their right.
+function getPan(position: Vector): number {
+  if (listener === undefined || vu.distance(position, listener.position) < 0.01) {
+    return 0;
+  }
+  return vu.dot(vu.normalise(vu.subtract(position, listener.position)), vu.normalise(listener.camera));
+}
+
+// Updates how loud, and which side of the listener, the specified sound is.
+function updateVoice(voice: Voice): void {
+  voice.gain.gain.value = voice.sound.volume * getAttenuation(voice.position);
+  voice.panner.pan.value = getPan(voice.position);
+}
+
+// Plays the specified sound, either at a position in the level or, if no position is given, as if it were made by the listener. The rate changes the
+// speed and pitch, so that sounds that are played often do not all sound the same.
+export function playSound(id: number, position?: Vector, rate: number = 1): void {
+  const sound = getSoundById(id);
+  const audio = getAudioContext();
+  if (sound === undefined || sound.buffer === undefined || audio === undefined || master === undefined) {
+    return;
+  }
+
+  const source = audio.createBufferSource();
+  source.buffer = sound.buffer;
+  source.playbackRate.value = rate;
+  source.loop = sound.loop;
+  const gain = audio.createGain();
+  gain.gain.value = sound.volume;
+  const panner = audio.createStereoPanner();
+  source.connect(gain).connect(panner).connect(master);
+
+  if (position !== undefined) {
+    const voice: Voice = { sound, source, gain, panner, position };
+    updateVoice(voice);
+    voices.push(voice);
+    source.onended = (): void => {
+      voices.splice(voices.indexOf(voice), 1);
+    };
+  }
+  source.start();
+}
+
+// Plays the specified sound from the center of the specified cell, e.g. a door opening.
+export function playSoundAtCell(cell: Cell, id: number): void {
+  if (currentLevel === undefined) {
+    return;
+  }
+  for (let y = 0; y < currentLevel.data.length; y++) {
+    const x = currentLevel.data[y].indexOf(cell);
+    if (x >= 0) {
+      playSound(id, vu.create(x + 0.5, y + 0.5));
+      return;
+    }
+  }
+}
+
+// Loops the specified sound in the background, replacing the previous one, or stops it if no sound is given.
+export function playAmbience(id?: number): void {
+  if (ambience !== undefined) {
+    ambience.stop();
+    ambience = undefined;
+  }
+
+  const sound = id !== undefined ? getSoundById(id) : undefined;
+  const audio = getAudioContext();
+  if (sound === undefined || sound.buffer === undefined || audio === undefined || master === undefined) {
+    return;
+  }
+
+  ambience = audio.createBufferSource();
+  ambience.buffer = sound.buffer;
+  ambience.loop = true;
+  const gain = audio.createGain();
+  gain.gain.value = sound.volume;
+  ambience.connect(gain).connect(master);
+  ambience.start();
+}
+
+// Stops every sound, e.g. when leaving a level.
+export function stopSounds(): void {
+  playAmbience();
+  for (const voice of [...voices]) {
+    voice.source.stop();
+  }
+}
+
+// Updates every positional sound that is playing as the listener moves, which should be called every frame.
+export function updateAudio(): void {
+  voices.forEach(updateVoice);
+}
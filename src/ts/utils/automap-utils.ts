@@ -0,0 +1,186 @@
+import type { AutomapOptions } from '../interfaces/automap';
+import type { Cell } from '../interfaces/cell';
+import type { Entity } from '../interfaces/entity';
+import type { Level } from '../interfaces/level';
+import type { Rectangle } from '../interfaces/rectangle';
+import type { Vector } from '../interfaces/vector';
+
+import { CellType, Face } from '../enums.js';
+import { getTexture, isDoor, isInteractive, isSolid, isThin } from './cell-utils.js';
+import { isTextureLoaded } from './texture-utils.js';
+import * as vu from './vector-utils.js';
+
+// Marks the specified cell of the level as explored, so that it is drawn on the automap.
+export function markExplored(level: Level, x: number, y: number): void {
+  const width = level.data[0].length;
+  if (x < 0 || y < 0 || x >= width || y >= level.data.length) {
+    return;
+  }
+  if (level.explored === undefined) {
+    level.explored = new Uint8Array(width * level.data.length);
+  }
+  level.explored[y * width + x] = 1;
+}
+
+// Checks if the specified cell of the level has been explored.
+export function isExplored(level: Level, x: number, y: number): boolean {
+  return level.explored !== undefined && level.explored[y * level.data[0].length + x] === 1;
+}
+
+// Gets the index of every explored cell of the level, e.g. so that a render worker can send the cells it has seen back to the main thread.
+export function getExploredCells(level: Level): number[] {
+  const retVal: number[] = [];
+  if (level.explored !== undefined) {
+    level.explored.forEach((explored, index) => {
+      if (explored) {
+        retVal.push(index);
+      }
+    });
+  }
+  return retVal;
+}
+
+// Marks the cells with the specified indices as explored.
+export function setExploredCells(level: Level, cells: number[]): void {
+  const width = level.data[0].length;
+  for (const index of cells) {
+    markExplored(level, index % width, Math.floor(index / width));
+  }
+}
+
+// Gets the colour for the specified cell, so that anything the player can interact with stands out.
+function getCellColour(cell: Cell): string {
+  if (cell.type === CellType.EXIT) {
+    return '#2c2';
+  }
+  if (cell.type === CellType.ENTRANCE) {
+    return '#26e';
+  }
+  if (isDoor(cell)) {
+    return '#d82';
+  }
+  if (isInteractive(cell)) {
+    return '#2cd';
+  }
+  if (isSolid(cell)) {
+    return isThin(cell) ? '#666' : '#999';
+  }
+  return '#333';
+}
+
+// Converts an offset on the screen into an offset in cells on the automap, taking into account its zoom and rotation.
+export function getAutomapOffset(entity: Entity, options: AutomapOptions, x: number, y: number): Vector {
+  const offset = vu.scale(vu.create(x, y), 1 / options.zoom);
+  return options.rotate ? vu.rotate(offset, vu.angle(entity.direction) + Math.PI / 2) : offset;
+}
+
+// Converts a position on the screen, within the rectangle the automap is drawn in, into a position in the level.
+export function getAutomapPosition(entity: Entity, rect: Rectangle, options: AutomapOptions, x: number, y: number): Vector {
+  const offset = getAutomapOffset(entity, options, x - (rect.x + rect.width / 2), y - (rect.y + rect.height / 2));
+  return vu.add(vu.add(entity.position, options.pan), offset);
+}
+
+// Draws the explored parts of the level from above into the specified rectangle, centered on the entity, along with any active sprites and entities
+// within them.
+export function drawAutomap(context: CanvasRenderingContext2D, level: Level, entity: Entity, rect: Rectangle, options: AutomapOptions): void {
+  context.save();
+  context.beginPath();
+  context.rect(rect.x, rect.y, rect.width, rect.height);
+  context.clip();
+  context.fillStyle = 'rgba(0, 0, 0, 0.75)';
+  context.fillRect(rect.x, rect.y, rect.width, rect.height);
+
+  // Transform the context so that everything can be drawn in cells, with the entity at the center, facing up if the map rotates.
+  context.translate(rect.x + rect.width / 2, rect.y + rect.height / 2);
+  if (options.rotate) {
+    context.rotate(-vu.angle(entity.direction) - Math.PI / 2);
+  }
+  context.scale(options.zoom, options.zoom);
+  context.translate(-(entity.position.x + options.pan.x), -(entity.position.y + options.pan.y));
+
+  for (let y = 0; y < level.data.length; y++) {
+    for (let x = 0; x < level.data[y].length; x++) {
+      if (!isExplored(level, x, y)) {
+        continue;
+      }
+
+      // The top of a wall is its top face, whereas the floor of anything else is its bottom face.
+      const cell = level.data[y][x];
+      const texture = getTexture(cell, isSolid(cell) ? Face.TOP : Face.BOTTOM);
+      if (options.textures && texture !== undefined && isTextureLoaded(texture) && texture.canvas !== undefined) {
+        context.drawImage(texture.canvas, 0, 0, texture.width, texture.height, x, y, 1, 1);
+
+        // Outline anything that isn't a floor in its colour, so that walls, doors and switches can still be told apart.
+        if (cell.type !== CellType.FLOOR || isSolid(cell)) {
+          context.strokeStyle = getCellColour(cell);
+          context.lineWidth = 2 / options.zoom;
+          context.strokeRect(x + 1 / options.zoom, y + 1 / options.zoom, 1 - 2 / options.zoom, 1 - 2 / options.zoom);
+        }
+      } else {
+        context.fillStyle = getCellColour(cell);
+        context.fillRect(x, y, 1, 1);
+      }
+    }
+  }
+
+  // Draw the sprites, and the entities, that are in explored cells.
+  for (const [sprites, colour] of [
+    [level.sprites, '#fa0'],
+    [level.entities, '#af0']
+  ] as const) {
+    context.fillStyle = colour;
+    for (const sprite of sprites) {
+      if (sprite.active && isExplored(level, Math.floor(sprite.position.x), Math.floor(sprite.position.y))) {
+        context.beginPath();
+        context.arc(sprite.position.x, sprite.position.y, 0.15, 0, Math.PI * 2);
+        context.fill();
+      }
+    }
+  }
+
+  // Draw the route the entity is walking, if any, ending with a cross where it is going.
+  if (options.route !== undefined && options.route.length > 0) {
+    const end = options.route[options.route.length - 1];
+    context.strokeStyle = 'rgba(0, 255, 255, 0.75)';
+    context.lineWidth = 2 / options.zoom;
+    context.setLineDash([4 / options.zoom, 4 / options.zoom]);
+    context.beginPath();
+    context.moveTo(entity.position.x, entity.position.y);
+    for (const point of options.route) {
+      context.lineTo(point.x, point.y);
+    }
+    context.stroke();
+    context.setLineDash([]);
+    context.beginPath();
+    context.moveTo(end.x - 0.2, end.y - 0.2);
+    context.lineTo(end.x + 0.2, end.y + 0.2);
+    context.moveTo(end.x + 0.2, end.y - 0.2);
+    context.lineTo(end.x - 0.2, end.y + 0.2);
+    context.stroke();
+  }
+
+  // Draw the entity, along with its field of view.
+  const direction = vu.add(entity.position, entity.direction);
+  context.strokeStyle = 'yellow';
+  context.lineWidth = 2 / options.zoom;
+  context.beginPath();
+  context.moveTo(entity.position.x, entity.position.y);
+  context.lineTo(direction.x, direction.y);
+  context.stroke();
+
+  context.strokeStyle = 'rgba(255, 255, 0, 0.5)';
+  context.beginPath();
+  const left = vu.add(entity.position, vu.scale(vu.subtract(entity.direction, entity.camera), 2));
+  const right = vu.add(entity.position, vu.scale(vu.add(entity.direction, entity.camera), 2));
+  context.moveTo(left.x, left.y);
+  context.lineTo(entity.position.x, entity.position.y);
+  context.lineTo(right.x, right.y);
+  context.stroke();
+
+  context.fillStyle = 'yellow';
+  context.beginPath();
+  context.arc(entity.position.x, entity.position.y, 0.2, 0, Math.PI * 2);
+  context.fill();
+
+  context.restore();
+}
@@ -1,9 +1,28 @@
+import type { Canvas, Context2D } from '../types';
 import type { Vector } from '../interfaces/vector';
 import type { Rectangle } from '../interfaces/rectangle';
 import type { Texture } from '../interfaces/texture';
 
+// Creates a new canvas of the specified size, which is an offscreen canvas when running in a worker as they have no access to the document.
+export function createCanvas(width: number, height: number): Canvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+// Gets the 2D context for the specified canvas.
+// NOTE: Both types of canvas have the same getContext method, but TypeScript is unable to call it on the union of them, hence the cast.
+export function getContext(canvas: Canvas): Context2D {
+  return (canvas as OffscreenCanvas).getContext('2d') as Context2D;
+}
+
 // Draws a line of the specified colour on the target canvas.
-export function drawLine(context: CanvasRenderingContext2D, start: Vector, end: Vector, colour: string): void {
+export function drawLine(context: Context2D, start: Vector, end: Vector, colour: string): void {
   context.strokeStyle = colour;
   context.beginPath();
   context.moveTo(start.x, start.y);
@@ -11,41 +30,48 @@ export function drawLine(context: CanvasRenderingContext2D, start: Vector, end:
   context.stroke();
 }
 
-// Draws a rectangle of the specified tint on the target canvas.
-export function drawTint(context: CanvasRenderingContext2D, destination: Rectangle, tint: number): void {
-  let colour = Math.round(60 / tint);
-  colour = 60 - colour;
-  if (colour < 0) {
-    colour = 0;
-  }
-  tint = 1 - tint;
-  context.fillStyle = `rgba(${colour},${colour},${colour},${tint})`;
+// Darkens the specified rectangle on the target canvas, based on the amount of light, where 0 is pitch black and 1 is fully lit.
+export function drawShade(context: Context2D, destination: Rectangle, light: number): void {
+  context.fillStyle = `rgba(0,0,0,${1 - light})`;
   context.fillRect(destination.x, destination.y, destination.width, destination.height);
 }
 
-// Draws a gradient of the specified colours on the target canvas.
-export function drawGradient(context: CanvasRenderingContext2D, start: Vector, end: Vector, startColour: string, endColour: string): void {
-  const x = context.canvas.width / 2;
-  const gradient = context.createLinearGradient(x, start.y, x, end.y);
-  gradient.addColorStop(0, startColour);
-  gradient.addColorStop(1, endColour);
-  context.fillStyle = gradient;
-  context.fillRect(start.x, start.y, end.x, end.y);
+// Fills the specified rectangle on the target canvas with the specified colour, e.g. to fade it into fog.
+export function drawFill(context: Context2D, destination: Rectangle, colour: string): void {
+  context.fillStyle = colour;
+  context.fillRect(destination.x, destination.y, destination.width, destination.height);
 }
 
 // Draws the specified texture at the specified location on the target canvas.
-export function drawTexture(context: CanvasRenderingContext2D, canvas: HTMLCanvasElement, source: Rectangle, destination: Rectangle): void {
-  context.drawImage(canvas as HTMLCanvasElement, source.x, source.y, source.width, source.height, destination.x, destination.y, destination.width, destination.height);
+export function drawTexture(context: Context2D, canvas: Canvas, source: Rectangle, destination: Rectangle): void {
+  context.drawImage(canvas as Canvas, source.x, source.y, source.width, source.height, destination.x, destination.y, destination.width, destination.height);
 }
 
-// Draws the specified texture as a Skybox at the specified location on the target canvas.
-export function drawSkybox(context: CanvasRenderingContext2D, start: Vector, end: Vector, texturePositionX: number, texture: Texture): void {
-  // FIXME: height should not be hardcoded here!
-  const wallHeight = end.y - start.y;
-  context.drawImage(texture.canvas as HTMLCanvasElement, texturePositionX, 0, 1, (wallHeight / context.canvas.height) * texture.height, start.x, start.y, 1, wallHeight);
+// Draws a single column of the specified texture as a cylindrical Skybox at the specified location on the target canvas. The texture covers one
+// viewport height above the horizon, and the bottom row of the texture is stretched to cover anything below it.
+export function drawSkybox(context: Context2D, destination: Rectangle, texturePositionX: number, horizon: number, texture: Texture): void {
+  const height = context.canvas.height;
+  const top = destination.y;
+  const bottom = destination.y + destination.height;
+
+  // Draw the part of the column that is above the horizon.
+  const skyBottom = Math.min(bottom, horizon);
+  if (skyBottom > top) {
+    const sourceTop = Math.max(0, (top - horizon) / height + 1) * texture.height;
+    const sourceBottom = Math.max(0, (skyBottom - horizon) / height + 1) * texture.height;
+    if (sourceBottom > sourceTop) {
+      context.drawImage(texture.canvas as Canvas, texturePositionX, sourceTop, 1, sourceBottom - sourceTop, destination.x, top, destination.width, skyBottom - top);
+    }
+  }
+
+  // Draw the part of the column that is below the horizon.
+  const groundTop = Math.max(top, horizon);
+  if (bottom > groundTop) {
+    context.drawImage(texture.canvas as Canvas, texturePositionX, texture.height - 1, 1, 1, destination.x, groundTop, destination.width, bottom - groundTop);
+  }
 }
 
-export function drawBorderRectangle(context: CanvasRenderingContext2D, destination: Rectangle, colour: string = 'white'): void {
+export function drawBorderRectangle(context: Context2D, destination: Rectangle, colour: string = 'white'): void {
   context.save();
   context.strokeStyle = colour;
   context.lineWidth = 1;
@@ -1,22 +1,26 @@
 import { Activator } from '../interfaces/activator';
-import { Cell, DoorCell } from '../interfaces/cell';
+import { Cell, DoorCell, Lock } from '../interfaces/cell';
 
 import { CellProperties, CellType, DoorState, Face } from '../enums.js';
 import { getTextureById } from './texture-utils.js';
 import { Texture } from '../interfaces/texture.js';
-import { activatorIncrement, activatorToggle, activatorDoor } from './activator-utils.js';
+import { activatorIncrement, activatorToggle, activatorDoor, activatorLight } from './activator-utils.js';
+import { createLight } from './light-utils.js';
 
 let id = 0;
 
 // Generic function to create a Cell.
-function createCell(type: CellType, textureIds: number[], properties: number = 0): Cell {
+function createCell(type: CellType, textureIds: number[], properties: number = 0, floorHeight: number = 0, ceilingHeight: number = 1): Cell {
   return {
     id: `cell-${id++}`,
     type,
     textureIds,
     properties,
     activators: [],
-    state: 0
+    state: 0,
+    floorHeight,
+    ceilingHeight,
+    light: 0
   };
 }
 
@@ -47,6 +51,11 @@ export function isBlocked(cell: Cell): number {
   return retVal;
 }
 
+// Utility function to determine if the specified cell can still be destroyed.
+export function isDestructible(cell: Cell): boolean {
+  return cell.health !== undefined && cell.health > 0;
+}
+
 // Utility function to determine if the specified cell is solid.
 export function isInteractive(cell: Cell): number {
   return cellHasProperty(cell, CellProperties.INTERACTIVE);
@@ -57,7 +66,22 @@ export function isThin(cell: Cell): number {
   return cellHasProperty(cell, CellProperties.THIN);
 }
 
-// Utility function to determine if the specified cell is thin.
+// Utility function to determine if the specified cell can be seen through, e.g. a window or a grate.
+export function isTransparent(cell: Cell): number {
+  return cellHasProperty(cell, CellProperties.TRANSPARENT);
+}
+
+// Utility function to get the height of the floor of the specified cell, or ground level if there is no cell.
+export function getFloorHeight(cell: Cell | undefined): number {
+  return cell !== undefined ? cell.floorHeight : 0;
+}
+
+// Utility function to get the height of the ceiling of the specified cell, or a single storey if there is no cell.
+export function getCeilingHeight(cell: Cell | undefined): number {
+  return cell !== undefined ? cell.ceilingHeight : 1;
+}
+
+// Utility function to determine if the specified cell is a door.
 export function isDoor(cell: Cell): boolean {
   return cell.type === CellType.DOOR;
 }
@@ -67,26 +91,33 @@ export function getTexture(cell: Cell, face: Face = Face.NORTH): Texture {
   return getTextureById(cell.textureIds[face]);
 }
 
-// Utility function to create a FLOOR Cell.
-export function createSimpleFloor(textureId: number): Cell {
+// Utility function to create a FLOOR Cell, optionally raised or lowered, e.g. a platform or a pit.
+export function createSimpleFloor(textureId: number, floorHeight: number = 0, ceilingHeight: number = 1): Cell {
   const textureIds = new Array(6).fill(textureId);
-  return createCell(CellType.FLOOR, textureIds);
+  return createCell(CellType.FLOOR, textureIds, CellProperties.NONE, floorHeight, ceilingHeight);
 }
 
-// Utility function to create a FLOOR Cell.
-export function createFloor(textureIds: number[]): Cell {
-  return createCell(CellType.FLOOR, textureIds);
+// Utility function to create a FLOOR Cell, optionally raised or lowered, e.g. a platform or a pit.
+export function createFloor(textureIds: number[], floorHeight: number = 0, ceilingHeight: number = 1): Cell {
+  return createCell(CellType.FLOOR, textureIds, CellProperties.NONE, floorHeight, ceilingHeight);
 }
 
-// Utility function to create a WALL Cell.
-export function createWall(textureIds: number[]): Cell {
-  return createCell(CellType.WALL, textureIds, CellProperties.SOLID);
+// Utility function to create a WALL Cell, optionally shorter or taller than a single storey.
+export function createWall(textureIds: number[], height: number = 1): Cell {
+  return createCell(CellType.WALL, textureIds, CellProperties.SOLID, 0, height);
 }
 
 // Utility function to create a simple WALL Cell with all faces the same texture.
-export function createSimpleWall(textureId: number): Cell {
+export function createSimpleWall(textureId: number, height: number = 1): Cell {
   const textureIds = new Array(6).fill(textureId);
-  return createWall(textureIds);
+  return createWall(textureIds, height);
+}
+
+// Utility function to create a WALL Cell that crumbles once it has taken the specified damage, leaving a floor with the specified texture.
+export function createDestructibleWall(textureId: number, floorTextureId: number, health: number = 50): Cell {
+  const cell = createCell(CellType.WALL, [textureId, textureId, textureId, textureId, floorTextureId, floorTextureId], CellProperties.SOLID);
+  cell.health = health;
+  return cell;
 }
 
 // Utility function to create an Invisible WALL Cell.
@@ -101,6 +132,12 @@ export function createThinWall(textureId: number): Cell {
   return createCell(CellType.WALL, textureIds, CellProperties.SOLID | CellProperties.THIN);
 }
 
+// Utility function to create a Thin Wall that can be seen through, e.g. a window, fence or grate.
+export function createThinWallTransparent(textureId: number): Cell {
+  const textureIds = new Array(6).fill(textureId);
+  return createCell(CellType.WALL, textureIds, CellProperties.SOLID | CellProperties.THIN | CellProperties.TRANSPARENT);
+}
+
 // Utility function to create a Door.
 export function createDoor(textureId: number, speed: number = 1): DoorCell {
   const textureIds = new Array(6).fill(textureId);
@@ -115,6 +152,13 @@ export function createDoor(textureId: number, speed: number = 1): DoorCell {
   return door;
 }
 
+// Utility function to create a Door that can be seen through, e.g. a portcullis.
+export function createDoorTransparent(textureId: number, speed: number = 1): DoorCell {
+  const door = createDoor(textureId, speed);
+  door.properties |= CellProperties.TRANSPARENT;
+  return door;
+}
+
 // Utility function to create an ENTRANCE Cell.
 export function createEntrance(textureId: number): Cell {
   const textureIds = new Array(6).fill(textureId);
@@ -150,6 +194,46 @@ export function createSimpleSwitchCycler(textureId: number): Cell {
   return cell;
 }
 
+// Utility function to create a Lamp, i.e. a wall with a light attached that can be switched on and off.
+export function createLamp(textureId: number, radius: number = 3, intensity: number = 1, flicker: number = 0): Cell {
+  const textureIds = new Array(6).fill(textureId);
+  const cell = createCell(CellType.WALL, textureIds, CellProperties.SOLID | CellProperties.INTERACTIVE);
+  cell.lamp = createLight(0, 0, radius, intensity, flicker);
+  cell.state = 1;
+  cell.activators.push(activatorLight);
+  cell.activators.push(activatorToggle);
+  return cell;
+}
+
+// Utility function to lock the specified door, or switch, until the player meets the requirements of the lock, e.g. carries a key.
+export function setLock(cell: Cell, lock: Lock): Cell {
+  cell.lock = lock;
+  return cell;
+}
+
+// Utility function to make the specified CELL set a flag whilst its state is not 0, e.g. a switch that unlocks a door.
+export function setFlag(cell: Cell, flag: string): Cell {
+  cell.flag = flag;
+  return cell;
+}
+
+// Utility function to make the specified DOOR close by itself once it has been open, with nothing in the doorway, for the specified time.
+export function setAutoClose(door: DoorCell, time: number): DoorCell {
+  door.autoClose = time;
+  return door;
+}
+
+// Checks if the specified cell has a lock that is still needed, i.e. whose item has not been used up.
+export function isLocked(cell: Cell): boolean {
+  return cell.lock !== undefined && !cell.lock.unlocked;
+}
+
+// Utility function to set the amount of light in the specified CELL, e.g. to light a room brighter than the rest of the level.
+export function setLight(cell: Cell, light: number): Cell {
+  cell.light = light;
+  return cell;
+}
+
 // Utility function to determine if a CELL has an Activators
 export function hasActivators(cell: Cell): boolean {
   return cell.activators.length > 0;
@@ -1,5 +1,11 @@
 import { Circle } from '../interfaces/circle';
 import { Rectangle } from '../interfaces/rectangle';
+import { Cell, DoorCell } from '../interfaces/cell';
+import { Level } from '../interfaces/level';
+import { Vector } from '../interfaces/vector';
+
+import { isDoor, isSolid, isThin } from './cell-utils.js';
+import { getCell } from './level-utils.js';
 
 export function checkEntityCollision(a: Circle, b: Circle): boolean {
   let retVal = false;
@@ -13,33 +19,69 @@ export function checkEntityCollision(a: Circle, b: Circle): boolean {
   return retVal;
 }
 
-export function checkEntityWithCell(entity: Circle, rectangle: Rectangle): boolean {
+// Gets how far along a ray, from the specified origin in the specified normalised direction, it first touches the circle, or undefined if it misses.
+export function getRayCircleDistance(origin: Vector, direction: Vector, circle: Circle): number | undefined {
+  const dx = circle.position.x - origin.x;
+  const dy = circle.position.y - origin.y;
+  const along = dx * direction.x + dy * direction.y;
+  const across = dx * dx + dy * dy - along * along;
+  const radius = circle.radius * circle.radius;
+  if (along < 0 || across > radius) {
+    return undefined;
+  }
+  return Math.max(along - Math.sqrt(radius - across), 0);
+}
+
+// Gets the distance from the specified position to the nearest point of the rectangle, which is 0 if the position is inside it.
+export function getDistanceToRectangle(position: Vector, rectangle: Rectangle): number {
   // Temporary variables to set edges for testing
-  let testX = entity.position.x;
-  let testY = entity.position.y;
+  let testX = position.x;
+  let testY = position.y;
 
   // Calculate which side is closest on the X axis.
-  if (entity.position.x < rectangle.x) {
+  if (position.x < rectangle.x) {
     testX = rectangle.x;
-  } else if (entity.position.x > rectangle.x + rectangle.width) {
+  } else if (position.x > rectangle.x + rectangle.width) {
     testX = rectangle.x + rectangle.width;
   }
 
   // Calculate which side is closest on the Y axis.
-  if (entity.position.y < rectangle.y) {
+  if (position.y < rectangle.y) {
     testY = rectangle.y;
-  } else if (entity.position.y > rectangle.y + rectangle.height) {
+  } else if (position.y > rectangle.y + rectangle.height) {
     testY = rectangle.y + rectangle.height;
   }
 
   // get distance from closest edges
-  const distX = entity.position.x - testX;
-  const distY = entity.position.y - testY;
-  const distance = Math.sqrt(distX * distX + distY * distY);
+  const distX = position.x - testX;
+  const distY = position.y - testY;
+  return Math.sqrt(distX * distX + distY * distY);
+}
 
+export function checkEntityWithCell(entity: Circle, rectangle: Rectangle): boolean {
   // if the distance is less than the entity.radius, collision!
-  if (distance <= entity.radius) {
+  if (getDistanceToRectangle(entity.position, rectangle) <= entity.radius) {
     return true;
   }
   return false;
 }
+
+// Checks if an entity can pass through the specified cell, where thin walls are passable as they only fill part of it.
+function isPassable(cell: Cell | undefined): boolean {
+  return cell !== undefined && (!isSolid(cell) || isThin(cell) > 0);
+}
+
+// Gets the part of the specified cell that entities collide with. Thin walls, and doors, sit along the center line of their cell across the passage
+// they are in, so that they line up with where they are drawn, and doors only fill the part of that line that is still closed.
+export function getCellBounds(level: Level, x: number, y: number): Rectangle {
+  const cell = getCell(level, x, y);
+  if (cell === undefined || !isThin(cell)) {
+    return { x, y, width: 1, height: 1 };
+  }
+
+  const closed = isDoor(cell) ? (cell as DoorCell).percent / 100 : 1;
+  if (isPassable(getCell(level, x - 1, y)) && isPassable(getCell(level, x + 1, y))) {
+    return { x: x + 0.5, y, width: 0, height: closed };
+  }
+  return { x, y: y + 0.5, width: closed, height: 0 };
+}
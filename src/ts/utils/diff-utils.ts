@@ -0,0 +1,302 @@
+import type { DoorCell } from '../interfaces/cell';
+import type { CellDiff, EffectDiff, EnemyDiff, LevelDiff, SpriteDiff } from '../interfaces/diff';
+import type { Level } from '../interfaces/level';
+import type { Sprite } from '../interfaces/sprite';
+
+import { isDoor } from './cell-utils.js';
+import { getEffects } from './sprite-utils.js';
+
+// The state of each Cell, Sprite, Entity, Enemy and effect when the last diff was taken, so that the next diff only includes those that have changed
+// since.
+let cells: string[] = [];
+let sprites: string[] = [];
+let entities: string[] = [];
+let enemies: string[] = [];
+let effects: string[] = [];
+
+// Gets the current state of the specified Cell.
+function getCellDiff(level: Level, x: number, y: number): CellDiff {
+  const cell = level.data[y][x];
+  const retVal: CellDiff = {
+    x,
+    y,
+    state: cell.state,
+    properties: cell.properties,
+    light: cell.light
+  };
+
+  if (isDoor(cell)) {
+    retVal.status = (cell as DoorCell).status;
+    retVal.percent = (cell as DoorCell).percent;
+  }
+
+  return retVal;
+}
+
+// Gets the current state of the specified Sprite, or Entity.
+function getSpriteDiff(sprites: Sprite[], index: number): SpriteDiff {
+  const sprite = sprites[index];
+  return {
+    index,
+    active: sprite.active,
+    x: sprite.position.x,
+    y: sprite.position.y
+  };
+}
+
+// Gets the current state of the sprite of the specified Enemy.
+function getEnemyDiff(level: Level, index: number): EnemyDiff {
+  const sprite = (level.enemies || [])[index].sprite;
+  return {
+    index,
+    active: sprite.active,
+    x: sprite.position.x,
+    y: sprite.position.y,
+    angle: sprite.angle || 0,
+    textureId: sprite.textureId
+  };
+}
+
+// Gets the current state of the specified effect Sprite.
+function getEffectDiff(level: Level, index: number): EffectDiff {
+  const sprite = getEffects(level)[index];
+  return {
+    index,
+    active: sprite.active,
+    x: sprite.position.x,
+    y: sprite.position.y,
+    textureId: sprite.textureId,
+    scale: sprite.scale,
+    properties: sprite.properties
+  };
+}
+
+// Forgets the state from the last diff, so that the next diff includes every Cell, Sprite, Entity, Enemy and effect, e.g. when the level changes.
+export function resetLevelDiff(): void {
+  cells = [];
+  sprites = [];
+  entities = [];
+  enemies = [];
+  effects = [];
+}
+
+// Gets the changes to the specified level since the last diff was taken.
+export function getLevelDiff(level: Level): LevelDiff {
+  const retVal: LevelDiff = {
+    cells: [],
+    sprites: [],
+    entities: [],
+    enemies: [],
+    effects: [],
+    lights: (level.lights || []).map((light) => light.brightness)
+  };
+
+  let index = 0;
+  for (let y = 0; y < level.data.length; y++) {
+    for (let x = 0; x < level.data[y].length; x++) {
+      const diff = getCellDiff(level, x, y);
+      const key = JSON.stringify(diff);
+      if (cells[index] !== key) {
+        cells[index] = key;
+        retVal.cells.push(diff);
+      }
+      index++;
+    }
+  }
+
+  for (let i = 0; i < level.sprites.length; i++) {
+    const diff = getSpriteDiff(level.sprites, i);
+    const key = JSON.stringify(diff);
+    if (sprites[i] !== key) {
+      sprites[i] = key;
+      retVal.sprites.push(diff);
+    }
+  }
+
+  for (let i = 0; i < level.entities.length; i++) {
+    const diff = getSpriteDiff(level.entities, i);
+    const key = JSON.stringify(diff);
+    if (entities[i] !== key) {
+      entities[i] = key;
+      retVal.entities.push(diff);
+    }
+  }
+
+  for (let i = 0; i < (level.enemies || []).length; i++) {
+    const diff = getEnemyDiff(level, i);
+    const key = JSON.stringify(diff);
+    if (enemies[i] !== key) {
+      enemies[i] = key;
+      retVal.enemies.push(diff);
+    }
+  }
+
+  for (let i = 0; i < getEffects(level).length; i++) {
+    const diff = getEffectDiff(level, i);
+    const key = JSON.stringify(diff);
+    if (effects[i] !== key) {
+      effects[i] = key;
+      retVal.effects.push(diff);
+    }
+  }
+
+  return retVal;
+}
+
+// Applies the specified changes to the specified level.
+export function applyLevelDiff(level: Level, diff: LevelDiff): void {
+  for (const change of diff.cells) {
+    const cell = level.data[change.y][change.x];
+    cell.state = change.state;
+    cell.properties = change.properties;
+    cell.light = change.light;
+
+    if (isDoor(cell) && change.status !== undefined && change.percent !== undefined) {
+      (cell as DoorCell).status = change.status;
+      (cell as DoorCell).percent = change.percent;
+    }
+  }
+
+  // NOTE: The position is updated in place, as it is shared with any light attached to the sprite.
+  for (const change of diff.sprites) {
+    const sprite = level.sprites[change.index];
+    sprite.active = change.active;
+    sprite.position.x = change.x;
+    sprite.position.y = change.y;
+  }
+
+  for (const change of diff.entities) {
+    const sprite = level.entities[change.index];
+    sprite.active = change.active;
+    sprite.position.x = change.x;
+    sprite.position.y = change.y;
+  }
+
+  for (const change of diff.enemies) {
+    const sprite = (level.enemies || [])[change.index].sprite;
+    sprite.active = change.active;
+    sprite.position.x = change.x;
+    sprite.position.y = change.y;
+    sprite.angle = change.angle;
+    sprite.textureId = change.textureId;
+  }
+
+  for (const change of diff.effects) {
+    const sprite = getEffects(level)[change.index];
+    sprite.active = change.active;
+    sprite.position.x = change.x;
+    sprite.position.y = change.y;
+    sprite.textureId = change.textureId;
+    sprite.scale = change.scale;
+    sprite.properties = change.properties;
+  }
+
+  const lights = level.lights || [];
+  for (let i = 0; i < lights.length && i < diff.lights.length; i++) {
+    lights[i].brightness = diff.lights[i];
+  }
+}
+
+// The number of values stored for each Cell, Sprite or Entity, Enemy and effect in the shared level state.
+const cellStride = 5;
+const spriteStride = 3;
+const enemyStride = 5;
+const effectStride = 6;
+
+// Creates a buffer large enough to store the state of every Cell, Sprite, Entity, Enemy, effect and Light in the specified level. As it is backed by a
+// SharedArrayBuffer, it can be shared with workers so that they see any changes without them having to be sent each frame.
+export function createLevelState(level: Level): Float64Array {
+  const size =
+    level.data.length * level.data[0].length * cellStride + (level.sprites.length + level.entities.length) * spriteStride + (level.enemies || []).length * enemyStride + getEffects(level).length * effectStride + (level.lights || []).length;
+  return new Float64Array(new SharedArrayBuffer(size * Float64Array.BYTES_PER_ELEMENT));
+}
+
+// Writes the current state of the specified level to the shared level state.
+export function writeLevelState(level: Level, state: Float64Array): void {
+  let offset = 0;
+  for (let y = 0; y < level.data.length; y++) {
+    for (let x = 0; x < level.data[y].length; x++) {
+      const cell = level.data[y][x];
+      state[offset++] = cell.state;
+      state[offset++] = cell.properties;
+      state[offset++] = cell.light;
+      state[offset++] = isDoor(cell) ? (cell as DoorCell).status : 0;
+      state[offset++] = isDoor(cell) ? (cell as DoorCell).percent : 0;
+    }
+  }
+
+  for (const sprite of [...level.sprites, ...level.entities]) {
+    state[offset++] = sprite.active ? 1 : 0;
+    state[offset++] = sprite.position.x;
+    state[offset++] = sprite.position.y;
+  }
+
+  for (const { sprite } of level.enemies || []) {
+    state[offset++] = sprite.active ? 1 : 0;
+    state[offset++] = sprite.position.x;
+    state[offset++] = sprite.position.y;
+    state[offset++] = sprite.angle || 0;
+    state[offset++] = sprite.textureId;
+  }
+
+  for (const sprite of getEffects(level)) {
+    state[offset++] = sprite.active ? 1 : 0;
+    state[offset++] = sprite.position.x;
+    state[offset++] = sprite.position.y;
+    state[offset++] = sprite.textureId;
+    state[offset++] = sprite.scale;
+    state[offset++] = sprite.properties;
+  }
+
+  for (const light of level.lights || []) {
+    state[offset++] = light.brightness;
+  }
+}
+
+// Reads the state of the specified level from the shared level state.
+// NOTE: The main thread may be writing to the state at the same time, in which case a frame may see a mix of two updates, which is harmless.
+export function readLevelState(level: Level, state: Float64Array): void {
+  let offset = 0;
+  for (let y = 0; y < level.data.length; y++) {
+    for (let x = 0; x < level.data[y].length; x++) {
+      const cell = level.data[y][x];
+      cell.state = state[offset++];
+      cell.properties = state[offset++];
+      cell.light = state[offset++];
+      if (isDoor(cell)) {
+        (cell as DoorCell).status = state[offset++];
+        (cell as DoorCell).percent = state[offset++];
+      } else {
+        offset += 2;
+      }
+    }
+  }
+
+  // NOTE: The position is updated in place, as it is shared with any light attached to the sprite.
+  for (const sprite of [...level.sprites, ...level.entities]) {
+    sprite.active = state[offset++] === 1;
+    sprite.position.x = state[offset++];
+    sprite.position.y = state[offset++];
+  }
+
+  for (const { sprite } of level.enemies || []) {
+    sprite.active = state[offset++] === 1;
+    sprite.position.x = state[offset++];
+    sprite.position.y = state[offset++];
+    sprite.angle = state[offset++];
+    sprite.textureId = state[offset++];
+  }
+
+  for (const sprite of getEffects(level)) {
+    sprite.active = state[offset++] === 1;
+    sprite.position.x = state[offset++];
+    sprite.position.y = state[offset++];
+    sprite.textureId = state[offset++];
+    sprite.scale = state[offset++];
+    sprite.properties = state[offset++];
+  }
+
+  for (const light of level.lights || []) {
+    light.brightness = state[offset++];
+  }
+}
@@ -0,0 +1,51 @@
+import type { Actor } from '../interfaces/actor';
+import type { EnemyType } from '../interfaces/enemy';
+import type { Level } from '../interfaces/level';
+import type { Vector } from '../interfaces/vector';
+
+import { enemyTypes } from '../data/enemies/enemies.js';
+import { Enemy } from '../objects/enemy.js';
+import * as vu from './vector-utils.js';
+
+// Gets the specified type of enemy by Id.
+export function getEnemyTypeById(id: number): EnemyType | undefined {
+  return enemyTypes[id - 1];
+}
+
+// Creates a new enemy of the specified type, facing the specified angle in degrees, which walks between the patrol points until it is alerted.
+export function createEnemy(typeId: number, x: number, y: number, angle: number = 0, patrol: Vector[] = []): Enemy {
+  const type = getEnemyTypeById(typeId);
+  if (type === undefined) {
+    throw new Error(`Unknown enemy type ${typeId}`);
+  }
+  return new Enemy(
+    type,
+    x,
+    y,
+    angle,
+    patrol.map((point) => vu.create(point.x, point.y))
+  );
+}
+
+// Lets every enemy in the level decide what to do next, and then do it.
+export function updateEnemies(level: Level, player: Actor, elapsed: number): void {
+  for (const enemy of level.enemies || []) {
+    enemy.think(level, player, elapsed);
+  }
+}
+
+// Alerts every enemy that can hear a noise at the specified position, where the loudness scales how far away they can hear it from.
+export function alertEnemies(level: Level, position: Vector, loudness: number = 1): void {
+  for (const enemy of level.enemies || []) {
+    if (vu.distance(position, enemy.position) <= enemy.type.hearingRadius * loudness) {
+      enemy.hear(position);
+    }
+  }
+}
+
+// Puts every enemy in the level back where it started, e.g. when the player dies and the level is restarted.
+export function resetEnemies(level: Level): void {
+  for (const enemy of level.enemies || []) {
+    enemy.reset();
+  }
+}
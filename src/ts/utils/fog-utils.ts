@@ -0,0 +1,54 @@
+import type { Colour } from '../interfaces/colour';
+import type { Fog } from '../interfaces/fog';
+import type { Level } from '../interfaces/level';
+
+import { FogFalloff } from '../enums.js';
+
+// The fog used by levels that do not define their own, which gently fades surfaces to black with distance.
+const defaultFog: Fog = createFog({ r: 0, g: 0, b: 0 }, 1.5, 16, FogFalloff.EXPONENTIAL);
+
+// Creates a new Fog definition.
+export function createFog(colour: Colour, start: number, end: number, falloff: FogFalloff = FogFalloff.LINEAR): Fog {
+  return {
+    colour,
+    start,
+    end,
+    falloff
+  };
+}
+
+// Gets the fog for the specified level.
+export function getFog(level: Level): Fog {
+  return level.fog !== undefined ? level.fog : defaultFog;
+}
+
+// Gets the amount of fog at the specified distance, where 0 is clear and 1 is completely obscured by the fog.
+export function getFogAmount(fog: Fog, distance: number): number {
+  if (distance <= fog.start) {
+    return 0;
+  }
+
+  if (distance >= fog.end) {
+    return 1;
+  }
+
+  // How far through the fog the distance is, from 0 at the start to 1 at the end.
+  const depth = (distance - fog.start) / (fog.end - fog.start);
+
+  // The exponential curves are scaled so that they are almost, but not quite, opaque at the end, hence clamp them to finish at 1.
+  switch (fog.falloff) {
+    case FogFalloff.EXPONENTIAL:
+      return Math.min(1, (1 - Math.exp(-4 * depth)) / (1 - Math.exp(-4)));
+
+    case FogFalloff.EXPONENTIAL_SQUARED:
+      return Math.min(1, (1 - Math.exp(-4 * depth * depth)) / (1 - Math.exp(-4)));
+
+    default:
+      return depth;
+  }
+}
+
+// Gets the CSS colour string for the specified fog, at the specified amount.
+export function getFogStyle(fog: Fog, amount: number): string {
+  return `rgba(${fog.colour.r},${fog.colour.g},${fog.colour.b},${amount.toFixed(2)})`;
+}
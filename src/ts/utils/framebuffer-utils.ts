@@ -0,0 +1,79 @@
+import type { Context2D } from '../types';
+import type { Colour } from '../interfaces/colour';
+import type { Framebuffer } from '../interfaces/framebuffer';
+import type { Rectangle } from '../interfaces/rectangle';
+import type { Texture } from '../interfaces/texture';
+
+// Creates a new Framebuffer, of the same size as the specified canvas.
+export function createFramebuffer(context: Context2D): Framebuffer {
+  const image = context.createImageData(context.canvas.width, context.canvas.height);
+  return {
+    width: image.width,
+    height: image.height,
+    image,
+    pixels: new Uint32Array(image.data.buffer)
+  };
+}
+
+// Clears every pixel in the specified Framebuffer to transparent black.
+export function clearFramebuffer(framebuffer: Framebuffer): void {
+  framebuffer.pixels.fill(0);
+}
+
+// Copies the columns between start and end of the specified Framebuffer to the target canvas.
+export function presentFramebuffer(context: Context2D, framebuffer: Framebuffer, start = 0, end = framebuffer.width): void {
+  context.putImageData(framebuffer.image, 0, 0, start, 0, end - start, framebuffer.height);
+}
+
+// Packs the RGB values of the texel at the specified offset into a single pixel, darkening it based on the amount of light falling on it and fading it
+// into the fog based on the amount of fog in front of it.
+// NOTE: Assumes a little-endian platform, which is the case for all the major browsers, hence the channels are packed in ABGR order.
+export function shadePixel(texels: Uint8ClampedArray, offset: number, light: number, fog: Colour, fogAmount: number): number {
+  const shade = light * (1 - fogAmount);
+  const r = texels[offset] * shade + fog.r * fogAmount;
+  const g = texels[offset + 1] * shade + fog.g * fogAmount;
+  const b = texels[offset + 2] * shade + fog.b * fogAmount;
+  return (255 << 24) | (b << 16) | (g << 8) | r;
+}
+
+// Draws a single column of the specified texture at the specified location in the Framebuffer, skipping any texels that are fully transparent.
+// NOTE: Only the X coordinate and height of the source, and the X and Y coordinates and height of the destination, are used.
+export function drawTextureColumn(framebuffer: Framebuffer, texture: Texture, source: Rectangle, destination: Rectangle, light: number, fog: Colour, fogAmount: number): void {
+  const texels = texture.buffer as Uint8ClampedArray;
+  const column = Math.floor(destination.x);
+  if (column < 0 || column >= framebuffer.width) {
+    return;
+  }
+
+  // Clip the column to the rows of the Framebuffer.
+  const start = Math.max(Math.round(destination.y), 0);
+  const end = Math.min(Math.round(destination.y + destination.height), framebuffer.height);
+  const u = Math.floor(source.x);
+
+  for (let y = start; y < end; y++) {
+    // Calculate the row of the texture that maps to this row of the destination.
+    const v = Math.min(Math.floor(source.y + ((y + 0.5 - destination.y) / destination.height) * source.height), texture.imageHeight - 1);
+    const offset = 4 * (u + v * texture.imageWidth);
+    if (texels[offset + 3] === 0) {
+      continue;
+    }
+    framebuffer.pixels[column + y * framebuffer.width] = shadePixel(texels, offset, light, fog, fogAmount);
+  }
+}
+
+// Draws a single column of the specified texture as a cylindrical Skybox at the specified location in the Framebuffer, in the same way as drawSkybox.
+export function drawSkyboxColumn(framebuffer: Framebuffer, destination: Rectangle, texturePositionX: number, horizon: number, texture: Texture): void {
+  const texels = texture.buffer as Uint8ClampedArray;
+  const height = framebuffer.height;
+  const none: Colour = { r: 0, g: 0, b: 0 };
+
+  for (let y = destination.y; y < destination.y + destination.height; y++) {
+    // Above the horizon the texture covers one viewport height, and below it the bottom row of the texture is stretched.
+    let v = texture.height - 1;
+    if (y < horizon) {
+      v = Math.min(Math.floor(Math.max(0, (y + 0.5 - horizon) / height + 1) * texture.height), texture.height - 1);
+    }
+    const offset = 4 * (texturePositionX + v * texture.imageWidth);
+    framebuffer.pixels[destination.x + y * framebuffer.width] = shadePixel(texels, offset, 1, none, 0);
+  }
+}
@@ -0,0 +1,252 @@
+import { Action } from '../enums.js';
+
+type ActionName = keyof typeof Action;
+
+// The inputs bound to each action by default. Keys are named after their KeyboardEvent code, e.g. KeyW, the mouse buttons are Mouse0 to Mouse4 and
+// moving the mouse whilst it is locked to the canvas is MouseX- to MouseY+. The buttons of a gamepad are Gamepad0 to Gamepad16, and its sticks are
+// GamepadAxis0- to GamepadAxis3+, following the standard gamepad layout. On touch screens the sticks are TouchMoveX- to TouchTurnY+, the button is
+// TouchInteract and TouchFire, and swiping is SwipeX- to SwipeY+.
+const defaultBindings: Record<ActionName, string[]> = {
+  FORWARD: ['KeyW', 'GamepadAxis1-', 'Gamepad12', 'TouchMoveY-'],
+  BACK: ['KeyS', 'GamepadAxis1+', 'Gamepad13', 'TouchMoveY+'],
+  STRAFE_LEFT: ['Comma', 'GamepadAxis0-', 'TouchMoveX-'],
+  STRAFE_RIGHT: ['Period', 'GamepadAxis0+', 'TouchMoveX+'],
+  TURN_LEFT: ['KeyA', 'ArrowLeft', 'MouseX-', 'GamepadAxis2-', 'Gamepad14', 'TouchTurnX-', 'SwipeX-'],
+  TURN_RIGHT: ['KeyD', 'ArrowRight', 'MouseX+', 'GamepadAxis2+', 'Gamepad15', 'TouchTurnX+', 'SwipeX+'],
+  LOOK_UP: ['ArrowUp', 'MouseY-', 'GamepadAxis3-', 'TouchTurnY-', 'SwipeY-'],
+  LOOK_DOWN: ['ArrowDown', 'MouseY+', 'GamepadAxis3+', 'TouchTurnY+', 'SwipeY+'],
+  JUMP: ['KeyE', 'Gamepad0'],
+  CROUCH: ['KeyC', 'Gamepad1'],
+  INTERACT: ['Space', 'Mouse2', 'Gamepad2', 'TouchInteract'],
+  FIRE: ['ControlLeft', 'Mouse0', 'Gamepad7', 'TouchFire'],
+  NEXT_WEAPON: ['KeyQ', 'Gamepad3'],
+  PAUSE: ['KeyP', 'Gamepad9'],
+  AUTOMAP: ['KeyM', 'Gamepad8'],
+  AUTOMAP_ZOOM_IN: ['KeyX', 'Gamepad5'],
+  AUTOMAP_ZOOM_OUT: ['KeyZ', 'Gamepad4'],
+  AUTOMAP_ROTATE: ['KeyH'],
+  AUTOMAP_TEXTURES: ['KeyT'],
+  AUTOMAP_CENTER: ['KeyF'],
+  DEBUG: ['KeyI'],
+  FOV_UP: ['PageUp'],
+  FOV_DOWN: ['PageDown'],
+  RESOLUTION_UP: ['Equal'],
+  RESOLUTION_DOWN: ['Minus'],
+  WORKERS_UP: ['BracketRight'],
+  WORKERS_DOWN: ['BracketLeft'],
+  RENDERER: ['KeyR'],
+  EDITOR: ['KeyL'],
+  CONTROLS: ['KeyK'],
+  QUICK_SAVE: ['F5'],
+  QUICK_LOAD: ['F9'],
+  SAVE_SLOT: ['F6'],
+  SAVE: ['F7'],
+  LOAD: ['F8'],
+  MUTE: ['KeyV']
+};
+
+// The key used to store the bindings in local storage.
+const storageKey = 'raycaster.bindings';
+
+// How far a stick must be pushed before it counts as pressed, so that sticks that do not quite center do not move the player.
+const deadZone = 0.2;
+
+const actionNames = Object.keys(Action).filter((key) => isNaN(Number(key))) as ActionName[];
+let bindings: string[][] = getDefaultBindings();
+const values = new Map<string, number>(); // How far each input that is currently pressed is pressed, from 0 to 1.
+const movement = new Map<string, number>(); // How far, in pixels, the mouse has moved along each axis since the movement was last reset.
+let actionHandler: ((action: Action) => void) | undefined;
+let inputHandler: ((input: string) => boolean) | undefined;
+
+// Gets a copy of the default bindings, indexed by action.
+function getDefaultBindings(): string[][] {
+  return actionNames.map((name) => [...defaultBindings[name]]);
+}
+
+// Stores the bindings in local storage, by the name of each action so that they still apply if actions are added or reordered.
+function saveBindings(): void {
+  const stored: Partial<Record<ActionName, string[]>> = {};
+  actionNames.forEach((name, action) => (stored[name] = bindings[action]));
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(stored));
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+// Loads any bindings stored in local storage, using the default bindings for any actions that are not stored.
+export function loadBindings(): void {
+  bindings = getDefaultBindings();
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey) || '{}');
+    actionNames.forEach((name, action) => {
+      if (Array.isArray(stored[name]) && stored[name].every((input: unknown) => typeof input === 'string')) {
+        bindings[action] = stored[name];
+      }
+    });
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+// Gets the inputs bound to the specified action.
+export function getBindings(action: Action): string[] {
+  return bindings[action];
+}
+
+// Gets the action the specified input is bound to, if any.
+export function getBoundAction(input: string): Action | undefined {
+  const action = bindings.findIndex((inputs) => inputs.includes(input));
+  return action >= 0 ? action : undefined;
+}
+
+// Binds the input to the specified action, removing it from any other action so that each input only ever does one thing.
+export function bindInput(action: Action, input: string): void {
+  bindings = bindings.map((inputs) => inputs.filter((bound) => bound !== input));
+  bindings[action].push(input);
+  saveBindings();
+}
+
+// Removes every input bound to the specified action.
+export function clearBindings(action: Action): void {
+  bindings[action] = [];
+  saveBindings();
+}
+
+// Restores the default bindings, forgetting any stored bindings.
+export function resetBindings(): void {
+  bindings = getDefaultBindings();
+  localStorage.removeItem(storageKey);
+}
+
+// Sets the function that is called whenever an input bound to an action is released, e.g. to toggle the automap.
+export function setActionHandler(handler: (action: Action) => void): void {
+  actionHandler = handler;
+}
+
+// Sets a function that is called with every input that is released before it is handled as an action, which can return true to consume it, e.g. so
+// that an input can be bound to an action. Passing undefined removes the function again.
+export function setInputHandler(handler: ((input: string) => boolean) | undefined): void {
+  inputHandler = handler;
+}
+
+// Presses the specified input, by the specified amount for inputs that can be partially pressed, e.g. the sticks of a gamepad.
+export function pressInput(input: string, value: number = 1): void {
+  values.set(input, value);
+}
+
+// Releases the specified input, and then handles it as an action.
+export function releaseInput(input: string): void {
+  values.delete(input);
+  if (inputHandler !== undefined && inputHandler(input)) {
+    return;
+  }
+
+  const action = getBoundAction(input);
+  if (action !== undefined && actionHandler !== undefined) {
+    actionHandler(action);
+  }
+}
+
+// Sets how far the specified input is pressed, releasing it once it is no longer pressed at all, e.g. as a stick moves back to its center.
+export function setInputValue(input: string, value: number): void {
+  if (value > 0) {
+    pressInput(input, value);
+  } else if (values.has(input)) {
+    releaseInput(input);
+  }
+}
+
+// Releases every input without handling them as actions, e.g. when the window loses focus and would otherwise never see the keys being released.
+export function releaseAllInputs(): void {
+  values.clear();
+  movement.clear();
+}
+
+// Records something moving by the specified number of pixels, e.g. the mouse or a finger swiping, where the device is the prefix of its inputs.
+export function moveAxes(device: string, x: number, y: number): void {
+  for (const [axis, amount] of [
+    ['X-', -x],
+    ['X+', x],
+    ['Y-', -y],
+    ['Y+', y]
+  ] as const) {
+    if (amount > 0) {
+      movement.set(device + axis, (movement.get(device + axis) || 0) + amount);
+    }
+  }
+}
+
+// Forgets how far the mouse has moved, which should be called once the movement has been applied each frame.
+export function resetMovement(): void {
+  movement.clear();
+}
+
+// Gets how much the specified action is pressed, from 0 to 1, taking the input bound to it that is pressed the furthest.
+export function getActionValue(action: Action): number {
+  return bindings[action].reduce((value, input) => Math.max(value, values.get(input) || 0), 0);
+}
+
+// Checks if any input bound to the specified action is pressed.
+export function isActionActive(action: Action): boolean {
+  return getActionValue(action) > 0;
+}
+
+// Gets how far, in pixels, the mouse has moved in the direction of the specified action since the movement was last reset.
+export function getActionMovement(action: Action): number {
+  return bindings[action].reduce((amount, input) => amount + (movement.get(input) || 0), 0);
+}
+
+// Reads the buttons and sticks of every connected gamepad, pressing and releasing their inputs as they change. Gamepads have no events for this, so it
+// must be called every frame.
+export function pollGamepads(): void {
+  if (navigator.getGamepads === undefined) {
+    return;
+  }
+
+  const inputs = new Map<string, number>();
+  const setValue = (input: string, value: number): void => {
+    inputs.set(input, Math.max(inputs.get(input) || 0, value));
+  };
+  for (const gamepad of navigator.getGamepads()) {
+    if (gamepad === null) {
+      continue;
+    }
+    gamepad.buttons.forEach((button, index) => setValue(`Gamepad${index}`, button.pressed ? button.value || 1 : 0));
+    gamepad.axes.forEach((axis, index) => {
+      const value = Math.abs(axis) > deadZone ? (Math.abs(axis) - deadZone) / (1 - deadZone) : 0;
+      setValue(`GamepadAxis${index}-`, axis < 0 ? value : 0);
+      setValue(`GamepadAxis${index}+`, axis > 0 ? value : 0);
+    });
+  }
+
+  // Release anything that is no longer pressed, including the inputs of any gamepad that has been disconnected.
+  for (const input of [...values.keys()]) {
+    if (input.startsWith('Gamepad') && !inputs.has(input)) {
+      releaseInput(input);
+    }
+  }
+  for (const [input, value] of inputs) {
+    setInputValue(input, value);
+  }
+}
+
+// Gets the name of the specified action to show to the player, e.g. Strafe left.
+export function getActionName(action: Action): string {
+  const name = Action[action].replace(/_/g, ' ');
+  return `${name.charAt(0)}${name.slice(1).toLowerCase()}`;
+}
+
+// Gets the name of the specified input to show to the player, e.g. W rather than KeyW.
+export function getInputName(input: string): string {
+  return input
+    .replace(/^(Key|Digit)/, '')
+    .replace(/^Mouse(\d)$/, 'Mouse button $1')
+    .replace(/^Mouse([XY])/, 'Mouse $1')
+    .replace(/^GamepadAxis(\d)/, 'Stick axis $1')
+    .replace(/^Gamepad(\d+)$/, 'Gamepad button $1')
+    .replace(/^Touch(Move|Turn)/, 'Touch $1 stick ')
+    .replace(/^TouchInteract$/, 'Touch use button')
+    .replace(/^TouchFire$/, 'Touch fire button')
+    .replace(/^Swipe/, 'Swipe ');
+}
@@ -0,0 +1,77 @@
+import type { ItemType, Pickup } from '../interfaces/item';
+import type { Level } from '../interfaces/level';
+import type { Sprite } from '../interfaces/sprite';
+import type { Player } from '../objects/player';
+
+import { ItemKind, SpriteProperties } from '../enums.js';
+import { itemTypes } from '../data/items/items.js';
+import { createSpriteBasic } from './sprite-utils.js';
+
+// What an entity holds if it does not say, which is a coin.
+const defaultPickup: Pickup = { item: 1 };
+
+// Gets the specified type of item by Id.
+export function getItemTypeById(id: number): ItemType | undefined {
+  return itemTypes[id - 1];
+}
+
+// Creates an entity that holds the specified type of item, standing on the floor, which gives the specified amount when it is picked up, defaulting to
+// the amount for the type of item.
+export function createPickup(itemId: number, x: number, y: number, amount?: number): Sprite {
+  const type = getItemTypeById(itemId);
+  if (type === undefined) {
+    throw new Error(`Unknown item type ${itemId}`);
+  }
+  const retVal = createSpriteBasic(x, y, type.textureId, type.scale, SpriteProperties.ALIGN_BOTTOM);
+  retVal.pickup = amount !== undefined ? { item: itemId, amount } : { item: itemId };
+  return retVal;
+}
+
+// Gets what the specified entity holds.
+export function getPickup(entity: Sprite): Pickup {
+  return entity.pickup || defaultPickup;
+}
+
+// Puts back every entity in the specified level that has been picked up, e.g. when the level is started again with a new player, so that anything the
+// level needs, such as a key, can always be picked up again. Hidden entities are hidden again until they are spawned.
+export function resetPickups(level: Level): void {
+  for (const entity of level.entities) {
+    entity.active = !entity.hidden;
+  }
+}
+
+// Gives the player as much of the pickup as they have room for, and returns how much they took, which is 0 if they have no room for any of it, e.g. health
+// when they are already at full health, in which case the pickup should be left where it is.
+export function collectPickup(player: Player, pickup: Pickup): number {
+  const type = getItemTypeById(pickup.item);
+  if (type === undefined) {
+    return 0;
+  }
+
+  const amount = pickup.amount !== undefined ? pickup.amount : type.amount;
+  switch (type.kind) {
+    case ItemKind.ITEM:
+      return player.addItem(type, amount);
+
+    case ItemKind.HEALTH:
+      return player.heal(amount, type.max);
+
+    case ItemKind.AMMO:
+      return type.weapon !== undefined ? player.addAmmo(type.weapon, amount) : 0;
+
+    case ItemKind.POWER_UP:
+      return player.addPowerUp(type, amount);
+  }
+}
+
+// Gets the message shown when the player picks up the specified amount of an item, e.g. Bullets x12.
+export function getPickupMessage(type: ItemType, amount: number): string {
+  switch (type.kind) {
+    case ItemKind.HEALTH:
+      return `${type.name} +${amount}`;
+    case ItemKind.POWER_UP:
+      return `${type.name} for ${Math.ceil(amount)} seconds`;
+    default:
+      return amount === 1 ? type.name : `${type.name} x${amount}`;
+  }
+}
@@ -0,0 +1,934 @@
+import type { Activator } from '../interfaces/activator';
+import type { Cell, DoorCell, Lock } from '../interfaces/cell';
+import type { Level } from '../interfaces/level';
+import type { Light } from '../interfaces/light';
+import type {
+  ActivatorName,
+  CellDefinition,
+  CellPropertyName,
+  CellTypeName,
+  EnemyDefinition,
+  FogFalloffName,
+  LevelFile,
+  LightDefinition,
+  SpriteDefinition,
+  SpritePropertyName,
+  TriggerActionDefinition,
+  TriggerActionName,
+  TriggerDefinition,
+  TriggerEventName
+} from '../interfaces/level-file';
+import type { Sprite } from '../interfaces/sprite';
+import type { Trigger, TriggerAction } from '../interfaces/trigger';
+import type { Enemy } from '../objects/enemy';
+
+import { CellProperties, FogFalloff, SpriteProperties, TriggerActionType, TriggerEvent } from '../enums.js';
+import { textures } from '../data/textures/textures.js';
+import { sounds } from '../data/sounds/sounds.js';
+import { enemyTypes } from '../data/enemies/enemies.js';
+import { itemTypes } from '../data/items/items.js';
+import { activatorDecrement, activatorDoor, activatorIncrement, activatorLight, activatorToggle } from './activator-utils.js';
+import { createDoor, createEntrance, createExit, createFloor, createWall, isDoor } from './cell-utils.js';
+import { createEnemy } from './enemy-utils.js';
+import { createFog } from './fog-utils.js';
+import { attachLight, createLight } from './light-utils.js';
+import { createSpriteNoTint } from './sprite-utils.js';
+
+// Maps the names used in a level file to the values they represent.
+const cellTypes: CellTypeName[] = ['floor', 'wall', 'door', 'entrance', 'exit'];
+
+const cellProperties: Record<CellPropertyName, CellProperties> = {
+  solid: CellProperties.SOLID,
+  blocked: CellProperties.BLOCKED,
+  interactive: CellProperties.INTERACTIVE,
+  thin: CellProperties.THIN,
+  transparent: CellProperties.TRANSPARENT
+};
+
+const activators: Record<ActivatorName, Activator> = {
+  toggle: activatorToggle,
+  increment: activatorIncrement,
+  decrement: activatorDecrement,
+  door: activatorDoor,
+  light: activatorLight
+};
+
+const spriteProperties: Record<SpritePropertyName, SpriteProperties> = {
+  tint: SpriteProperties.TINT,
+  'align-top': SpriteProperties.ALIGN_TOP,
+  'align-bottom': SpriteProperties.ALIGN_BOTTOM,
+  static: SpriteProperties.STATIC
+};
+
+const fogFalloffs: Record<FogFalloffName, FogFalloff> = {
+  linear: FogFalloff.LINEAR,
+  exponential: FogFalloff.EXPONENTIAL,
+  'exponential-squared': FogFalloff.EXPONENTIAL_SQUARED
+};
+
+const triggerEvents: Record<TriggerEventName, TriggerEvent> = {
+  interact: TriggerEvent.INTERACT,
+  enter: TriggerEvent.ENTER,
+  pickup: TriggerEvent.PICKUP,
+  timer: TriggerEvent.TIMER,
+  'enemies-dead': TriggerEvent.ENEMIES_DEAD
+};
+
+const triggerActionTypes: Record<TriggerActionName, TriggerActionType> = {
+  'open-door': TriggerActionType.OPEN_DOOR,
+  'close-door': TriggerActionType.CLOSE_DOOR,
+  'toggle-light': TriggerActionType.TOGGLE_LIGHT,
+  spawn: TriggerActionType.SPAWN,
+  teleport: TriggerActionType.TELEPORT,
+  'set-state': TriggerActionType.SET_STATE,
+  message: TriggerActionType.MESSAGE
+};
+
+// Checks if the specified value is a finite number.
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Checks if the specified value is an object, rather than an array or a primitive.
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Checks that the specified value is a number between min and max, unless it is optional and undefined.
+function checkNumber(errors: string[], path: string, value: unknown, optional: boolean, min: number = -Infinity, max: number = Infinity): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (!isNumber(value)) {
+    errors.push(`${path}: expected a number but found ${JSON.stringify(value)}`);
+  } else if (value < min || value > max) {
+    errors.push(`${path}: expected a number between ${min} and ${max} but found ${value}`);
+  }
+}
+
+// Checks that the specified value is the ID of a known texture, unless it is optional and undefined.
+function checkTexture(errors: string[], path: string, value: unknown, optional: boolean): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (!isNumber(value) || !Number.isInteger(value) || value < 1 || value > textures.length) {
+    errors.push(`${path}: unknown texture ID ${JSON.stringify(value)}, expected an integer between 1 and ${textures.length}`);
+  }
+}
+
+// Checks that the specified value is the ID of a known sound, unless it is optional and undefined.
+function checkSound(errors: string[], path: string, value: unknown, optional: boolean): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (!isNumber(value) || !Number.isInteger(value) || value < 1 || value > sounds.length) {
+    errors.push(`${path}: unknown sound ID ${JSON.stringify(value)}, expected an integer between 1 and ${sounds.length}`);
+  }
+}
+
+// Checks that the specified value, if defined, is an array containing only the specified names.
+function checkNames(errors: string[], path: string, value: unknown, names: string[]): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array but found ${JSON.stringify(value)}`);
+    return;
+  }
+  value.forEach((name, index) => {
+    if (!names.includes(name)) {
+      errors.push(`${path}[${index}]: unknown name ${JSON.stringify(name)}, expected one of ${names.join(', ')}`);
+    }
+  });
+}
+
+// Checks that the specified value, if defined, is a valid light.
+function checkLight(errors: string[], path: string, value: unknown): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+  checkNumber(errors, `${path}.radius`, value.radius, false, 0);
+  checkNumber(errors, `${path}.intensity`, value.intensity, true, 0);
+  checkNumber(errors, `${path}.flicker`, value.flicker, true, 0, 1);
+}
+
+// Checks that the specified value, if defined, is a valid lock, which needs either an item or a flag to open it.
+function checkLock(errors: string[], path: string, value: unknown): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+
+  if (value.item !== undefined && (!isNumber(value.item) || !Number.isInteger(value.item) || value.item < 1 || value.item > itemTypes.length)) {
+    errors.push(`${path}.item: unknown item type ${JSON.stringify(value.item)}, expected an integer between 1 and ${itemTypes.length}`);
+  }
+  if (value.consume !== undefined && typeof value.consume !== 'boolean') {
+    errors.push(`${path}.consume: expected a boolean but found ${JSON.stringify(value.consume)}`);
+  }
+  if (value.flag !== undefined && typeof value.flag !== 'string') {
+    errors.push(`${path}.flag: expected a string but found ${JSON.stringify(value.flag)}`);
+  }
+  if (value.message !== undefined && typeof value.message !== 'string') {
+    errors.push(`${path}.message: expected a string but found ${JSON.stringify(value.message)}`);
+  }
+  if (value.item === undefined && value.flag === undefined) {
+    errors.push(`${path}: expected an item or a flag to open it`);
+  }
+}
+
+// Checks that the specified value is a valid cell definition.
+export function checkCell(errors: string[], path: string, value: unknown): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+
+  if (!cellTypes.includes(value.type as CellTypeName)) {
+    errors.push(`${path}.type: unknown type ${JSON.stringify(value.type)}, expected one of ${cellTypes.join(', ')}`);
+  }
+
+  if (Array.isArray(value.textures)) {
+    if (value.textures.length !== 6) {
+      errors.push(`${path}.textures: expected 6 textures, one per face, but found ${value.textures.length}`);
+    }
+    value.textures.forEach((textureId, index) => checkTexture(errors, `${path}.textures[${index}]`, textureId, false));
+  } else {
+    checkTexture(errors, `${path}.textures`, value.textures, false);
+  }
+
+  checkNumber(errors, `${path}.floorHeight`, value.floorHeight, true);
+  checkNumber(errors, `${path}.ceilingHeight`, value.ceilingHeight, true);
+  checkNumber(errors, `${path}.state`, value.state, true, 0);
+  checkNumber(errors, `${path}.light`, value.light, true, -1, 1);
+  checkNumber(errors, `${path}.speed`, value.speed, true, 0);
+  checkNumber(errors, `${path}.health`, value.health, true, 0);
+  checkNames(errors, `${path}.properties`, value.properties, Object.keys(cellProperties));
+  checkNames(errors, `${path}.activators`, value.activators, Object.keys(activators));
+  checkNumber(errors, `${path}.autoClose`, value.autoClose, true, 0);
+  checkLight(errors, `${path}.lamp`, value.lamp);
+  checkLock(errors, `${path}.lock`, value.lock);
+  if (value.flag !== undefined && typeof value.flag !== 'string') {
+    errors.push(`${path}.flag: expected a string but found ${JSON.stringify(value.flag)}`);
+  }
+
+  if (value.speed !== undefined && value.type !== 'door') {
+    errors.push(`${path}.speed: only doors have a speed`);
+  }
+  if (value.health !== undefined && value.type !== 'wall') {
+    errors.push(`${path}.health: only walls can be destroyed`);
+  }
+  if (value.autoClose !== undefined && value.type !== 'door') {
+    errors.push(`${path}.autoClose: only doors close by themselves`);
+  }
+  if (value.lock !== undefined && value.type !== 'door' && value.activators === undefined && value.lamp === undefined) {
+    errors.push(`${path}.lock: only doors and cells with activators can be locked`);
+  }
+}
+
+// Checks if the specified cell definition is something that the player cannot stand in.
+function isCellDefinitionSolid(cell: CellDefinition): boolean {
+  const properties = cell.properties || [];
+  return cell.type === 'wall' || cell.type === 'door' || cell.type === 'entrance' || properties.includes('solid') || properties.includes('blocked');
+}
+
+// Checks that the specified value is a valid portal, whose spawn point is inside the level and not inside a wall.
+function checkPortal(errors: string[], path: string, value: unknown, file: Record<string, unknown>): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+
+  checkNumber(errors, `${path}.angle`, value.angle, false);
+  checkNumber(errors, `${path}.destination`, value.destination, true, 0);
+  if (!isNumber(value.x) || !isNumber(value.y) || !Number.isInteger(value.x) || !Number.isInteger(value.y)) {
+    errors.push(`${path}: expected integer x and y coordinates but found (${JSON.stringify(value.x)}, ${JSON.stringify(value.y)})`);
+    return;
+  }
+
+  // Only check the spawn point if the grid itself is valid, as otherwise the errors in the grid have already been reported.
+  const grid = file.grid as string[];
+  const cells = file.cells as Record<string, CellDefinition>;
+  const row = Array.isArray(grid) ? grid[value.y] : undefined;
+  if (typeof row !== 'string' || value.x < 0 || value.x >= row.length) {
+    errors.push(`${path}: the spawn point (${value.x}, ${value.y}) is outside the level`);
+    return;
+  }
+
+  const cell = isObject(cells) ? cells[row[value.x]] : undefined;
+  if (isObject(cell) && isCellDefinitionSolid(cell)) {
+    errors.push(`${path}: the spawn point (${value.x}, ${value.y}) is inside a ${cell.type} cell '${row[value.x]}'`);
+  }
+}
+
+// Checks that the specified value is a valid sprite that is inside the level.
+export function checkSprite(errors: string[], path: string, value: unknown, width: number, height: number): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+
+  checkNumber(errors, `${path}.x`, value.x, false, 0, width);
+  checkNumber(errors, `${path}.y`, value.y, false, 0, height);
+  checkTexture(errors, `${path}.texture`, value.texture, false);
+  checkNumber(errors, `${path}.scale`, value.scale, true, 0);
+  checkNames(errors, `${path}.properties`, value.properties, Object.keys(spriteProperties));
+  checkLight(errors, `${path}.light`, value.light);
+  checkPickup(errors, `${path}.pickup`, value.pickup);
+  if (value.hidden !== undefined && typeof value.hidden !== 'boolean') {
+    errors.push(`${path}.hidden: expected a boolean but found ${JSON.stringify(value.hidden)}`);
+  }
+}
+
+// Checks that the specified value, if there is one, is a pickup of a known type of item.
+function checkPickup(errors: string[], path: string, value: unknown): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+
+  if (!isNumber(value.item) || !Number.isInteger(value.item) || value.item < 1 || value.item > itemTypes.length) {
+    errors.push(`${path}.item: unknown item type ${JSON.stringify(value.item)}, expected an integer between 1 and ${itemTypes.length}`);
+  }
+  checkNumber(errors, `${path}.amount`, value.amount, true, 0);
+}
+
+// Checks that the specified value is the definition of an enemy of a known type, which stands and patrols within the level.
+export function checkEnemy(errors: string[], path: string, value: unknown, width: number, height: number): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+
+  if (!isNumber(value.type) || !Number.isInteger(value.type) || value.type < 1 || value.type > enemyTypes.length) {
+    errors.push(`${path}.type: unknown enemy type ${JSON.stringify(value.type)}, expected an integer between 1 and ${enemyTypes.length}`);
+  }
+  checkNumber(errors, `${path}.x`, value.x, false, 0, width);
+  checkNumber(errors, `${path}.y`, value.y, false, 0, height);
+  checkNumber(errors, `${path}.angle`, value.angle, true);
+  if (value.patrol === undefined) {
+    return;
+  }
+  if (!Array.isArray(value.patrol)) {
+    errors.push(`${path}.patrol: expected an array but found ${JSON.stringify(value.patrol)}`);
+    return;
+  }
+  value.patrol.forEach((point, index) => {
+    if (!isObject(point)) {
+      errors.push(`${path}.patrol[${index}]: expected an object but found ${JSON.stringify(point)}`);
+      return;
+    }
+    checkNumber(errors, `${path}.patrol[${index}].x`, point.x, false, 0, width);
+    checkNumber(errors, `${path}.patrol[${index}].y`, point.y, false, 0, height);
+  });
+}
+
+// Checks if the specified cell definition is something that the player can interact with.
+function isCellDefinitionInteractive(cell: CellDefinition): boolean {
+  const activatorCount = cell.activators !== undefined ? cell.activators.length : cell.lamp !== undefined ? 1 : 0;
+  return cell.type === 'door' || activatorCount > 0 || (cell.properties || []).includes('interactive');
+}
+
+// Checks that the specified coordinates are those of a cell inside the level, returning the cell's definition if so.
+function checkCellPosition(errors: string[], path: string, x: unknown, y: unknown, file: Record<string, unknown>): CellDefinition | undefined {
+  if (!isNumber(x) || !isNumber(y) || !Number.isInteger(x) || !Number.isInteger(y)) {
+    errors.push(`${path}: expected integer x and y coordinates but found (${JSON.stringify(x)}, ${JSON.stringify(y)})`);
+    return undefined;
+  }
+
+  const grid = file.grid as string[];
+  const cells = file.cells as Record<string, CellDefinition>;
+  const row = Array.isArray(grid) ? grid[y] : undefined;
+  if (typeof row !== 'string' || x < 0 || x >= row.length) {
+    errors.push(`${path}: the cell (${x}, ${y}) is outside the level`);
+    return undefined;
+  }
+
+  const cell = isObject(cells) ? cells[row[x]] : undefined;
+  return isObject(cell) ? cell : undefined;
+}
+
+// Checks that the specified value is the index of one of the specified sprites, or entities, returning the sprite's definition if so.
+function checkSpriteIndex(errors: string[], path: string, value: unknown, sprites: unknown, name: string): Record<string, unknown> | undefined {
+  const count = Array.isArray(sprites) ? sprites.length : 0;
+  if (!isNumber(value) || !Number.isInteger(value) || value < 0 || value >= count) {
+    errors.push(`${path}: expected the index of one of the ${count} ${name} but found ${JSON.stringify(value)}`);
+    return undefined;
+  }
+
+  const sprite = (sprites as unknown[])[value];
+  return isObject(sprite) ? sprite : undefined;
+}
+
+// Checks that the specified value is a valid trigger action, whose target is in the level and can be acted on in that way, e.g. only doors can be opened.
+function checkTriggerAction(errors: string[], path: string, value: unknown, file: Record<string, unknown>): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+
+  switch (value.action as TriggerActionName) {
+    case 'open-door':
+    case 'close-door': {
+      const cell = checkCellPosition(errors, path, value.x, value.y, file);
+      if (cell !== undefined && cell.type !== 'door') {
+        errors.push(`${path}: the cell (${value.x}, ${value.y}) is not a door`);
+      }
+      break;
+    }
+
+    case 'toggle-light': {
+      if (value.sprite !== undefined || value.entity !== undefined) {
+        const key = value.sprite !== undefined ? 'sprite' : 'entity';
+        const sprite = checkSpriteIndex(errors, `${path}.${key}`, value[key], key === 'sprite' ? file.sprites : file.entities, key === 'sprite' ? 'sprites' : 'entities');
+        if (sprite !== undefined && sprite.light === undefined) {
+          errors.push(`${path}.${key}: the ${key} ${value[key]} has no light`);
+        }
+        break;
+      }
+      const cell = checkCellPosition(errors, path, value.x, value.y, file);
+      if (cell !== undefined && cell.lamp === undefined) {
+        errors.push(`${path}: the cell (${value.x}, ${value.y}) has no lamp`);
+      }
+      break;
+    }
+
+    case 'spawn':
+      if (value.sprite !== undefined) {
+        checkSpriteIndex(errors, `${path}.sprite`, value.sprite, file.sprites, 'sprites');
+      } else {
+        checkSpriteIndex(errors, `${path}.entity`, value.entity, file.entities, 'entities');
+      }
+      break;
+
+    case 'teleport': {
+      const cell = checkCellPosition(errors, path, value.x, value.y, file);
+      if (cell !== undefined && isCellDefinitionSolid(cell)) {
+        errors.push(`${path}: the cell (${value.x}, ${value.y}) can't be stood in`);
+      }
+      checkNumber(errors, `${path}.angle`, value.angle, true);
+      break;
+    }
+
+    case 'set-state':
+      checkCellPosition(errors, path, value.x, value.y, file);
+      checkNumber(errors, `${path}.state`, value.state, false, 0);
+      break;
+
+    case 'message':
+      if (typeof value.message !== 'string') {
+        errors.push(`${path}.message: expected a string but found ${JSON.stringify(value.message)}`);
+      }
+      break;
+
+    default:
+      errors.push(`${path}.action: unknown action ${JSON.stringify(value.action)}, expected one of ${Object.keys(triggerActionTypes).join(', ')}`);
+      break;
+  }
+}
+
+// Checks that the specified value is a valid trigger, which is set off by something that can happen in the level, e.g. only cells that can be
+// interacted with can set off a trigger when they are.
+function checkTrigger(errors: string[], path: string, value: unknown, file: Record<string, unknown>): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+
+  switch (value.event as TriggerEventName) {
+    case 'interact': {
+      const cell = checkCellPosition(errors, path, value.x, value.y, file);
+      if (cell !== undefined && !isCellDefinitionInteractive(cell)) {
+        errors.push(`${path}: the cell (${value.x}, ${value.y}) can't be interacted with`);
+      }
+      break;
+    }
+
+    case 'enter': {
+      // Doors can be walked into once they are open.
+      const cell = checkCellPosition(errors, path, value.x, value.y, file);
+      if (cell !== undefined && cell.type !== 'door' && isCellDefinitionSolid(cell)) {
+        errors.push(`${path}: the cell (${value.x}, ${value.y}) can't be walked into`);
+      }
+      break;
+    }
+
+    case 'pickup':
+      checkSpriteIndex(errors, `${path}.entity`, value.entity, file.entities, 'entities');
+      break;
+
+    case 'timer':
+      checkNumber(errors, `${path}.time`, value.time, false, 0);
+      break;
+
+    case 'enemies-dead':
+      break;
+
+    default:
+      errors.push(`${path}.event: unknown event ${JSON.stringify(value.event)}, expected one of ${Object.keys(triggerEvents).join(', ')}`);
+      break;
+  }
+
+  if (value.once !== undefined && typeof value.once !== 'boolean') {
+    errors.push(`${path}.once: expected a boolean but found ${JSON.stringify(value.once)}`);
+  }
+  if (!Array.isArray(value.actions)) {
+    errors.push(`${path}.actions: expected an array but found ${JSON.stringify(value.actions)}`);
+    return;
+  }
+  value.actions.forEach((action, index) => checkTriggerAction(errors, `${path}.actions[${index}]`, action, file));
+}
+
+// Validates the specified level file, returning a list of errors that describe exactly what is wrong with it, or an empty list if it is valid.
+export function validateLevelFile(file: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(file)) {
+    return [`level: expected an object but found ${JSON.stringify(file)}`];
+  }
+
+  checkNumber(errors, 'depth', file.depth, false, 0);
+  if (file.name !== undefined && typeof file.name !== 'string') {
+    errors.push(`name: expected a string but found ${JSON.stringify(file.name)}`);
+  }
+
+  // Check the cells used by the grid.
+  if (!isObject(file.cells)) {
+    errors.push(`cells: expected an object but found ${JSON.stringify(file.cells)}`);
+  } else {
+    for (const [key, cell] of Object.entries(file.cells)) {
+      if (key.length !== 1) {
+        errors.push(`cells['${key}']: expected a single character`);
+      }
+      checkCell(errors, `cells['${key}']`, cell);
+    }
+  }
+
+  // Check the grid is rectangular, and only uses known cells.
+  let width = 0;
+  let height = 0;
+  if (!Array.isArray(file.grid) || file.grid.length === 0) {
+    errors.push(`grid: expected a non-empty array of strings`);
+  } else {
+    height = file.grid.length;
+    width = typeof file.grid[0] === 'string' ? file.grid[0].length : 0;
+    file.grid.forEach((row, y) => {
+      if (typeof row !== 'string') {
+        errors.push(`grid[${y}]: expected a string but found ${JSON.stringify(row)}`);
+        return;
+      }
+      if (row.length !== width) {
+        errors.push(`grid[${y}]: expected ${width} columns, the same as the first row, but found ${row.length}`);
+      }
+      for (let x = 0; x < row.length; x++) {
+        if (isObject(file.cells) && file.cells[row[x]] === undefined) {
+          errors.push(`grid[${y}][${x}]: unknown cell '${row[x]}'`);
+        }
+      }
+    });
+  }
+
+  checkPortal(errors, 'entrance', file.entrance, file);
+  checkPortal(errors, 'exit', file.exit, file);
+
+  for (const key of ['sprites', 'entities']) {
+    const sprites = file[key];
+    if (sprites === undefined) {
+      continue;
+    }
+    if (!Array.isArray(sprites)) {
+      errors.push(`${key}: expected an array but found ${JSON.stringify(sprites)}`);
+      continue;
+    }
+    sprites.forEach((sprite, index) => {
+      checkSprite(errors, `${key}[${index}]`, sprite, width, height);
+      if (key === 'sprites' && isObject(sprite) && sprite.pickup !== undefined) {
+        errors.push(`${key}[${index}].pickup: only entities can be picked up`);
+      }
+    });
+  }
+
+  if (file.enemies !== undefined) {
+    if (!Array.isArray(file.enemies)) {
+      errors.push(`enemies: expected an array but found ${JSON.stringify(file.enemies)}`);
+    } else {
+      file.enemies.forEach((enemy, index) => checkEnemy(errors, `enemies[${index}]`, enemy, width, height));
+    }
+  }
+
+  if (file.triggers !== undefined) {
+    if (!Array.isArray(file.triggers)) {
+      errors.push(`triggers: expected an array but found ${JSON.stringify(file.triggers)}`);
+    } else {
+      file.triggers.forEach((trigger, index) => checkTrigger(errors, `triggers[${index}]`, trigger, file));
+    }
+  }
+
+  checkTexture(errors, 'floor', file.floor, true);
+  checkTexture(errors, 'ceiling', file.ceiling, true);
+  checkTexture(errors, 'skybox', file.skybox, true);
+  checkNumber(errors, 'loot', file.loot, true, 0);
+  checkNumber(errors, 'ambient', file.ambient, true, 0, 1);
+  checkSound(errors, 'ambience', file.ambience, true);
+
+  if (file.fog !== undefined) {
+    const fog = file.fog;
+    if (!isObject(fog)) {
+      errors.push(`fog: expected an object but found ${JSON.stringify(fog)}`);
+    } else {
+      if (!isObject(fog.colour)) {
+        errors.push(`fog.colour: expected an object but found ${JSON.stringify(fog.colour)}`);
+      } else {
+        checkNumber(errors, 'fog.colour.r', fog.colour.r, false, 0, 255);
+        checkNumber(errors, 'fog.colour.g', fog.colour.g, false, 0, 255);
+        checkNumber(errors, 'fog.colour.b', fog.colour.b, false, 0, 255);
+      }
+      checkNumber(errors, 'fog.start', fog.start, false, 0);
+      checkNumber(errors, 'fog.end', fog.end, false, isNumber(fog.start) ? fog.start : 0);
+      if (fog.falloff !== undefined && !Object.keys(fogFalloffs).includes(fog.falloff as string)) {
+        errors.push(`fog.falloff: unknown falloff ${JSON.stringify(fog.falloff)}, expected one of ${Object.keys(fogFalloffs).join(', ')}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Creates a new Cell from the specified definition.
+function createCellFromDefinition(definition: CellDefinition): Cell {
+  const textureIds = Array.isArray(definition.textures) ? [...definition.textures] : new Array(6).fill(definition.textures);
+
+  // Create the cell using the factory for its type, so that it has the same defaults as a cell created in code.
+  let cell: Cell;
+  switch (definition.type) {
+    case 'wall':
+      cell = createWall(textureIds, definition.ceilingHeight);
+      break;
+
+    case 'door':
+      cell = createDoor(textureIds[0], definition.speed);
+      break;
+
+    case 'entrance':
+      cell = createEntrance(textureIds[0]);
+      break;
+
+    case 'exit':
+      cell = createExit(textureIds[0]);
+      break;
+
+    default:
+      cell = createFloor(textureIds, definition.floorHeight, definition.ceilingHeight);
+      break;
+  }
+
+  cell.textureIds = textureIds;
+  cell.floorHeight = definition.floorHeight !== undefined ? definition.floorHeight : cell.floorHeight;
+  cell.ceilingHeight = definition.ceilingHeight !== undefined ? definition.ceilingHeight : cell.ceilingHeight;
+  cell.light = definition.light !== undefined ? definition.light : cell.light;
+
+  for (const property of definition.properties || []) {
+    cell.properties |= cellProperties[property];
+  }
+
+  // Lamps can be switched on and off by default, in the same way as those created by createLamp.
+  let activatorNames = definition.activators || [];
+  if (definition.lamp !== undefined) {
+    cell.lamp = createLightFromDefinition(definition.lamp);
+    cell.state = 1;
+    if (definition.activators === undefined) {
+      activatorNames = ['light', 'toggle'];
+    }
+  }
+
+  // Any cell with activators must be interactive, otherwise the player can't activate them.
+  for (const name of activatorNames) {
+    cell.activators.push(activators[name]);
+    cell.properties |= CellProperties.INTERACTIVE;
+  }
+
+  cell.state = definition.state !== undefined ? definition.state : cell.state;
+  if (definition.health !== undefined) {
+    cell.health = definition.health;
+  }
+  if (definition.lock !== undefined) {
+    cell.lock = { ...definition.lock };
+  }
+  if (definition.flag !== undefined) {
+    cell.flag = definition.flag;
+  }
+  if (definition.autoClose !== undefined && isDoor(cell)) {
+    (cell as DoorCell).autoClose = definition.autoClose;
+  }
+
+  return cell;
+}
+
+// Creates a new Light from the specified definition.
+function createLightFromDefinition(definition: LightDefinition): Light {
+  return createLight(0, 0, definition.radius, definition.intensity, definition.flicker);
+}
+
+// Creates a new Sprite from the specified definition.
+function createSpriteFromDefinition(definition: SpriteDefinition): Sprite {
+  const names: SpritePropertyName[] = definition.properties || ['tint'];
+  let properties = 0;
+  for (const name of names) {
+    properties |= spriteProperties[name];
+  }
+
+  const sprite = createSpriteNoTint(definition.x, definition.y, definition.texture, definition.scale !== undefined ? definition.scale : 1, properties);
+  if (definition.light !== undefined) {
+    attachLight(sprite, createLightFromDefinition(definition.light));
+  }
+  if (definition.pickup !== undefined) {
+    sprite.pickup = { ...definition.pickup };
+  }
+  if (definition.hidden) {
+    sprite.hidden = true;
+    sprite.active = false;
+  }
+  return sprite;
+}
+
+// Creates a new Enemy from the specified definition.
+function createEnemyFromDefinition(definition: EnemyDefinition): Enemy {
+  return createEnemy(definition.type, definition.x, definition.y, definition.angle, definition.patrol);
+}
+
+// Creates a new Trigger from the specified definition.
+function createTriggerFromDefinition(definition: TriggerDefinition): Trigger {
+  const actions = definition.actions.map(({ action, ...target }): TriggerAction => ({ ...target, type: triggerActionTypes[action] }));
+  return { ...definition, event: triggerEvents[definition.event], actions };
+}
+
+// Creates a new Level from the specified level file, which should have already been validated.
+export function createLevelFromFile(file: LevelFile, url?: string): Level {
+  return {
+    depth: file.depth,
+    name: file.name,
+    url,
+    file,
+    entrance: { ...file.entrance },
+    exit: { ...file.exit },
+    data: file.grid.map((row) => [...row].map((key) => createCellFromDefinition(file.cells[key]))),
+    sprites: (file.sprites || []).map(createSpriteFromDefinition),
+    entities: (file.entities || []).map(createSpriteFromDefinition),
+    enemies: (file.enemies || []).map(createEnemyFromDefinition),
+    triggers: (file.triggers || []).map(createTriggerFromDefinition),
+    floor: file.floor,
+    ceiling: file.ceiling,
+    skybox: file.skybox,
+    loot: file.loot,
+    ambient: file.ambient,
+    ambience: file.ambience,
+    fog: file.fog !== undefined ? createFog(file.fog.colour, file.fog.start, file.fog.end, fogFalloffs[file.fog.falloff || 'linear']) : undefined
+  };
+}
+
+// The characters used for the cells of a level file that is created from a Level, in the order they are used.
+const cellKeys = '#.+=-_:;~*!%&@$ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// Gets the definition of the specified Light.
+function getLightDefinition(light: Light): LightDefinition {
+  return { radius: light.radius, intensity: light.intensity, flicker: light.flicker };
+}
+
+// Gets the definition of the specified Cell, leaving out anything that is the same as the default for its type of cell.
+export function getCellDefinition(cell: Cell): CellDefinition {
+  const type = cellTypes[cell.type];
+  const textures = cell.textureIds.every((textureId) => textureId === cell.textureIds[0]) ? cell.textureIds[0] : [...cell.textureIds];
+  const defaults = createCellFromDefinition({ type, textures });
+  const retVal: CellDefinition = { type, textures };
+
+  if (cell.floorHeight !== defaults.floorHeight) {
+    retVal.floorHeight = cell.floorHeight;
+  }
+  if (cell.ceilingHeight !== defaults.ceilingHeight) {
+    retVal.ceilingHeight = cell.ceilingHeight;
+  }
+
+  const properties = (Object.keys(cellProperties) as CellPropertyName[]).filter((name) => cell.properties & cellProperties[name] && !(defaults.properties & cellProperties[name]));
+  if (properties.length > 0) {
+    retVal.properties = properties;
+  }
+
+  // Activators are added to the defaults for the type of cell, so only those beyond the defaults are included, e.g. not the door activator of a door.
+  const remaining = [...defaults.activators];
+  const names: ActivatorName[] = [];
+  for (const activator of cell.activators) {
+    const index = remaining.indexOf(activator);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      continue;
+    }
+    const name = (Object.keys(activators) as ActivatorName[]).find((key) => activators[key] === activator);
+    if (name !== undefined) {
+      names.push(name);
+    }
+  }
+
+  // Lamps without any activators would otherwise get the default ones, so their activators are always included.
+  if (names.length > 0 || cell.lamp !== undefined) {
+    retVal.activators = names;
+  }
+  if (cell.state !== defaults.state) {
+    retVal.state = cell.state;
+  }
+  if (cell.light !== 0) {
+    retVal.light = cell.light;
+  }
+  if (isDoor(cell) && (cell as DoorCell).speed !== (defaults as DoorCell).speed) {
+    retVal.speed = (cell as DoorCell).speed;
+  }
+  if (cell.lamp !== undefined) {
+    retVal.lamp = getLightDefinition(cell.lamp);
+  }
+  if (cell.health !== undefined) {
+    retVal.health = cell.health;
+  }
+
+  // Whether the lock has been opened is part of the state of the game rather than the level, so it is left out.
+  if (cell.lock !== undefined) {
+    retVal.lock = { ...cell.lock };
+    delete (retVal.lock as Lock).unlocked;
+  }
+  if (cell.flag !== undefined) {
+    retVal.flag = cell.flag;
+  }
+  if (isDoor(cell) && (cell as DoorCell).autoClose !== undefined) {
+    retVal.autoClose = (cell as DoorCell).autoClose;
+  }
+
+  return retVal;
+}
+
+// Gets the definition of the specified Sprite.
+export function getSpriteDefinition(sprite: Sprite): SpriteDefinition {
+  const retVal: SpriteDefinition = { x: sprite.position.x, y: sprite.position.y, texture: sprite.textureId };
+  if (sprite.scale !== 1) {
+    retVal.scale = sprite.scale;
+  }
+
+  // Sprites are tinted by default, so the properties are only included if they are something else.
+  const properties = (Object.keys(spriteProperties) as SpritePropertyName[]).filter((name) => sprite.properties & spriteProperties[name]);
+  if (properties.length !== 1 || properties[0] !== 'tint') {
+    retVal.properties = properties;
+  }
+  if (sprite.light !== undefined) {
+    retVal.light = getLightDefinition(sprite.light);
+  }
+  if (sprite.pickup !== undefined) {
+    retVal.pickup = { ...sprite.pickup };
+  }
+  if (sprite.hidden) {
+    retVal.hidden = true;
+  }
+  return retVal;
+}
+
+// Gets the definition of the specified Trigger action.
+function getTriggerActionDefinition(action: TriggerAction): TriggerActionDefinition {
+  const name = (Object.keys(triggerActionTypes) as TriggerActionName[]).find((key) => triggerActionTypes[key] === action.type) as TriggerActionName;
+  return { action: name, x: action.x, y: action.y, sprite: action.sprite, entity: action.entity, state: action.state, angle: action.angle, message: action.message };
+}
+
+// Gets the definition of the specified Trigger, as it was when the level started.
+export function getTriggerDefinition(trigger: Trigger): TriggerDefinition {
+  const name = (Object.keys(triggerEvents) as TriggerEventName[]).find((key) => triggerEvents[key] === trigger.event) as TriggerEventName;
+  return { event: name, x: trigger.x, y: trigger.y, entity: trigger.entity, time: trigger.time, once: trigger.once, actions: trigger.actions.map(getTriggerActionDefinition) };
+}
+
+// Gets the definition of the specified Enemy, as it was when the level started.
+export function getEnemyDefinition(enemy: Enemy): EnemyDefinition {
+  const retVal: EnemyDefinition = { type: enemy.type.id, x: enemy.spawn.x, y: enemy.spawn.y };
+  if (enemy.angle !== 0) {
+    retVal.angle = enemy.angle;
+  }
+  if (enemy.patrol.length > 0) {
+    retVal.patrol = enemy.patrol.map((point) => ({ x: point.x, y: point.y }));
+  }
+  return retVal;
+}
+
+// Gives each distinct cell definition its own character, so that the cells can be written as a grid of strings.
+export function packCellDefinitions(definitions: CellDefinition[][]): Pick<LevelFile, 'cells' | 'grid'> {
+  const cells: Record<string, CellDefinition> = {};
+  const keys = new Map<string, string>();
+  const grid = definitions.map((row) =>
+    row
+      .map((definition) => {
+        const json = JSON.stringify(definition);
+        let key = keys.get(json);
+        if (key === undefined) {
+          key = keys.size < cellKeys.length ? cellKeys[keys.size] : String.fromCodePoint(0xc0 + keys.size - cellKeys.length);
+          keys.set(json, key);
+          cells[key] = JSON.parse(json);
+        }
+        return key;
+      })
+      .join('')
+  );
+  return { cells, grid };
+}
+
+// Gets the definition of each cell of the specified level file, as a grid.
+export function unpackCellDefinitions(file: LevelFile): CellDefinition[][] {
+  return file.grid.map((row) => [...row].map((key) => JSON.parse(JSON.stringify(file.cells[key]))));
+}
+
+// Creates a new level file from the specified Level, e.g. so that it can be edited and saved.
+export function createLevelFile(level: Level): LevelFile {
+  const retVal: LevelFile = {
+    depth: level.depth,
+    name: level.name,
+    entrance: { ...level.entrance },
+    exit: { ...level.exit },
+    ...packCellDefinitions(level.data.map((row) => row.map(getCellDefinition))),
+    sprites: level.sprites.map(getSpriteDefinition),
+    entities: level.entities.map(getSpriteDefinition),
+    enemies: level.enemies !== undefined && level.enemies.length > 0 ? level.enemies.map(getEnemyDefinition) : undefined,
+    triggers: level.triggers !== undefined && level.triggers.length > 0 ? level.triggers.map(getTriggerDefinition) : undefined,
+    floor: level.floor,
+    ceiling: level.ceiling,
+    skybox: level.skybox,
+    loot: level.loot,
+    ambient: level.ambient,
+    ambience: level.ambience
+  };
+
+  if (level.fog !== undefined) {
+    const falloff = (Object.keys(fogFalloffs) as FogFalloffName[]).find((name) => fogFalloffs[name] === level.fog?.falloff);
+    retVal.fog = { colour: { ...level.fog.colour }, start: level.fog.start, end: level.fog.end, falloff };
+  }
+
+  // Remove any undefined values, so that the level file is the same once it has been saved and loaded again.
+  return JSON.parse(JSON.stringify(retVal));
+}
+
+// Validates the specified level file and creates a new Level from it, throwing an error that lists everything wrong with it if it is invalid.
+export function parseLevelFile(file: unknown, url?: string): Level {
+  const errors = validateLevelFile(file);
+  if (errors.length > 0) {
+    throw new Error(`Invalid level${url ? ` '${url}'` : ''}:\n${errors.join('\n')}`);
+  }
+  return createLevelFromFile(file as LevelFile, url);
+}
+
+// Fetches the level file at the specified URL, and creates a new Level from it.
+export async function fetchLevelFile(url: string): Promise<Level> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch level '${url}': ${response.status} ${response.statusText}`);
+  }
+  return parseLevelFile(await response.json(), url);
+}
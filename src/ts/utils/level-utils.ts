@@ -1,5 +1,14 @@
 import { Cell } from '../interfaces/cell';
 import { Level } from '../interfaces/level';
+import { Texture } from '../interfaces/texture';
+import { Sound } from '../interfaces/sound';
+
+import { SoundEffect } from '../enums.js';
+import { weaponTypes } from '../data/weapons/weapons.js';
+import { getTextureById, loadTexture } from './texture-utils.js';
+import { getSoundById, loadSound } from './audio-utils.js';
+import { isDoor, isInteractive, isDestructible } from './cell-utils.js';
+import { getItemTypeById, getPickup } from './item-utils.js';
 
 // Function to get the specified Cell of the specified Level
 export function getCell(level: Level, x: number, y: number): Cell | undefined {
@@ -14,6 +23,11 @@ export function getLevelName(level: Level): string {
   return level.name ? level.name : `Level ${level.depth}`;
 }
 
+// Function to determine if the specified Level is outdoors, i.e. it has a skybox rather than a ceiling.
+export function isOutdoors(level: Level): boolean {
+  return level.skybox !== undefined && level.ceiling === undefined;
+}
+
 // Function to get all the Texture IDs required by the specified Level
 export function getTextureIdsForLevel(level: Level): Set<number> {
   const retVal: Set<number> = new Set();
@@ -28,15 +42,97 @@ export function getTextureIdsForLevel(level: Level): Set<number> {
     }
   }
 
-  // If the level has a floor, then add the Texture ID for that to the Set also.
+  // If the level has a floor, ceiling or skybox, then add the Texture IDs for those to the Set also.
   if (level.floor) {
     retVal.add(level.floor);
   }
 
-  // For each Sprite in the level, get the Texture IDs used and add them to the Set.
-  for (const sprite of level.sprites) {
+  if (level.ceiling) {
+    retVal.add(level.ceiling);
+  }
+
+  if (level.skybox) {
+    retVal.add(level.skybox);
+  }
+
+  // For each Sprite, and Entity, in the level, get the Texture IDs used and add them to the Set.
+  for (const sprite of [...level.sprites, ...level.entities]) {
     retVal.add(sprite.textureId);
   }
 
+  // For each Enemy in the level, add the Texture IDs for every state it can be in.
+  for (const enemy of level.enemies || []) {
+    for (const textureId of enemy.type.textures) {
+      retVal.add(textureId);
+    }
+  }
+
+  // The player can hold any weapon in any level, so every weapon, what it fires and the marks it leaves are always needed.
+  for (const weapon of weaponTypes) {
+    retVal.add(weapon.textureId);
+    retVal.add(weapon.decal);
+    if (weapon.projectile !== undefined) {
+      retVal.add(weapon.projectile.textureId);
+    }
+  }
+
   return retVal;
 }
+
+// Function to load all the Textures required by the specified Level
+export function loadTexturesForLevel(level: Level): Promise<Texture[]> {
+  const promises: Promise<Texture>[] = [];
+  for (const textureId of getTextureIdsForLevel(level)) {
+    promises.push(loadTexture(getTextureById(textureId)));
+  }
+  return Promise.all(promises);
+}
+
+// Function to get all the Sound IDs required by the specified Level
+export function getSoundIdsForLevel(level: Level): Set<number> {
+  const retVal: Set<number> = new Set([SoundEffect.FOOTSTEP, SoundEffect.IMPACT, ...weaponTypes.map((weapon) => weapon.sound)]);
+
+  // Doors make a sound as they open and close, whereas anything else that can be interacted with is a switch.
+  for (const row of level.data) {
+    for (const cell of row) {
+      if (isDoor(cell)) {
+        retVal.add(SoundEffect.DOOR_OPEN);
+        retVal.add(SoundEffect.DOOR_CLOSE);
+      } else if (isInteractive(cell)) {
+        retVal.add(SoundEffect.SWITCH);
+      }
+      if (isDestructible(cell)) {
+        retVal.add(SoundEffect.CRUMBLE);
+      }
+      if (cell.lock !== undefined) {
+        retVal.add(SoundEffect.LOCKED);
+      }
+    }
+  }
+
+  // Every entity can be picked up, with the sound of the item it holds.
+  for (const entity of level.entities) {
+    const type = getItemTypeById(getPickup(entity).item);
+    if (type !== undefined) {
+      retVal.add(type.sound);
+    }
+  }
+
+  if (level.ambience) {
+    retVal.add(level.ambience);
+  }
+
+  return retVal;
+}
+
+// Function to load all the Sounds required by the specified Level
+export function loadSoundsForLevel(level: Level): Promise<Sound[]> {
+  const promises: Promise<Sound>[] = [];
+  for (const soundId of getSoundIdsForLevel(level)) {
+    const sound = getSoundById(soundId);
+    if (sound !== undefined) {
+      promises.push(loadSound(sound));
+    }
+  }
+  return Promise.all(promises);
+}
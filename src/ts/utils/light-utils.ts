@@ -0,0 +1,105 @@
+import type { Cell } from '../interfaces/cell';
+import type { Level } from '../interfaces/level';
+import type { Light } from '../interfaces/light';
+import type { Sprite } from '../interfaces/sprite';
+
+// Creates a new point light at the specified position.
+export function createLight(x: number, y: number, radius: number, intensity: number = 1, flicker: number = 0): Light {
+  return {
+    position: {
+      x,
+      y
+    },
+    radius,
+    intensity,
+    flicker,
+    active: true,
+    brightness: intensity
+  };
+}
+
+// Attaches the specified light to the specified sprite, so that it moves with it.
+export function attachLight(sprite: Sprite, light: Light): Sprite {
+  light.position = sprite.position;
+  sprite.light = light;
+  return sprite;
+}
+
+// Gathers the lights attached to the cells and sprites of the specified level, so that they can be found without searching the level each frame.
+export function initialiseLights(level: Level): void {
+  const lights: Light[] = level.lights ? level.lights : [];
+
+  for (let y = 0; y < level.data.length; y++) {
+    for (let x = 0; x < level.data[y].length; x++) {
+      const lamp = level.data[y][x].lamp;
+      if (lamp !== undefined && !lights.includes(lamp)) {
+        lamp.position = { x: x + 0.5, y: y + 0.5 };
+        lights.push(lamp);
+      }
+    }
+  }
+
+  for (const sprite of [...level.sprites, ...level.entities]) {
+    if (sprite.light !== undefined && !lights.includes(sprite.light)) {
+      lights.push(sprite.light);
+    }
+  }
+
+  level.lights = lights;
+}
+
+// Switches the lights attached to the specified sprites back on, as they are at the start of a level, e.g. after a trigger has switched them off.
+export function resetLights(sprites: Sprite[]): void {
+  for (const sprite of sprites) {
+    if (sprite.light !== undefined) {
+      sprite.light.active = true;
+    }
+  }
+}
+
+// Updates the brightness of all the lights in the specified level, smoothly varying those that flicker. Lights attached to sprites that are not active,
+// e.g. a torch that has been picked up or a sprite that has not been spawned yet, give off no light at all.
+export function updateLights(level: Level, elapsed: number): void {
+  const unlit = new Set<Light>();
+  for (const sprite of [...level.sprites, ...level.entities]) {
+    if (!sprite.active && sprite.light !== undefined) {
+      unlit.add(sprite.light);
+    }
+  }
+
+  for (const light of level.lights || []) {
+    if (unlit.has(light)) {
+      light.brightness = 0;
+      continue;
+    }
+
+    const target = light.active ? light.intensity * (1 - light.flicker * Math.random()) : 0;
+    light.brightness += (target - light.brightness) * Math.min(1, elapsed * 10);
+  }
+}
+
+// Gets the amount of light at the specified position in the specified level, where 0 is pitch black and 1 is fully lit.
+export function getLightLevel(level: Level, cell: Cell | undefined, x: number, y: number): number {
+  let retVal = level.ambient !== undefined ? level.ambient : 1;
+
+  if (cell !== undefined) {
+    retVal += cell.light;
+  }
+
+  // If already fully lit, then no need to check the individual lights.
+  if (retVal >= 1) {
+    return 1;
+  }
+
+  for (const light of level.lights || []) {
+    const dx = x - light.position.x;
+    const dy = y - light.position.y;
+    const distanceSquared = dx * dx + dy * dy;
+    if (distanceSquared < light.radius * light.radius) {
+      const falloff = 1 - Math.sqrt(distanceSquared) / light.radius;
+      retVal += light.brightness * falloff * falloff;
+    }
+  }
+
+  return Math.min(Math.max(retVal, 0), 1);
+}
@@ -0,0 +1,43 @@
+import type { Cell } from '../interfaces/cell';
+import type { Level } from '../interfaces/level';
+import type { Player } from '../objects/player';
+
+import { isLocked } from './cell-utils.js';
+import { getItemTypeById } from './item-utils.js';
+
+// Checks if the specified flag is set, i.e. any cell that sets it, e.g. a switch, is not in state 0.
+export function isFlagSet(level: Level, flag: string): boolean {
+  return level.data.some((row) => row.some((cell) => cell.flag === flag && cell.state !== 0));
+}
+
+// Gets what the lock on the specified cell needs that the player has not got, as a message to show them, or undefined if the player can open it.
+function getLockRefusal(level: Level, cell: Cell, player: Player): string | undefined {
+  const lock = cell.lock;
+  if (lock === undefined || !isLocked(cell)) {
+    return undefined;
+  }
+
+  if (lock.item !== undefined && !player.hasItem(lock.item)) {
+    return lock.message || `You need a ${(getItemTypeById(lock.item)?.name || 'key').toLowerCase()}`;
+  }
+  if (lock.flag !== undefined && !isFlagSet(level, lock.flag)) {
+    return lock.message || 'It is locked';
+  }
+  return undefined;
+}
+
+// Opens the lock on the specified cell for the player, using up the item it needs if it says so, and returns undefined if it opened, or if there is no
+// lock, otherwise the message to show the player.
+export function unlock(level: Level, cell: Cell, player: Player): string | undefined {
+  const refusal = getLockRefusal(level, cell, player);
+  if (refusal !== undefined) {
+    return refusal;
+  }
+
+  const lock = cell.lock;
+  if (lock !== undefined && lock.item !== undefined && lock.consume && !lock.unlocked) {
+    player.consumeItem(lock.item);
+    lock.unlocked = true;
+  }
+  return undefined;
+}
@@ -0,0 +1,334 @@
+import type { Cell, DoorCell } from '../interfaces/cell';
+import type { Dynamic } from '../interfaces/dynamic';
+import type { Level } from '../interfaces/level';
+import type { PathOptions } from '../interfaces/path';
+import type { Vector } from '../interfaces/vector';
+
+import { DoorState } from '../enums.js';
+import { isBlocked, isDoor, isLocked, isSolid } from './cell-utils.js';
+import { getCell } from './level-utils.js';
+import * as vu from './vector-utils.js';
+
+const defaultDoorCost = 2;
+const defaultAvoidCost = 4;
+const defaultRadius = 0.25;
+const arrivalDistance = 0.1; // How close, in cells, something following a route has to get to a point to have reached it.
+const sampleDistance = 0.1; // How far apart, in cells, the points checked along a straight line are.
+
+// A cell the search has reached, and the cheapest way found to reach it so far.
+interface PathNode {
+  x: number;
+  y: number;
+  cost: number; // The cost of getting here from the start.
+  estimate: number; // The cost of getting here plus the estimated cost of getting from here to the goal.
+  parent?: PathNode;
+  closed: boolean; // Whether the cheapest way to reach the cell is known, so that it is not searched again.
+}
+
+// Checks if a path can go through the specified cell by default, i.e. it is not solid or blocked, or it is a door that is open or can be opened. Locked
+// doors are left to the player to open by hand.
+export function isTraversable(cell: Cell): boolean {
+  return !isBlocked(cell) && (isDoor(cell) ? !isLocked(cell) || !isClosedDoor(cell) : !isSolid(cell));
+}
+
+// Checks if the specified cell is a door that is not open, and so has to be opened to go through it.
+function isClosedDoor(cell: Cell | undefined): boolean {
+  return cell !== undefined && isDoor(cell) && (cell as DoorCell).status !== DoorState.OPEN;
+}
+
+// Gets the cost of moving between two cells along the shortest line of straight and diagonal steps.
+function getOctileDistance(x1: number, y1: number, x2: number, y2: number): number {
+  const dx = Math.abs(x2 - x1);
+  const dy = Math.abs(y2 - y1);
+  return dx + dy + (Math.SQRT2 - 2) * Math.min(dx, dy);
+}
+
+// Adds the node to the heap, ordered so that the node with the lowest estimate is always first.
+function pushNode(heap: PathNode[], node: PathNode): void {
+  heap.push(node);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent].estimate <= heap[index].estimate) {
+      break;
+    }
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+}
+
+// Removes, and returns, the node with the lowest estimate from the heap.
+function popNode(heap: PathNode[]): PathNode | undefined {
+  const first = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last !== undefined) {
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left].estimate < heap[smallest].estimate) {
+        smallest = left;
+      }
+      if (right < heap.length && heap[right].estimate < heap[smallest].estimate) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+  }
+  return first;
+}
+
+// Checks if something of the specified radius can walk in a straight line between two points without going through anything impassable. Doors are
+// only passable at the end of the line, so that a route stops at each door it has to open.
+export function isPathClear(level: Level, from: Vector, to: Vector, radius: number = defaultRadius, passable: (cell: Cell) => boolean = isTraversable): boolean {
+  const length = vu.distance(from, to);
+  if (length === 0) {
+    return true;
+  }
+
+  const direction = vu.scale(vu.subtract(to, from), 1 / length);
+  const side = vu.create(-direction.y, direction.x);
+  const startX = Math.floor(from.x);
+  const startY = Math.floor(from.y);
+  const endX = Math.floor(to.x);
+  const endY = Math.floor(to.y);
+  const steps = Math.ceil(length / sampleDistance);
+  for (let i = 0; i <= steps; i++) {
+    const point = vu.add(from, vu.scale(direction, (length * i) / steps));
+    for (const offset of [0, -radius, radius]) {
+      const x = Math.floor(point.x + side.x * offset);
+      const y = Math.floor(point.y + side.y * offset);
+      if (x === startX && y === startY) {
+        continue;
+      }
+      const cell = getCell(level, x, y);
+      if (cell === undefined || !passable(cell) || (isDoor(cell) && !(x === endX && y === endY))) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Removes every point from the path that can be walked past in a straight line, so that paths cut across open areas, and diagonally, rather than
+// following the grid.
+export function smoothPath(level: Level, start: Vector, path: Vector[], radius: number = defaultRadius, passable: (cell: Cell) => boolean = isTraversable): Vector[] {
+  const retVal: Vector[] = [];
+  let from = start;
+  let index = 0;
+  while (index < path.length) {
+    let furthest = index;
+    for (let i = path.length - 1; i > index; i--) {
+      if (isPathClear(level, from, path[i], radius, passable)) {
+        furthest = i;
+        break;
+      }
+    }
+    retVal.push(path[furthest]);
+    from = path[furthest];
+    index = furthest + 1;
+  }
+  return retVal;
+}
+
+// Finds the cheapest path between two points using A*, moving straight or diagonally between cells without cutting the corners of anything
+// impassable. Returns the points to walk through, ending at the goal, or undefined if the goal cannot be reached.
+export function findPath(level: Level, start: Vector, goal: Vector, options: PathOptions = {}): Vector[] | undefined {
+  const width = level.data[0].length;
+  const passable = options.passable || isTraversable;
+  const doorCost = options.doorCost !== undefined ? options.doorCost : defaultDoorCost;
+  const avoidCost = options.avoidCost !== undefined ? options.avoidCost : defaultAvoidCost;
+  const radius = options.radius !== undefined ? options.radius : defaultRadius;
+  const maxNodes = options.maxNodes !== undefined ? options.maxNodes : width * level.data.length;
+  const startX = Math.floor(start.x);
+  const startY = Math.floor(start.y);
+  const goalX = Math.floor(goal.x);
+  const goalY = Math.floor(goal.y);
+
+  // The start is always walkable, as whatever is following the path may be overlapping something it cannot walk through.
+  const isWalkable = (x: number, y: number): boolean => {
+    const cell = getCell(level, x, y);
+    return (x === startX && y === startY) || (cell !== undefined && passable(cell));
+  };
+  if (!isWalkable(goalX, goalY)) {
+    return undefined;
+  }
+
+  // Anything being avoided makes the cells it overlaps more expensive, except for the start and goal which have to be gone through anyway.
+  const avoided = new Set<number>();
+  for (const circle of options.avoid || []) {
+    for (let y = Math.floor(circle.position.y - circle.radius); y <= Math.floor(circle.position.y + circle.radius); y++) {
+      for (let x = Math.floor(circle.position.x - circle.radius); x <= Math.floor(circle.position.x + circle.radius); x++) {
+        if (!(x === startX && y === startY) && !(x === goalX && y === goalY)) {
+          avoided.add(y * width + x);
+        }
+      }
+    }
+  }
+  const getCost = (x: number, y: number): number => (isClosedDoor(getCell(level, x, y)) ? doorCost : 0) + (avoided.has(y * width + x) ? avoidCost : 0);
+
+  // Gets the cells next to the node that are worth searching. Jump point search only needs the cells ahead of the direction the node was reached
+  // from, plus any that are only reachable by going around something impassable.
+  const getNeighbours = (node: PathNode): [number, number][] => {
+    const { x, y, parent } = node;
+    const neighbours: [number, number][] = [];
+    const add = (nx: number, ny: number): void => {
+      if (isWalkable(nx, ny)) {
+        neighbours.push([nx, ny]);
+      }
+    };
+
+    if (!options.jumpPoints || parent === undefined) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx !== 0 || dy !== 0) && (dx === 0 || dy === 0 || (isWalkable(x + dx, y) && isWalkable(x, y + dy)))) {
+            add(x + dx, y + dy);
+          }
+        }
+      }
+      return neighbours;
+    }
+
+    const dx = Math.sign(x - parent.x);
+    const dy = Math.sign(y - parent.y);
+    if (dx !== 0 && dy !== 0) {
+      add(x, y + dy);
+      add(x + dx, y);
+      if (isWalkable(x, y + dy) && isWalkable(x + dx, y)) {
+        add(x + dx, y + dy);
+      }
+    } else if (dx !== 0) {
+      if (isWalkable(x + dx, y)) {
+        add(x + dx, y);
+        if (isWalkable(x, y + 1)) {
+          add(x + dx, y + 1);
+        }
+        if (isWalkable(x, y - 1)) {
+          add(x + dx, y - 1);
+        }
+      }
+      add(x, y + 1);
+      add(x, y - 1);
+    } else {
+      if (isWalkable(x, y + dy)) {
+        add(x, y + dy);
+        if (isWalkable(x + 1, y)) {
+          add(x + 1, y + dy);
+        }
+        if (isWalkable(x - 1, y)) {
+          add(x - 1, y + dy);
+        }
+      }
+      add(x + 1, y);
+      add(x - 1, y);
+    }
+    return neighbours;
+  };
+
+  // Carries on in the specified direction until reaching a cell that is worth searching, i.e. the goal, a cell that costs more to go through, or a cell
+  // with a neighbour that can only be reached by going around something impassable.
+  const jump = (x: number, y: number, dx: number, dy: number): [number, number] | undefined => {
+    for (;;) {
+      if (!isWalkable(x, y)) {
+        return undefined;
+      }
+      if ((x === goalX && y === goalY) || getCost(x, y) > 0) {
+        return [x, y];
+      }
+      if (dx !== 0 && dy !== 0) {
+        if (jump(x + dx, y, dx, 0) !== undefined || jump(x, y + dy, 0, dy) !== undefined) {
+          return [x, y];
+        }
+        if (!isWalkable(x + dx, y) || !isWalkable(x, y + dy)) {
+          return undefined;
+        }
+      } else if (dx !== 0) {
+        if ((isWalkable(x, y - 1) && !isWalkable(x - dx, y - 1)) || (isWalkable(x, y + 1) && !isWalkable(x - dx, y + 1))) {
+          return [x, y];
+        }
+      } else if ((isWalkable(x - 1, y) && !isWalkable(x - 1, y - dy)) || (isWalkable(x + 1, y) && !isWalkable(x + 1, y - dy))) {
+        return [x, y];
+      }
+      x += dx;
+      y += dy;
+    }
+  };
+
+  // NOTE: Nodes are not removed from the heap when a cheaper way to reach them is found, instead they are added again and the stale entry is skipped.
+  const nodes = new Map<number, PathNode>();
+  const heap: PathNode[] = [];
+  const first: PathNode = { x: startX, y: startY, cost: 0, estimate: getOctileDistance(startX, startY, goalX, goalY), closed: false };
+  nodes.set(startY * width + startX, first);
+  pushNode(heap, first);
+
+  let searched = 0;
+  let node: PathNode | undefined;
+  while ((node = popNode(heap)) !== undefined && searched < maxNodes) {
+    if (node.closed) {
+      continue;
+    }
+    node.closed = true;
+    searched++;
+
+    if (node.x === goalX && node.y === goalY) {
+      const path: Vector[] = [];
+      for (let step: PathNode | undefined = node; step !== undefined && step.parent !== undefined; step = step.parent) {
+        path.unshift(vu.create(step.x + 0.5, step.y + 0.5));
+      }
+      path[path.length - 1] = vu.create(goal.x, goal.y);
+      return options.smooth === false ? path : smoothPath(level, start, path, radius, passable);
+    }
+
+    for (const [nx, ny] of getNeighbours(node)) {
+      const next = options.jumpPoints ? jump(nx, ny, nx - node.x, ny - node.y) : [nx, ny];
+      if (next === undefined) {
+        continue;
+      }
+
+      const [x, y] = next;
+      const cost = node.cost + getOctileDistance(node.x, node.y, x, y) + getCost(x, y);
+      const existing = nodes.get(y * width + x);
+      if (existing !== undefined && (existing.closed || existing.cost <= cost)) {
+        continue;
+      }
+      const reached: PathNode = { x, y, cost, estimate: cost + getOctileDistance(x, y, goalX, goalY), parent: node, closed: false };
+      nodes.set(y * width + x, reached);
+      pushNode(heap, reached);
+    }
+  }
+  return undefined;
+}
+
+// Moves the entity up to the specified distance along the route, turning it to face each point in turn and removing the points as they are reached.
+// Closed doors on the route are opened as the entity reaches them. Returns whether the end of the route has been reached.
+export function followRoute(level: Level, entity: Dynamic, route: Vector[], distance: number): boolean {
+  while (route.length > 0 && distance > 0) {
+    const point = route[0];
+    const cell = getCell(level, Math.floor(point.x), Math.floor(point.y));
+    if (cell !== undefined && isClosedDoor(cell) && !isLocked(cell) && vu.distance(point, entity.position) < 1.5) {
+      const door = cell as DoorCell;
+      if (door.status === DoorState.CLOSED || door.status === DoorState.CLOSING) {
+        for (const activator of door.activators) {
+          activator(door);
+        }
+      }
+    }
+
+    const remaining = vu.distance(point, entity.position);
+    const step = Math.min(distance, remaining);
+    entity.face(point);
+    entity.move(step, level);
+    distance -= step;
+    if (vu.distance(point, entity.position) > arrivalDistance) {
+      break;
+    }
+    route.shift();
+  }
+  return route.length === 0;
+}
@@ -0,0 +1,197 @@
+import type { Context2D } from '../types';
+import type { Entity } from '../interfaces/entity';
+import type { Level } from '../interfaces/level';
+import type { EntityState, FrameMessage, LevelMessage, RenderMessage } from '../interfaces/messages';
+
+import { MessageType, RendererType } from '../enums.js';
+import { levels } from '../data/levels/levels.js';
+import { setExploredCells } from './automap-utils.js';
+import { createLevelState, getLevelDiff, resetLevelDiff, writeLevelState } from './diff-utils.js';
+
+// The pool of render workers, each of which renders a vertical strip of every frame.
+let workers: Worker[] = [];
+
+// The level the workers are rendering, and its shared state if SharedArrayBuffer is available.
+let currentLevel: Level | undefined;
+let currentState: Float64Array | undefined;
+
+// The strips of the frame that is currently being rendered, the number of them that are still outstanding, and the level they were requested for, as
+// the current level may change before they arrive.
+let strips: FrameMessage[] = [];
+let pending = 0;
+let frameLevel: Level | undefined;
+
+// The strips of the last complete frame, which are kept until they have been presented.
+let frame: FrameMessage[] | undefined;
+
+// The time, in milliseconds, it took each worker to render its strip of the last complete frame.
+let timings: number[] = [];
+
+// Gets the parts of the specified entity that are needed to render the level from its perspective.
+function getEntityState(entity: Entity): EntityState {
+  return {
+    position: entity.position,
+    radius: entity.radius,
+    direction: entity.direction,
+    camera: entity.camera,
+    active: entity.active,
+    elevation: entity.elevation,
+    eyeHeight: entity.eyeHeight,
+    pitch: entity.pitch
+  };
+}
+
+// Gives up on the pool of render workers once one of them fails, e.g. as it could not load the level, so that the main thread renders every frame
+// instead of waiting forever for a strip that will never arrive.
+function onWorkerError(event: Event): void {
+  console.error('A render worker failed, so rendering on the main thread instead', event);
+  createRenderPool(0);
+}
+
+// Receives a strip from one of the workers, and once all the strips have arrived keeps them as the last complete frame.
+function onStrip(index: number, event: MessageEvent<FrameMessage>): void {
+  if (event.data.failed) {
+    onWorkerError(event);
+    return;
+  }
+
+  strips[index] = event.data;
+  pending -= 1;
+
+  // Add the cells the worker saw to the automap, even if the frame turns out to be incomplete.
+  if (frameLevel !== undefined && event.data.explored !== undefined) {
+    setExploredCells(frameLevel, event.data.explored);
+  }
+  if (pending > 0) {
+    return;
+  }
+
+  // If any of the workers are still loading the level, then the frame is incomplete so discard it.
+  if (strips.some((strip) => strip.image === undefined)) {
+    closeStrips(strips);
+    return;
+  }
+
+  if (frame !== undefined) {
+    closeStrips(frame);
+  }
+  frame = strips;
+  timings = strips.map((strip) => strip.time);
+}
+
+// Frees the images for the specified strips.
+function closeStrips(strips: FrameMessage[]): void {
+  for (const strip of strips) {
+    if (strip.image !== undefined) {
+      strip.image.close();
+    }
+  }
+}
+
+// Checks if the level can be rendered by a pool of workers, as each worker needs to be able to create its own Offscreen Canvas.
+export function isRenderPoolSupported(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+// Checks if the state of the level can be shared with the workers, which requires the page to be cross-origin isolated.
+export function isLevelStateShared(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated === true;
+}
+
+// Replaces the current pool of render workers with a new pool of the specified size, where 0 means no workers.
+export function createRenderPool(size: number): void {
+  for (const worker of workers) {
+    worker.terminate();
+  }
+
+  workers = [];
+  currentLevel = undefined;
+  strips = [];
+  pending = 0;
+  timings = [];
+
+  // Forget any frame rendered by the previous pool that was never presented.
+  if (frame !== undefined) {
+    closeStrips(frame);
+    frame = undefined;
+  }
+
+  for (let i = 0; i < size; i++) {
+    const worker = new Worker('worker.js', { type: 'module' });
+    worker.onmessage = (event: MessageEvent<FrameMessage>): void => onStrip(i, event);
+    worker.onerror = onWorkerError;
+    worker.onmessageerror = onWorkerError;
+    workers.push(worker);
+  }
+}
+
+// Gets the number of workers in the current pool.
+export function getRenderPoolSize(): number {
+  return workers.length;
+}
+
+// Gets the time, in milliseconds, it took each worker to render its strip of the last complete frame.
+export function getStripTimings(): number[] {
+  return timings;
+}
+
+// Asks the workers to render the next frame, unless they are still busy rendering the previous one, sending them any changes since the last frame.
+export function requestFrame(level: Level, entity: Entity, timestamp: number, width: number, height: number, renderer: RendererType, debug: boolean): void {
+  if (level !== currentLevel) {
+    currentLevel = level;
+    currentState = isLevelStateShared() ? createLevelState(level) : undefined;
+    resetLevelDiff();
+
+    const message: LevelMessage = { type: MessageType.LEVEL, level: levels.indexOf(level), file: level.file, state: currentState ? (currentState.buffer as SharedArrayBuffer) : undefined };
+    for (const worker of workers) {
+      worker.postMessage(message);
+    }
+  }
+
+  if (pending > 0) {
+    return;
+  }
+
+  // Either update the shared state, or calculate a single diff that is sent to every worker, as they all render every frame.
+  let diff;
+  if (currentState !== undefined) {
+    writeLevelState(level, currentState);
+  } else {
+    diff = getLevelDiff(level);
+  }
+
+  strips = [];
+  pending = workers.length;
+  frameLevel = level;
+  for (let i = 0; i < workers.length; i++) {
+    const message: RenderMessage = {
+      type: MessageType.RENDER,
+      timestamp,
+      width,
+      height,
+      start: Math.floor((i * width) / workers.length),
+      end: Math.floor(((i + 1) * width) / workers.length),
+      renderer,
+      debug,
+      entity: getEntityState(entity),
+      diff
+    };
+    workers[i].postMessage(message);
+  }
+}
+
+// Copies the strips of the last complete frame to the target canvas. Returns false if there is no new frame to present.
+export function presentFrame(context: Context2D): boolean {
+  if (frame === undefined) {
+    return false;
+  }
+
+  for (const strip of frame) {
+    const image = strip.image as ImageBitmap;
+    context.drawImage(image, strip.start, 0, strip.end - strip.start, image.height, strip.start, 0, strip.end - strip.start, image.height);
+  }
+
+  closeStrips(frame);
+  frame = undefined;
+  return true;
+}
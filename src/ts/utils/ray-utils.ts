@@ -0,0 +1,190 @@
+import type { Level } from '../interfaces/level';
+import type { CastResult, RayPredicate } from '../interfaces/raycaster';
+import type { Vector } from '../interfaces/vector';
+import type { Cell, DoorCell } from '../interfaces/cell';
+
+import { CellType, Face } from '../enums.js';
+import { isBlocked, isDoor, isInteractive, isSolid, isThin, isTransparent } from './cell-utils.js';
+import { getCell } from './level-utils.js';
+import * as vu from './vector-utils.js';
+
+// Predicate that matches every Cell.
+export function rayHitsAll(): boolean {
+  return true;
+}
+
+// Predicate that matches Cells which block a rays line of sight.
+export function rayHitsSolid(cell: Cell): boolean {
+  return isSolid(cell) !== 0;
+}
+
+// Predicate that matches Cells which the player can interact with, stopping at any solid Cell that gets in the way.
+export function rayHitsInteractive(cell: Cell): boolean {
+  return isSolid(cell) !== 0 || isInteractive(cell) !== 0 || cell.type === CellType.ENTRANCE || cell.type === CellType.EXIT;
+}
+
+// Predicate that matches Cells which block movement, i.e. solid walls and invisible walls.
+export function rayHitsBlocked(cell: Cell): boolean {
+  return isSolid(cell) !== 0 || isBlocked(cell) !== 0;
+}
+
+// Predicate that matches solid Cells which cannot be seen through, e.g. so that enemies can see the player through a grate.
+export function rayHitsOpaque(cell: Cell): boolean {
+  return isSolid(cell) !== 0 && isTransparent(cell) === 0;
+}
+
+// Derived from https://lodev.org/cgtutor/raycasting.html.
+// Walks a ray from the specified origin in the specified direction, passing every Cell that matches the predicate to the visitor until either the
+// visitor returns true, the maximum depth is reached or the ray leaves the level.
+// NOTE: The distance returned is measured in multiples of the length of the direction vector, so if the direction is normalised then it is the
+// euclidean distance, and if it is a camera ray then it is the perpendicular distance to the camera plane.
+export function traceRay(level: Level, origin: Vector, direction: Vector, predicate: RayPredicate, maxDepth: number, visitor: (result: CastResult) => boolean): void {
+  // Calculate the distance from one cell boundary to the next boundary in the X or Y direction.
+  const deltaDistanceX = Math.abs(1 / direction.x);
+  const deltaDistanceY = Math.abs(1 / direction.y);
+
+  // Tracks the current Cell as the line is cast.
+  const castCell: Vector = vu.create(Math.floor(origin.x), Math.floor(origin.y));
+
+  // Tracks the total distance from the ray's origin as the line is cast.
+  const castDistance: Vector = vu.create();
+
+  // Counts the steps along each axis as the line is cast.
+  const castStep: Vector = vu.create();
+
+  // Step to the next Cell on the X Axis.
+  if (direction.x < 0) {
+    castStep.x = -1;
+    castDistance.x = (origin.x - castCell.x) * deltaDistanceX;
+  } else {
+    castStep.x = 1;
+    castDistance.x = (castCell.x + 1 - origin.x) * deltaDistanceX;
+  }
+
+  // Step to the next Cell on the Y Axis.
+  if (direction.y < 0) {
+    castStep.y = -1;
+    castDistance.y = (origin.y - castCell.y) * deltaDistanceY;
+  } else {
+    castStep.y = 1;
+    castDistance.y = (castCell.y + 1 - origin.y) * deltaDistanceY;
+  }
+
+  // Count the number of DDA steps executed, so that we can break if the maximum depth is reached.
+  let count = 0;
+
+  // Tracks if the DDA step was in the X or the Y axis.
+  let side;
+
+  // Use DDA to step through all the cell boundaries the ray touches.
+  while (count++ < maxDepth) {
+    // Advance along either the X or the Y axis to the next Cell boundary.
+    if (castDistance.x < castDistance.y) {
+      castDistance.x += deltaDistanceX;
+      castCell.x += castStep.x;
+      side = castStep.x < 0 ? Face.EAST : Face.WEST;
+    } else {
+      castDistance.y += deltaDistanceY;
+      castCell.y += castStep.y;
+      side = castStep.y > 0 ? Face.NORTH : Face.SOUTH;
+    }
+
+    // Get the Cell that the ray has hit.
+    const cell = getCell(level, castCell.x, castCell.y);
+
+    // If the cell is not valid, then most likely exceeded the boundaries of the level hence give up.
+    if (cell === undefined) {
+      break;
+    }
+
+    // Check if the Cell is one the caller is interested in.
+    if (predicate(cell)) {
+      // Calculate the distance from the ray's origin to the cell that was hit, and the specific point on the wall the ray hit.
+      let distance = 0;
+      let wall = 0;
+
+      // Thin walls sit along the center line of their Cell, so offset the boundary being tested by half a Cell.
+      let offset = 0;
+
+      switch (side) {
+        case Face.EAST:
+        case Face.WEST:
+          if (isThin(cell)) {
+            // Check if the ray hits the center line of the thin wall, if not then it will hit the adjacent cell hence continue.
+            if (castDistance.x - deltaDistanceX * 0.5 > castDistance.y) {
+              continue;
+            }
+            offset = castStep.x * 0.5;
+          }
+
+          distance = Math.abs((castCell.x + offset - origin.x + (1 - castStep.x) / 2) / direction.x);
+          wall = origin.y + ((castCell.x + offset - origin.x + (1 - castStep.x) / 2) / direction.x) * direction.y;
+          wall -= Math.floor(wall);
+          break;
+
+        case Face.NORTH:
+        case Face.SOUTH:
+          if (isThin(cell)) {
+            // Check if the ray hits the center line of the thin wall, if not then it will hit the adjacent cell hence continue.
+            if (castDistance.y - deltaDistanceY * 0.5 > castDistance.x) {
+              continue;
+            }
+            offset = castStep.y * 0.5;
+          }
+
+          distance = Math.abs((castCell.y + offset - origin.y + (1 - castStep.y) / 2) / direction.y);
+          wall = origin.x + ((castCell.y + offset - origin.y + (1 - castStep.y) / 2) / direction.y) * direction.x;
+          wall -= Math.floor(wall);
+          break;
+      }
+
+      // If the cell is a door that is still solid, then account for the door opening or closing. A fully open door has no leaf to hit, so is treated
+      // as a doorway for any predicate that still matches it, e.g. so that the player can interact with it to close it again.
+      if (isDoor(cell) && isSolid(cell)) {
+        // Calculate the percentage that the door is open.
+        const doorOpenPercent = 0.01 * (cell as DoorCell).percent;
+
+        // Check if the ray hits the door, and if not continue to cast.
+        if (wall > doorOpenPercent) {
+          continue;
+        }
+
+        // Offset the texture for the door based on how open it is.
+        wall = doorOpenPercent - wall;
+      }
+
+      const result: CastResult = {
+        ...castCell,
+        cell,
+        face: side as Face,
+        wall,
+        distance
+      };
+
+      if (visitor(result)) {
+        break;
+      }
+    }
+  }
+}
+
+// Casts a ray from the specified origin in the specified direction and returns the first Cell that matches the predicate.
+export function castRay(level: Level, origin: Vector, direction: Vector, predicate: RayPredicate = rayHitsSolid, maxDepth: number = 50): CastResult | undefined {
+  let retVal: CastResult | undefined;
+  traceRay(level, origin, direction, predicate, maxDepth, (result: CastResult): boolean => {
+    retVal = result;
+    return true;
+  });
+  return retVal;
+}
+
+// Casts a ray from the specified origin in the specified direction and returns every Cell that matches the predicate, ordered from nearest to
+// farthest, up to and including the first one that is fully opaque.
+export function castRays(level: Level, origin: Vector, direction: Vector, predicate: RayPredicate = rayHitsSolid, maxDepth: number = 50): CastResult[] {
+  const retVal: CastResult[] = [];
+  traceRay(level, origin, direction, predicate, maxDepth, (result: CastResult): boolean => {
+    retVal.push(result);
+    return !isTransparent(result.cell);
+  });
+  return retVal;
+}
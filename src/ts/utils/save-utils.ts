@@ -0,0 +1,548 @@
+import type { Cell, DoorCell } from '../interfaces/cell';
+import type { Level } from '../interfaces/level';
+import type { SaveGame, SavedCell, SavedEnemy, SavedLevel, SavedPlayer, SavedSprite, SavedTrigger } from '../interfaces/save-game';
+import type { Sprite } from '../interfaces/sprite';
+import type { Trigger } from '../interfaces/trigger';
+import type { Enemy } from '../objects/enemy';
+import type { Player } from '../objects/player';
+
+import { CellProperties, DoorState, EnemyState, TriggerActionType } from '../enums.js';
+import { levels, loadLevel, replaceLevel } from '../data/levels/levels.js';
+import { weaponTypes } from '../data/weapons/weapons.js';
+import { itemTypes } from '../data/items/items.js';
+import { maxHealth } from '../objects/player.js';
+import { getExploredCells, markExplored } from './automap-utils.js';
+import { startDoorTimer } from './activator-utils.js';
+import { isBlocked, isDoor, isInteractive, isSolid } from './cell-utils.js';
+import { parseLevelFile } from './level-file-utils.js';
+import { getCell } from './level-utils.js';
+import { resetLights } from './light-utils.js';
+import { deregisterTimer } from './timer-utils.js';
+import * as vu from './vector-utils.js';
+
+// The current version of the save game schema, which must be increased whenever it changes, along with adding an upgrade from the previous version.
+export const saveGameVersion = 8;
+
+// Marks each of the sprites in a save game from before version 8 as inactive, as only the sprites that were no longer active were saved.
+function markInactive(sprites: unknown): unknown {
+  return Array.isArray(sprites) ? sprites.map((sprite) => ({ ...(sprite as object), active: false })) : sprites;
+}
+
+// Upgrades a save game from the version before the index to the next version, e.g. the first upgrade takes a version 1 save to version 2.
+const upgrades: ((save: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // Version 2 added the player's health and the enemies, which start as they are in the level.
+  (save) => ({ ...save, player: { ...(save.player as object), health: maxHealth }, enemies: [] }),
+  // Version 3 added the player's weapons, where the ammo for each weapon starts as it does in a new game.
+  (save) => ({ ...save, player: { ...(save.player as object), weapon: weaponTypes[0].id, ammo: {} } }),
+  // Version 4 added the player's inventory and power-ups, which start empty.
+  (save) => ({ ...save, player: { ...(save.player as object), inventory: {}, powerUps: {} } }),
+  // Version 5 added whether each lock has been opened, where locks in older saves are still locked.
+  (save) => save,
+  // Version 6 added the triggers, which start as they are in the level.
+  (save) => ({ ...save, triggers: [] }),
+  // Version 7 added every cell a trigger acts on, where those that were not saved before are left as they are in the level.
+  (save) => save,
+  // Version 8 added whether each sprite is active, and whether its light is switched on, where lights in older saves are switched on.
+  (save) => ({ ...save, entities: markInactive(save.entities), sprites: markInactive(save.sprites) })
+];
+
+// The prefix of the keys used to store save games in local storage.
+const storageKey = 'raycaster.save.';
+
+// Checks if the specified cell can change whilst playing, and so needs to be saved.
+function isSavedCell(cell: Cell): boolean {
+  return isDoor(cell) || isInteractive(cell) > 0 || cell.lamp !== undefined || cell.health !== undefined;
+}
+
+// Gets the cells that the triggers in the specified level act on, which can change whilst playing even if they could not otherwise, e.g. a wall whose
+// state is set by a trigger.
+function getTriggerTargets(level: Level): Set<Cell> {
+  const retVal = new Set<Cell>();
+  for (const trigger of level.triggers || []) {
+    for (const action of trigger.actions) {
+      const cell = action.type !== TriggerActionType.TELEPORT && action.x !== undefined && action.y !== undefined ? getCell(level, action.x, action.y) : undefined;
+      if (cell !== undefined) {
+        retVal.add(cell);
+      }
+    }
+  }
+  return retVal;
+}
+
+// Gets the state of the sprites that can differ from how they start, i.e. those that are no longer active, e.g. entities that have been collected, and
+// those with a light that can be switched off.
+function getSavedSprites(sprites: Sprite[]): SavedSprite[] {
+  return sprites.filter((sprite) => !sprite.active || sprite.light !== undefined).map((sprite) => ({ x: sprite.position.x, y: sprite.position.y, texture: sprite.textureId, active: sprite.active, light: sprite.light?.active }));
+}
+
+// Gets the state of the specified enemy.
+function getSavedEnemy(enemy: Enemy): SavedEnemy {
+  return {
+    type: enemy.type.id,
+    position: { ...enemy.position },
+    direction: { ...enemy.direction },
+    camera: { ...enemy.camera },
+    health: enemy.health,
+    state: enemy.state,
+    waypoint: enemy.waypoint,
+    target: enemy.target !== undefined ? { ...enemy.target } : undefined
+  };
+}
+
+// Gets the state of the specified trigger.
+function getSavedTrigger(trigger: Trigger): SavedTrigger {
+  return { fired: trigger.fired === true, elapsed: trigger.elapsed };
+}
+
+// Gets the state of every cell in the specified level that can change whilst playing.
+export function getSavedCells(level: Level): SavedCell[] {
+  const cells: SavedCell[] = [];
+  const targets = getTriggerTargets(level);
+  level.data.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (!isSavedCell(cell) && !targets.has(cell)) {
+        return;
+      }
+      const saved: SavedCell = { x, y, type: cell.type, state: cell.state };
+      if (isDoor(cell)) {
+        saved.status = (cell as DoorCell).status;
+        saved.percent = (cell as DoorCell).percent;
+      }
+      if (cell.lamp !== undefined) {
+        saved.lamp = cell.lamp.active;
+      }
+      if (cell.health !== undefined) {
+        saved.health = cell.health;
+      }
+      if (cell.lock !== undefined && cell.lock.unlocked) {
+        saved.unlocked = true;
+      }
+      cells.push(saved);
+    });
+  });
+  return cells;
+}
+
+// Creates a snapshot of the specified level, and the player within it.
+export function createSaveGame(level: Level, player: Player, score: number): SaveGame {
+  // Levels that were edited can only be restored from the level itself, whereas everything else can be loaded again from where it came from.
+  const index = levels.indexOf(level);
+  return {
+    version: saveGameVersion,
+    date: new Date().toISOString(),
+    level: {
+      index,
+      depth: level.depth,
+      name: level.name,
+      url: level.url,
+      file: level.url === undefined ? level.file : undefined,
+      width: level.data[0].length
+    },
+    player: {
+      position: { ...player.position },
+      direction: { ...player.direction },
+      camera: { ...player.camera },
+      elevation: player.elevation,
+      pitch: player.pitch,
+      crouching: player.crouching,
+      health: player.health,
+      weapon: player.weapon.id,
+      ammo: { ...player.ammo },
+      inventory: { ...player.inventory },
+      powerUps: { ...player.powerUps }
+    },
+    score,
+    cells: getSavedCells(level),
+    entities: getSavedSprites(level.entities),
+    sprites: getSavedSprites(level.sprites),
+    enemies: (level.enemies || []).map(getSavedEnemy),
+    triggers: (level.triggers || []).map(getSavedTrigger),
+    explored: getExploredCells(level)
+  };
+}
+
+// Checks if the specified value is a finite number.
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Checks if the specified value is an object, rather than an array or a primitive.
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Checks that the specified value is a number, or an integer no less than min, unless it is optional and undefined.
+function checkNumber(errors: string[], path: string, value: unknown, optional = false, integer = false, min = -Infinity): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (!isNumber(value) || (integer && !Number.isInteger(value)) || value < min) {
+    errors.push(`${path}: expected ${integer ? 'an integer' : 'a number'}${min > -Infinity ? ` of at least ${min}` : ''} but found ${JSON.stringify(value)}`);
+  }
+}
+
+// Checks that the specified value is of the specified primitive type, unless it is optional and undefined.
+function checkType(errors: string[], path: string, value: unknown, type: 'boolean' | 'string', optional = false): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (typeof value !== type) {
+    errors.push(`${path}: expected a ${type} but found ${JSON.stringify(value)}`);
+  }
+}
+
+// Checks that the specified value is one of the values of the specified enum.
+function checkEnum(errors: string[], path: string, value: unknown, values: Record<string, string | number>): void {
+  if (!isNumber(value) || !Object.values(values).includes(value)) {
+    errors.push(`${path}: unknown value ${JSON.stringify(value)}`);
+  }
+}
+
+// Checks that the specified value is a vector, unless it is optional and undefined.
+function checkVector(errors: string[], path: string, value: unknown, optional = false): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a vector but found ${JSON.stringify(value)}`);
+    return;
+  }
+  checkNumber(errors, `${path}.x`, value.x);
+  checkNumber(errors, `${path}.y`, value.y);
+}
+
+// Checks that the specified value is an object whose values are all numbers, e.g. the ammo for each weapon.
+function checkRecord(errors: string[], path: string, value: unknown): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    checkNumber(errors, `${path}.${key}`, entry);
+  }
+}
+
+// Checks that the specified value is an object, and then checks its fields with the specified function.
+function checkObject(errors: string[], path: string, value: unknown, check: (value: Record<string, unknown>) => void): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object but found ${JSON.stringify(value)}`);
+    return;
+  }
+  check(value);
+}
+
+// Checks that the specified value is an array, and then checks each of its entries with the specified function.
+function checkArray(errors: string[], path: string, value: unknown, check: (path: string, value: unknown) => void): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array but found ${JSON.stringify(value)}`);
+    return;
+  }
+  value.forEach((entry, index) => check(`${path}[${index}]`, entry));
+}
+
+// Checks that the specified value is a valid saved level. Edited levels are only checked as they are loaded, as that reports everything wrong with them.
+function checkSavedLevel(errors: string[], path: string, value: unknown): void {
+  checkObject(errors, path, value, (level) => {
+    checkNumber(errors, `${path}.index`, level.index, false, true, -1);
+    checkNumber(errors, `${path}.depth`, level.depth);
+    checkType(errors, `${path}.name`, level.name, 'string', true);
+    checkType(errors, `${path}.url`, level.url, 'string', true);
+    if (level.file !== undefined && !isObject(level.file)) {
+      errors.push(`${path}.file: expected an object but found ${JSON.stringify(level.file)}`);
+    }
+    checkNumber(errors, `${path}.width`, level.width, false, true, 1);
+  });
+}
+
+// Checks that the specified value is a valid saved player.
+function checkSavedPlayer(errors: string[], path: string, value: unknown): void {
+  checkObject(errors, path, value, (player) => {
+    checkVector(errors, `${path}.position`, player.position);
+    checkVector(errors, `${path}.direction`, player.direction);
+    checkVector(errors, `${path}.camera`, player.camera);
+    checkNumber(errors, `${path}.elevation`, player.elevation);
+    checkNumber(errors, `${path}.pitch`, player.pitch);
+    checkType(errors, `${path}.crouching`, player.crouching, 'boolean');
+    checkNumber(errors, `${path}.health`, player.health);
+    checkNumber(errors, `${path}.weapon`, player.weapon);
+    checkRecord(errors, `${path}.ammo`, player.ammo);
+    checkRecord(errors, `${path}.inventory`, player.inventory);
+    checkRecord(errors, `${path}.powerUps`, player.powerUps);
+  });
+}
+
+// Checks that the specified value is a valid saved cell.
+function checkSavedCell(errors: string[], path: string, value: unknown): void {
+  checkObject(errors, path, value, (cell) => {
+    checkNumber(errors, `${path}.x`, cell.x, false, true);
+    checkNumber(errors, `${path}.y`, cell.y, false, true);
+    checkNumber(errors, `${path}.type`, cell.type, false, true);
+    checkNumber(errors, `${path}.state`, cell.state, false, true);
+    if (cell.status !== undefined) {
+      checkEnum(errors, `${path}.status`, cell.status, DoorState);
+    }
+    checkNumber(errors, `${path}.percent`, cell.percent, true);
+    checkType(errors, `${path}.lamp`, cell.lamp, 'boolean', true);
+    checkNumber(errors, `${path}.health`, cell.health, true);
+    checkType(errors, `${path}.unlocked`, cell.unlocked, 'boolean', true);
+  });
+}
+
+// Checks that the specified value is a valid saved sprite.
+function checkSavedSprite(errors: string[], path: string, value: unknown): void {
+  checkObject(errors, path, value, (sprite) => {
+    checkNumber(errors, `${path}.x`, sprite.x);
+    checkNumber(errors, `${path}.y`, sprite.y);
+    checkNumber(errors, `${path}.texture`, sprite.texture, false, true);
+    checkType(errors, `${path}.active`, sprite.active, 'boolean');
+    checkType(errors, `${path}.light`, sprite.light, 'boolean', true);
+  });
+}
+
+// Checks that the specified value is a valid saved enemy.
+function checkSavedEnemy(errors: string[], path: string, value: unknown): void {
+  checkObject(errors, path, value, (enemy) => {
+    checkNumber(errors, `${path}.type`, enemy.type, false, true);
+    checkVector(errors, `${path}.position`, enemy.position);
+    checkVector(errors, `${path}.direction`, enemy.direction);
+    checkVector(errors, `${path}.camera`, enemy.camera);
+    checkNumber(errors, `${path}.health`, enemy.health);
+    checkEnum(errors, `${path}.state`, enemy.state, EnemyState);
+    checkNumber(errors, `${path}.waypoint`, enemy.waypoint, false, true, 0);
+    checkVector(errors, `${path}.target`, enemy.target, true);
+  });
+}
+
+// Checks that the specified value is a valid saved trigger.
+function checkSavedTrigger(errors: string[], path: string, value: unknown): void {
+  checkObject(errors, path, value, (trigger) => {
+    checkType(errors, `${path}.fired`, trigger.fired, 'boolean');
+    checkNumber(errors, `${path}.elapsed`, trigger.elapsed, true);
+  });
+}
+
+// Upgrades the specified save game to the current version of the schema, throwing an error if it is not a save game, is from a newer version, or any
+// part of it is invalid. Everything is checked here, so that nothing is changed by loading a save game that can't be restored.
+export function upgradeSaveGame(data: unknown): SaveGame {
+  if (!isObject(data)) {
+    throw new Error(`Invalid save game: expected an object`);
+  }
+
+  let save = data;
+  const version = save.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid save game: expected a version`);
+  }
+  if (version > saveGameVersion) {
+    throw new Error(`Invalid save game: version ${version} is newer than the supported version ${saveGameVersion}`);
+  }
+  for (let i = version; i < saveGameVersion; i++) {
+    save = upgrades[i - 1](save);
+  }
+
+  const { date, level, player, score, cells, entities, sprites, enemies, triggers, explored } = save;
+  const errors: string[] = [];
+  checkType(errors, 'date', date, 'string');
+  checkSavedLevel(errors, 'level', level);
+  checkSavedPlayer(errors, 'player', player);
+  checkNumber(errors, 'score', score);
+  checkArray(errors, 'cells', cells, (path, value) => checkSavedCell(errors, path, value));
+  checkArray(errors, 'entities', entities, (path, value) => checkSavedSprite(errors, path, value));
+  checkArray(errors, 'sprites', sprites, (path, value) => checkSavedSprite(errors, path, value));
+  checkArray(errors, 'enemies', enemies, (path, value) => checkSavedEnemy(errors, path, value));
+  checkArray(errors, 'triggers', triggers, (path, value) => checkSavedTrigger(errors, path, value));
+  checkArray(errors, 'explored', explored, (path, value) => checkNumber(errors, path, value, false, true, 0));
+  if (errors.length > 0) {
+    throw new Error(`Invalid save game:\n${errors.join('\n')}`);
+  }
+
+  return {
+    version: saveGameVersion,
+    date: date as string,
+    level: level as SavedLevel,
+    player: player as SavedPlayer,
+    score: score as number,
+    cells: cells as SavedCell[],
+    entities: entities as SavedSprite[],
+    sprites: sprites as SavedSprite[],
+    enemies: enemies as SavedEnemy[],
+    triggers: triggers as SavedTrigger[],
+    explored: explored as number[]
+  };
+}
+
+// Gets the level the save game was made in, loading it again if it was loaded at runtime, and throwing an error if it no longer exists.
+export async function getSavedLevel(save: SaveGame): Promise<Level> {
+  const saved = save.level;
+  if (saved.url !== undefined) {
+    return levels.find((level) => level.url === saved.url) || (await loadLevel(saved.url));
+  }
+
+  // An edited level that is already one of the levels, e.g. as it was saved and loaded this session, is reused. Otherwise it replaces the level it was
+  // edited from for the rest of the session, as it does when the editor is closed, or is added if that level is unknown.
+  if (saved.file !== undefined) {
+    const json = JSON.stringify(saved.file);
+    const existing = levels.find((level) => level.url === undefined && level.file !== undefined && JSON.stringify(level.file) === json);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const level = parseLevelFile(saved.file);
+    replaceLevel(levels[saved.index], level);
+    return level;
+  }
+
+  const level = levels[saved.index] !== undefined && levels[saved.index].depth === saved.depth ? levels[saved.index] : levels.find((level) => level.depth === saved.depth);
+  if (level === undefined) {
+    throw new Error(`Failed to find the saved level '${saved.name || saved.depth}'`);
+  }
+  return level;
+}
+
+// Restores which sprites are active, and whether their lights are switched on, matching each saved sprite to one within half a cell of where it was
+// saved, providing it has the same texture. Sprites that were not saved are active, with their lights switched on, as they are at the start.
+function restoreSprites(sprites: Sprite[], saved: SavedSprite[]): void {
+  for (const sprite of sprites) {
+    sprite.active = true;
+  }
+  resetLights(sprites);
+
+  const restored = new Set<Sprite>();
+  for (const { x, y, texture, active, light } of saved) {
+    const sprite = sprites.find((sprite) => !restored.has(sprite) && sprite.textureId === texture && vu.distance(sprite.position, vu.create(x, y)) < 0.5);
+    if (sprite === undefined) {
+      continue;
+    }
+    restored.add(sprite);
+    sprite.active = active;
+    if (sprite.light !== undefined && light !== undefined) {
+      sprite.light.active = light;
+    }
+  }
+}
+
+// Restores the state of each enemy that is still of the same type. An enemy that was alerted carries on hunting the player from where it last saw
+// them.
+function restoreEnemies(enemies: Enemy[], saved: SavedEnemy[]): void {
+  enemies.forEach((enemy, index) => {
+    enemy.reset();
+    const state = saved[index];
+    if (state === undefined || state.type !== enemy.type.id) {
+      return;
+    }
+
+    // NOTE: The position is updated in place, as it is shared with the sprite.
+    enemy.position.x = state.position.x;
+    enemy.position.y = state.position.y;
+    enemy.direction = vu.create(state.direction.x, state.direction.y);
+    enemy.camera = vu.create(state.camera.x, state.camera.y);
+    enemy.health = state.health;
+    enemy.waypoint = enemy.patrol.length > 0 ? state.waypoint % enemy.patrol.length : 0;
+    enemy.target = state.target !== undefined ? vu.create(state.target.x, state.target.y) : undefined;
+    enemy.lostTime = state.target !== undefined ? 0 : Infinity;
+    enemy.setState(state.state === EnemyState.PATROL && enemy.patrol.length === 0 ? EnemyState.IDLE : state.state);
+  });
+}
+
+// Restores the state of each trigger, where any trigger that was not saved, e.g. one added since, starts as it does in the level.
+function restoreTriggers(triggers: Trigger[], saved: SavedTrigger[]): void {
+  triggers.forEach((trigger, index) => {
+    const state = saved[index];
+    trigger.fired = state !== undefined && state.fired;
+    trigger.elapsed = state !== undefined ? state.elapsed : undefined;
+  });
+}
+
+// Restores the state of each cell in the specified level that is still of the same type.
+export function restoreCells(level: Level, cells: SavedCell[]): void {
+  // Stop any doors that are moving, so that only the doors that were moving when the game was saved carry on.
+  for (const row of level.data) {
+    for (const cell of row) {
+      if (isDoor(cell)) {
+        deregisterTimer(cell.id);
+      }
+    }
+  }
+
+  for (const saved of cells) {
+    const cell = getCell(level, saved.x, saved.y);
+    if (cell === undefined || cell.type !== saved.type) {
+      continue;
+    }
+    cell.state = saved.state;
+    if (isDoor(cell) && saved.status !== undefined && saved.percent !== undefined) {
+      const door = cell as DoorCell;
+      door.status = saved.status;
+      door.percent = saved.percent;
+      startDoorTimer(door);
+    }
+    if (cell.lamp !== undefined && saved.lamp !== undefined) {
+      cell.lamp.active = saved.lamp;
+    }
+    if (cell.health !== undefined && saved.health !== undefined) {
+      cell.health = saved.health;
+      cell.properties = cell.health > 0 ? cell.properties | CellProperties.SOLID : cell.properties & ~CellProperties.SOLID;
+    }
+    if (cell.lock !== undefined) {
+      cell.lock.unlocked = saved.unlocked === true;
+    }
+  }
+}
+
+// Restores the state of the level, and the player within it, from the save game. Anything that no longer matches the level, e.g. a door that is now a
+// wall, is left as it is, and if the player would now be inside a wall they are left at the entrance.
+export function restoreSaveGame(save: SaveGame, level: Level, player: Player): void {
+  restoreCells(level, save.cells);
+  restoreSprites(level.entities, save.entities);
+  restoreSprites(level.sprites, save.sprites);
+  restoreEnemies(level.enemies || [], save.enemies);
+  restoreTriggers(level.triggers || [], save.triggers);
+
+  level.explored = undefined;
+  for (const index of save.explored) {
+    markExplored(level, index % save.level.width, Math.floor(index / save.level.width));
+  }
+
+  const { position, direction, camera, elevation, pitch, crouching, health, weapon, ammo, inventory, powerUps } = save.player;
+  const cell = getCell(level, Math.floor(position.x), Math.floor(position.y));
+  if (cell !== undefined && !isSolid(cell) && !isBlocked(cell)) {
+    player.position = vu.create(position.x, position.y);
+    player.elevation = elevation;
+    player.enter(cell);
+  }
+  player.direction = vu.create(direction.x, direction.y);
+  player.camera = vu.create(camera.x, camera.y);
+  player.pitch = pitch;
+  player.crouch(crouching);
+  player.health = health;
+
+  // Weapons that no longer exist are forgotten, whereas new weapons start with their usual ammo.
+  player.weapon = weaponTypes.find((type) => type.id === weapon) || player.weapon;
+  for (const type of weaponTypes) {
+    if (typeof ammo[type.id] === 'number') {
+      player.ammo[type.id] = ammo[type.id];
+    }
+  }
+
+  // Likewise, items that no longer exist are dropped.
+  player.inventory = {};
+  player.powerUps = {};
+  for (const type of itemTypes) {
+    if (typeof inventory[type.id] === 'number' && inventory[type.id] > 0) {
+      player.inventory[type.id] = inventory[type.id];
+    }
+    if (typeof powerUps[type.id] === 'number' && powerUps[type.id] > 0) {
+      player.powerUps[type.id] = powerUps[type.id];
+    }
+  }
+}
+
+// Writes the save game to the specified slot in local storage, throwing an error if there is not enough space.
+export function writeSaveGame(slot: string, save: SaveGame): void {
+  localStorage.setItem(storageKey + slot, JSON.stringify(save));
+}
+
+// Reads the save game from the specified slot in local storage, upgrading it if it is from an older version, or returns undefined if the slot is empty.
+export function readSaveGame(slot: string): SaveGame | undefined {
+  const json = localStorage.getItem(storageKey + slot);
+  return json === null ? undefined : upgradeSaveGame(JSON.parse(json));
+}
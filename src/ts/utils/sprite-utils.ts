@@ -1,7 +1,11 @@
+import { Level } from '../interfaces/level';
 import { Sprite } from '../interfaces/sprite';
 
 import { SpriteProperties } from '../enums.js';
 
+// The number of sprites each level has for short-lived effects.
+const maxEffects = 32;
+
 function createSprite(x: number, y: number, textureId: number, scale: number, properties: number): Sprite {
   return {
     position: {
@@ -47,3 +51,22 @@ export function createSpriteBasic(x: number, y: number, textureId: number, scale
 export function createSpriteNoTint(x: number, y: number, textureId: number, scale: number, properties: number = 0): Sprite {
   return createSprite(x, y, textureId, scale, properties);
 }
+
+// Hides the specified sprite until a trigger spawns it.
+export function setHidden(sprite: Sprite): Sprite {
+  sprite.hidden = true;
+  sprite.active = false;
+  return sprite;
+}
+
+// Gets the sprites for short-lived effects in the specified level, e.g. projectiles and impacts, creating them the first time. There is always the same
+// number of them, inactive until they are used, so that they can be shared with the render workers.
+export function getEffects(level: Level): Sprite[] {
+  if (level.effects === undefined) {
+    level.effects = [];
+    for (let i = 0; i < maxEffects; i++) {
+      level.effects.push({ ...createSprite(0, 0, 0, 1, SpriteProperties.NONE), active: false });
+    }
+  }
+  return level.effects;
+}
@@ -1,8 +1,9 @@
+import type { Canvas } from '../types';
 import { Texture } from '../interfaces/texture';
 
 import { TextureState, TextureProperties } from '../enums.js';
 import { textures } from '../data/textures/textures.js';
-import { drawTint } from './canvas-utils.js';
+import { createCanvas, drawFill, drawShade, getContext } from './canvas-utils.js';
 
 // Creates a new Texture using the specified input
 function createTexture(id: number, imageUrl: string, imageWidth: number, imageHeight: number, width: number, height: number, properties: number): Texture {
@@ -45,6 +46,11 @@ export function createTextureStateful(id: number, imageUrl: string, width: numbe
   return createTexture(id, imageUrl, width, height * states, width, height, properties | TextureProperties.STATEFUL);
 }
 
+// Helper function to create a texture with a frame for each direction a static sprite can be seen from, which is not animated.
+export function createTextureDirectional(id: number, imageUrl: string, width: number, height: number, directions: number, properties: number = 0): Texture {
+  return createTexture(id, imageUrl, width * directions, height, width, height, properties);
+}
+
 // Utility function to determine if the specified texture has loaded or not.
 export function isTextureLoaded(texture: Texture): number {
   return textureHasState(texture, TextureState.LOADED);
@@ -86,19 +92,17 @@ export async function loadTexture(texture: Texture): Promise<Texture> {
   // Update the state of the of the Texture.
   texture.state = TextureState.LOADING;
 
-  // Create an image resource, and fetch and load the image.
-  const image: HTMLImageElement = document.createElement('img');
-  image.src = texture.imageUrl;
-  await image.decode();
+  // Fetch and decode the image.
+  // NOTE: Uses an ImageBitmap rather than an Image, as they can also be created in a worker.
+  const response = await fetch(texture.imageUrl);
+  const image = await createImageBitmap(await response.blob());
 
   // Create an offscreen canvas.
-  const canvas: HTMLCanvasElement = document.createElement('canvas');
-  canvas.width = texture.imageWidth;
-  canvas.height = texture.imageHeight;
+  const canvas = createCanvas(texture.imageWidth, texture.imageHeight);
 
   // Blit the image to the the canvas.
   // NOTE: Using a Canvas as a source for drawImage should be faster than using an Image.
-  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const context = getContext(canvas);
   context.clearRect(0, 0, texture.imageWidth, texture.imageHeight);
   context.drawImage(image, 0, 0, texture.imageWidth, texture.imageHeight);
 
@@ -107,9 +111,7 @@ export async function loadTexture(texture: Texture): Promise<Texture> {
   const buffer = context.getImageData(0, 0, texture.imageWidth, texture.imageHeight).data;
 
   // Create an offscreen canvas.
-  const effect: HTMLCanvasElement = document.createElement('canvas');
-  effect.width = texture.width;
-  effect.height = texture.height;
+  const effect = createCanvas(texture.width, texture.height);
 
   // Update the texture with handles to the canvas and buffer.
   texture.canvas = canvas;
@@ -123,14 +125,24 @@ export async function loadTexture(texture: Texture): Promise<Texture> {
   return texture;
 }
 
-export function applyEffectTint(texture: Texture, offset: number, value: number): void {
-  const canvas = texture.effect as HTMLCanvasElement;
-  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+// Copies the specified frame of the texture to its effect canvas, darkening it based on the amount of light falling on it and fading it into the
+// specified fog colour. As several sprites can share a texture, the effect is only redrawn when it changes.
+export function applyEffect(texture: Texture, offset: number, light: number, fog: string): void {
+  const key = `${offset}:${light.toFixed(2)}:${fog}`;
+  if (texture.effectKey === key) {
+    return;
+  }
+  texture.effectKey = key;
+
+  const canvas = texture.effect as Canvas;
+  const context = getContext(canvas);
+  const destination = { x: 0, y: 0, width: canvas.width, height: canvas.height };
 
   context.clearRect(0, 0, texture.width, texture.height);
   context.globalCompositeOperation = 'source-over';
-  context.drawImage(texture.canvas as HTMLCanvasElement, offset, 0, texture.width, texture.height, 0, 0, texture.width, texture.height);
+  context.drawImage(texture.canvas as Canvas, offset, 0, texture.width, texture.height, 0, 0, texture.width, texture.height);
 
   context.globalCompositeOperation = 'source-atop';
-  drawTint(context, { x: 0, y: 0, width: canvas.width, height: canvas.height }, value);
+  drawShade(context, destination, light);
+  drawFill(context, destination, fog);
 }
@@ -0,0 +1,615 @@
+import type { Colour } from '../interfaces/colour';
+import type { Level } from '../interfaces/level';
+import type { ActivatorName, CellDefinition, CellPropertyName, CellTypeName, EnemyDefinition, FogFalloffName, LevelFile, LightDefinition, LockDefinition, SpriteDefinition, SpritePropertyName } from '../interfaces/level-file';
+import type { Portal } from '../interfaces/portal';
+import type { TiledLayer, TiledMap, TiledObject, TiledProperty, TiledPropertyValue, TiledTile, TiledTileset } from '../interfaces/tiled';
+import type { Vector } from '../interfaces/vector';
+
+import { checkCell, checkEnemy, checkSprite, parseLevelFile } from './level-file-utils.js';
+
+// Tiled stores whether a tile is flipped or rotated in the top bits of its global ID, which are ignored as cells can't be flipped.
+const TILE_ID_MASK = 0x0fffffff;
+
+// The names of the properties of a tile that are imported as the properties of the cells it is used in.
+const cellPropertyNames: CellPropertyName[] = ['solid', 'blocked', 'interactive', 'thin', 'transparent'];
+const cellTypes: CellTypeName[] = ['floor', 'wall', 'door', 'entrance', 'exit'];
+
+// Maps the class of an object, or the name of the object layer it is in, to what it represents in the level.
+const objectClasses: Record<string, 'entrance' | 'exit' | 'sprite' | 'entity' | 'enemy'> = {
+  entrance: 'entrance',
+  exit: 'exit',
+  sprite: 'sprite',
+  sprites: 'sprite',
+  entity: 'entity',
+  entities: 'entity',
+  enemy: 'enemy',
+  enemies: 'enemy'
+};
+
+// Gets the specified list of Tiled properties as a map from name to value.
+function getProperties(properties: TiledProperty[] | undefined): Record<string, TiledPropertyValue> {
+  const retVal: Record<string, TiledPropertyValue> = {};
+  for (const property of properties || []) {
+    retVal[property.name] = property.value;
+  }
+  return retVal;
+}
+
+// Splits a comma separated property, e.g. 'door, toggle', into a list of names.
+function getNames<T extends string>(value: TiledPropertyValue | undefined): T[] | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const names = value.split(',').map((name) => name.trim());
+  return names.filter((name) => name.length > 0) as T[];
+}
+
+// Gets the light described by the properties with the specified prefix, e.g. lampRadius, lampIntensity and lampFlicker, if there is one.
+function getLight(properties: Record<string, TiledPropertyValue>, prefix: string): LightDefinition | undefined {
+  if (properties[`${prefix}Radius`] === undefined) {
+    return undefined;
+  }
+  return {
+    radius: properties[`${prefix}Radius`] as number,
+    intensity: properties[`${prefix}Intensity`] as number | undefined,
+    flicker: properties[`${prefix}Flicker`] as number | undefined
+  };
+}
+
+// Gets the lock described by the lockItem, lockConsume, lockFlag and lockMessage properties, if there is one.
+function getLock(properties: Record<string, TiledPropertyValue>): LockDefinition | undefined {
+  if (properties.lockItem === undefined && properties.lockFlag === undefined) {
+    return undefined;
+  }
+  return {
+    item: properties.lockItem as number | undefined,
+    consume: properties.lockConsume as boolean | undefined,
+    flag: properties.lockFlag as string | undefined,
+    message: properties.lockMessage as string | undefined
+  };
+}
+
+// Converts a Tiled colour, which is either #RRGGBB or #AARRGGBB, into a Colour.
+function getColour(value: TiledPropertyValue): Colour | undefined {
+  if (typeof value !== 'string' || !/^#([0-9a-f]{2})?[0-9a-f]{6}$/i.test(value)) {
+    return undefined;
+  }
+  const hex = value.slice(-6);
+  return {
+    r: parseInt(hex.slice(0, 2), 16),
+    g: parseInt(hex.slice(2, 4), 16),
+    b: parseInt(hex.slice(4, 6), 16)
+  };
+}
+
+// Finds the tileset that contains the tile with the specified global ID, which is the one with the highest first global ID that is not above it.
+function getTileset(map: TiledMap, gid: number): TiledTileset | undefined {
+  let retVal: TiledTileset | undefined;
+  for (const tileset of map.tilesets) {
+    if (tileset.firstgid <= gid && (retVal === undefined || tileset.firstgid > retVal.firstgid)) {
+      retVal = tileset;
+    }
+  }
+  return retVal;
+}
+
+// Gets the tile with the specified global ID, if it has any properties or a class.
+function getTile(map: TiledMap, gid: number): TiledTile | undefined {
+  const tileset = getTileset(map, gid);
+  return tileset !== undefined && tileset.tiles !== undefined ? tileset.tiles.find((tile) => tile.id === gid - tileset.firstgid) : undefined;
+}
+
+// Gets the properties of the tile with the specified global ID.
+function getTileProperties(map: TiledMap, gid: number): Record<string, TiledPropertyValue> {
+  const tile = getTile(map, gid);
+  return getProperties(tile !== undefined ? tile.properties : undefined);
+}
+
+// Gets the class of the tile with the specified global ID, or an empty string if it doesn't have one.
+function getTileClass(map: TiledMap, gid: number): string {
+  const tile = getTile(map, gid);
+  return tile !== undefined ? (tile.type || tile.class || '').toLowerCase() : '';
+}
+
+// Gets the texture ID for the tile with the specified global ID, which is either its texture property, or its position within its tileset, so
+// that a tileset with the same images, in the same order, as the textures needs no properties at all.
+function getTextureId(map: TiledMap, gid: number): number {
+  const properties = getTileProperties(map, gid);
+  if (properties.texture !== undefined) {
+    return properties.texture as number;
+  }
+  const tileset = getTileset(map, gid);
+  return tileset !== undefined ? gid - tileset.firstgid + 1 : 0;
+}
+
+// Gets every layer in the map, including those within groups, from the bottom to the top.
+function getLayers(layers: TiledLayer[]): TiledLayer[] {
+  const retVal: TiledLayer[] = [];
+  for (const layer of layers) {
+    if (layer.type === 'group') {
+      retVal.push(...getLayers(layer.layers || []));
+    } else {
+      retVal.push(layer);
+    }
+  }
+  return retVal;
+}
+
+// Decodes the global tile IDs of the specified tile layer, which are either an array, CSV or uncompressed Base64.
+function decodeLayerData(errors: string[], path: string, layer: TiledLayer): number[] | undefined {
+  if (Array.isArray(layer.data)) {
+    return layer.data;
+  }
+  if (typeof layer.data !== 'string') {
+    errors.push(`${path}: expected tile data but found ${JSON.stringify(layer.data)}`);
+    return undefined;
+  }
+  if (layer.encoding === 'csv') {
+    return layer.data.split(',').map((gid) => Number(gid.trim()));
+  }
+  if (layer.compression) {
+    errors.push(`${path}: ${layer.compression} compressed tile data is not supported, save the map with CSV or uncompressed Base64 tile layer format`);
+    return undefined;
+  }
+
+  // Base64 data is an array of unsigned 32-bit little-endian integers.
+  const bytes = Uint8Array.from(atob(layer.data.trim()), (char) => char.charCodeAt(0));
+  const view = new DataView(bytes.buffer);
+  const retVal: number[] = [];
+  for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+    retVal.push(view.getUint32(offset, true));
+  }
+  return retVal;
+}
+
+// Creates the definition of a single cell from the tiles on each of the tile layers at the specified index, or undefined if there are none.
+function createCellDefinition(map: TiledMap, layers: Record<string, number[]>, index: number): CellDefinition | undefined {
+  const getGid = (name: string): number => (layers[name] !== undefined ? layers[name][index] & TILE_ID_MASK : 0);
+  const floor = getGid('floor');
+  const ceiling = getGid('ceiling');
+  const wall = getGid('walls');
+  const door = getGid('doors');
+
+  // The topmost tile decides the type of the cell, and only its properties are used, except for floors where those of the ceiling are also used.
+  let retVal: CellDefinition;
+  let gids: number[];
+  if (door) {
+    retVal = { type: 'door', textures: getTextureId(map, door) };
+    gids = [door];
+  } else if (wall) {
+    retVal = { type: 'wall', textures: getTextureId(map, wall) };
+    gids = [wall];
+  } else if (floor || ceiling) {
+    const floorId = getTextureId(map, floor || ceiling);
+    const ceilingId = getTextureId(map, ceiling || floor);
+    retVal = { type: 'floor', textures: floorId === ceilingId ? floorId : [floorId, floorId, floorId, floorId, ceilingId, floorId] };
+    gids = [floor, ceiling].filter((gid) => gid > 0);
+  } else {
+    return undefined;
+  }
+
+  // A tile whose class is the name of a type of cell, e.g. exit, changes the type of the cell.
+  const tileClass = getTileClass(map, gids[0]) as CellTypeName;
+  if (cellTypes.includes(tileClass)) {
+    retVal.type = tileClass;
+  }
+
+  const properties: Record<string, TiledPropertyValue> = {};
+  for (const gid of gids) {
+    Object.assign(properties, getTileProperties(map, gid));
+  }
+
+  const names = cellPropertyNames.filter((name) => properties[name] === true);
+  if (names.length > 0) {
+    retVal.properties = names;
+  }
+  retVal.activators = getNames<ActivatorName>(properties.activators);
+  retVal.floorHeight = properties.floorHeight as number | undefined;
+  retVal.ceilingHeight = properties.ceilingHeight as number | undefined;
+  retVal.state = properties.state as number | undefined;
+  retVal.light = properties.light as number | undefined;
+  retVal.speed = properties.speed as number | undefined;
+  retVal.lamp = getLight(properties, 'lamp');
+  retVal.health = properties.health as number | undefined;
+  retVal.lock = getLock(properties);
+  retVal.flag = properties.flag as string | undefined;
+  retVal.autoClose = properties.autoClose as number | undefined;
+
+  // A destructible wall leaves the floor and ceiling tiles beneath it once it crumbles.
+  if (retVal.type === 'wall' && retVal.health !== undefined && (floor || ceiling)) {
+    const wallId = getTextureId(map, wall);
+    retVal.textures = [wallId, wallId, wallId, wallId, getTextureId(map, ceiling || floor), getTextureId(map, floor || ceiling)];
+  }
+
+  // Remove any undefined values, so that identical cells share a single definition.
+  return JSON.parse(JSON.stringify(retVal));
+}
+
+// Gets the center of the specified object, in cells.
+function getObjectCenter(map: TiledMap, object: TiledObject): Vector {
+  const width = object.width || 0;
+  const height = object.height || 0;
+
+  // Tile objects are positioned by their bottom left corner, whereas everything else is positioned by its top left corner.
+  const top = object.gid ? object.y - height : object.y;
+  return {
+    x: (object.x + width / 2) / map.tilewidth,
+    y: (top + height / 2) / map.tileheight
+  };
+}
+
+// Creates a portal at the specified object, whose spawn point is the cell that contains the center of the object.
+function createPortal(map: TiledMap, object: TiledObject, properties: Record<string, TiledPropertyValue>): Portal {
+  const center = getObjectCenter(map, object);
+  return {
+    x: Math.floor(center.x),
+    y: Math.floor(center.y),
+    angle: properties.angle !== undefined ? (properties.angle as number) : 0,
+    destination: properties.destination as number | undefined
+  };
+}
+
+// Creates the definition of a sprite at the specified object, whose texture is either its texture property or that of its tile.
+function createSpriteDefinition(map: TiledMap, object: TiledObject, properties: Record<string, TiledPropertyValue>): SpriteDefinition {
+  const center = getObjectCenter(map, object);
+  return {
+    x: center.x,
+    y: center.y,
+    texture: properties.texture !== undefined ? (properties.texture as number) : object.gid ? getTextureId(map, object.gid & TILE_ID_MASK) : 0,
+    scale: properties.scale as number | undefined,
+    properties: getNames<SpritePropertyName>(properties.properties),
+    light: getLight(properties, 'light')
+  };
+}
+
+// Creates the definition of an enemy at the specified object, whose type is its type property.
+function createEnemyDefinition(map: TiledMap, object: TiledObject, properties: Record<string, TiledPropertyValue>): EnemyDefinition {
+  const center = getObjectCenter(map, object);
+  return {
+    type: properties.type as number,
+    x: center.x,
+    y: center.y,
+    angle: properties.angle as number | undefined
+  };
+}
+
+// Converts the specified Tiled map into a level file. The walls, doors, floor and ceiling tile layers become the cells of the level, and the objects
+// become its sprites, entities, entrance and exit. Throws an error that lists everything that couldn't be converted.
+export function convertTiledMap(map: TiledMap, url?: string): LevelFile {
+  const errors: string[] = [];
+  if (map.orientation !== 'orthogonal') {
+    errors.push(`map: expected an orthogonal map but found ${JSON.stringify(map.orientation)}`);
+  }
+  if (map.infinite) {
+    errors.push(`map: infinite maps are not supported`);
+  }
+  for (const tileset of map.tilesets) {
+    if (tileset.source !== undefined) {
+      errors.push(`tileset '${tileset.source}': external tilesets must be loaded before the map is converted`);
+    }
+  }
+
+  const properties = getProperties(map.properties);
+  const layers = getLayers(map.layers);
+
+  // Find the tile layers that make up the cells by their names, ignoring any other layers, e.g. those used for notes.
+  const tileLayers: Record<string, number[]> = {};
+  for (const layer of layers) {
+    const name = layer.name.toLowerCase();
+    if (layer.type !== 'tilelayer' || !['floor', 'ceiling', 'walls', 'doors'].includes(name)) {
+      continue;
+    }
+    const data = decodeLayerData(errors, `layer '${layer.name}'`, layer);
+    if (data !== undefined && data.length !== map.width * map.height) {
+      errors.push(`layer '${layer.name}': expected ${map.width * map.height} tiles but found ${data.length}`);
+    } else if (data !== undefined) {
+      tileLayers[name] = data;
+    }
+  }
+
+  // Each distinct cell is given its own character, so that the cells can be written as a grid.
+  const cells: Record<string, CellDefinition> = {};
+  const keys = new Map<string, string>();
+  const grid: string[] = [];
+  for (let y = 0; y < map.height; y++) {
+    let row = '';
+    for (let x = 0; x < map.width; x++) {
+      const definition = createCellDefinition(map, tileLayers, y * map.width + x);
+      if (definition === undefined) {
+        errors.push(`cell (${x}, ${y}): there is no tile on any of the floor, ceiling, walls or doors layers`);
+        continue;
+      }
+
+      const json = JSON.stringify(definition);
+      let key = keys.get(json);
+      if (key === undefined) {
+        key = String.fromCodePoint(0x21 + keys.size);
+        keys.set(json, key);
+        cells[key] = definition;
+        checkCell(errors, `cell (${x}, ${y})`, definition);
+      }
+      row += key;
+    }
+    grid.push(row);
+  }
+
+  let entrance: Portal | undefined;
+  let exit: Portal | undefined;
+  const sprites: SpriteDefinition[] = [];
+  const entities: SpriteDefinition[] = [];
+  const enemies: EnemyDefinition[] = [];
+  for (const layer of layers) {
+    if (layer.type !== 'objectgroup') {
+      continue;
+    }
+
+    for (const object of layer.objects || []) {
+      const path = `object ${object.id}${object.name ? ` '${object.name}'` : ''}`;
+      const gid = object.gid ? object.gid & TILE_ID_MASK : 0;
+      const objectClass = (object.type || object.class || (gid ? getTileClass(map, gid) : '') || layer.name).toLowerCase();
+      const objectProperties = { ...(gid ? getTileProperties(map, gid) : {}), ...getProperties(object.properties) };
+
+      switch (objectClasses[objectClass]) {
+        case 'entrance':
+          if (entrance !== undefined) {
+            errors.push(`${path}: the map already has an entrance`);
+          }
+          entrance = createPortal(map, object, objectProperties);
+          break;
+
+        case 'exit':
+          if (exit !== undefined) {
+            errors.push(`${path}: the map already has an exit`);
+          }
+          exit = createPortal(map, object, objectProperties);
+          break;
+
+        case 'sprite':
+        case 'entity': {
+          const definition = createSpriteDefinition(map, object, objectProperties);
+          if (objectClasses[objectClass] === 'entity' && objectProperties.item !== undefined) {
+            definition.pickup = { item: objectProperties.item as number, amount: objectProperties.amount as number | undefined };
+          }
+          checkSprite(errors, path, definition, map.width, map.height);
+          (objectClasses[objectClass] === 'sprite' ? sprites : entities).push(definition);
+          break;
+        }
+
+        case 'enemy': {
+          const definition = createEnemyDefinition(map, object, objectProperties);
+          checkEnemy(errors, path, definition, map.width, map.height);
+          enemies.push(definition);
+          break;
+        }
+
+        default:
+          errors.push(`${path}: unknown class ${JSON.stringify(objectClass)}, expected one of entrance, exit, sprite, entity or enemy`);
+          break;
+      }
+    }
+  }
+
+  if (entrance === undefined) {
+    errors.push(`map: expected an object with the class entrance`);
+  }
+  if (exit === undefined) {
+    errors.push(`map: expected an object with the class exit`);
+  }
+
+  let fog;
+  if (properties.fogColour !== undefined) {
+    const colour = getColour(properties.fogColour);
+    if (colour === undefined) {
+      errors.push(`map.fogColour: expected a colour but found ${JSON.stringify(properties.fogColour)}`);
+    }
+    fog = {
+      colour: colour as Colour,
+      start: properties.fogStart as number,
+      end: properties.fogEnd as number,
+      falloff: properties.fogFalloff as FogFalloffName | undefined
+    };
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid Tiled map${url ? ` '${url}'` : ''}:\n${errors.join('\n')}`);
+  }
+
+  return {
+    depth: properties.depth as number,
+    name: properties.name as string | undefined,
+    entrance: entrance as Portal,
+    exit: exit as Portal,
+    cells,
+    grid,
+    sprites,
+    entities,
+    enemies: enemies.length > 0 ? enemies : undefined,
+    floor: properties.floor as number | undefined,
+    ceiling: properties.ceiling as number | undefined,
+    skybox: properties.skybox as number | undefined,
+    loot: properties.loot as number | undefined,
+    ambient: properties.ambient as number | undefined,
+    ambience: properties.ambience as number | undefined,
+    fog
+  };
+}
+
+// Converts the specified Tiled map into a new Level, throwing an error that lists everything wrong with it if it can't be converted.
+export function parseTiledMap(map: TiledMap, url?: string): Level {
+  return parseLevelFile(convertTiledMap(map, url), url);
+}
+
+// Parses the specified XML, throwing an error if it is invalid.
+function parseXml(text: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const error = document.querySelector('parsererror');
+  if (error !== null) {
+    throw new Error(`Invalid XML: ${error.textContent}`);
+  }
+  return document;
+}
+
+// Gets the child elements of the specified element with the specified tag name.
+function getChildren(element: Element, tagName: string): Element[] {
+  return Array.from(element.children).filter((child) => child.tagName === tagName);
+}
+
+// Gets the value of the specified attribute as a number, if it is present.
+function getNumberAttribute(element: Element, name: string): number | undefined {
+  const value = element.getAttribute(name);
+  return value !== null ? Number(value) : undefined;
+}
+
+// Gets the value of the specified attribute as a string, if it is present.
+function getStringAttribute(element: Element, name: string): string | undefined {
+  const value = element.getAttribute(name);
+  return value !== null ? value : undefined;
+}
+
+// Parses the properties of the specified TMX element, converting their values to the same types as the JSON format.
+function parseTmxProperties(element: Element): TiledProperty[] | undefined {
+  const properties = getChildren(element, 'properties')[0];
+  if (properties === undefined) {
+    return undefined;
+  }
+
+  return getChildren(properties, 'property').map((property) => {
+    const type = property.getAttribute('type') || 'string';
+    const text = property.getAttribute('value') !== null ? (property.getAttribute('value') as string) : property.textContent || '';
+    const value = type === 'int' || type === 'float' ? Number(text) : type === 'bool' ? text === 'true' : text;
+    return { name: property.getAttribute('name') || '', type, value };
+  });
+}
+
+// Parses the specified TMX tileset element.
+function parseTmxTileset(element: Element): TiledTileset {
+  return {
+    firstgid: getNumberAttribute(element, 'firstgid') || 1,
+    source: getStringAttribute(element, 'source'),
+    name: getStringAttribute(element, 'name'),
+    tilecount: getNumberAttribute(element, 'tilecount'),
+    tiles: getChildren(element, 'tile').map((tile) => ({
+      id: getNumberAttribute(tile, 'id') || 0,
+      type: getStringAttribute(tile, 'type'),
+      class: getStringAttribute(tile, 'class'),
+      properties: parseTmxProperties(tile)
+    }))
+  };
+}
+
+// Parses the layers within the specified TMX element, which is either the map or a group.
+function parseTmxLayers(element: Element): TiledLayer[] {
+  const retVal: TiledLayer[] = [];
+  for (const child of Array.from(element.children)) {
+    const name = child.getAttribute('name') || '';
+    const properties = parseTmxProperties(child);
+
+    switch (child.tagName) {
+      case 'layer': {
+        const data = getChildren(child, 'data')[0];
+        const encoding = data !== undefined ? data.getAttribute('encoding') : null;
+        const layer: TiledLayer = { type: 'tilelayer', name, width: getNumberAttribute(child, 'width'), height: getNumberAttribute(child, 'height'), properties };
+        if (data === undefined) {
+          layer.data = undefined;
+        } else if (encoding === 'csv' || encoding === 'base64') {
+          layer.data = (data.textContent || '').trim();
+          layer.encoding = encoding;
+          layer.compression = getStringAttribute(data, 'compression');
+        } else {
+          // Without an encoding, each tile is its own element.
+          layer.data = getChildren(data, 'tile').map((tile) => getNumberAttribute(tile, 'gid') || 0);
+        }
+        retVal.push(layer);
+        break;
+      }
+
+      case 'objectgroup':
+        retVal.push({
+          type: 'objectgroup',
+          name,
+          properties,
+          objects: getChildren(child, 'object').map((object) => ({
+            id: getNumberAttribute(object, 'id') || 0,
+            name: getStringAttribute(object, 'name'),
+            type: getStringAttribute(object, 'type'),
+            class: getStringAttribute(object, 'class'),
+            x: getNumberAttribute(object, 'x') || 0,
+            y: getNumberAttribute(object, 'y') || 0,
+            width: getNumberAttribute(object, 'width'),
+            height: getNumberAttribute(object, 'height'),
+            gid: getNumberAttribute(object, 'gid'),
+            point: getChildren(object, 'point').length > 0,
+            properties: parseTmxProperties(object)
+          }))
+        });
+        break;
+
+      case 'imagelayer':
+        retVal.push({ type: 'imagelayer', name, properties });
+        break;
+
+      case 'group':
+        retVal.push({ type: 'group', name, properties, layers: parseTmxLayers(child) });
+        break;
+    }
+  }
+  return retVal;
+}
+
+// Parses the specified TMX map into the same shape as a map saved in Tiled's JSON format.
+export function parseTmx(text: string): TiledMap {
+  const map = parseXml(text).documentElement;
+  if (map.tagName !== 'map') {
+    throw new Error(`Invalid TMX: expected a map element but found ${map.tagName}`);
+  }
+
+  return {
+    type: 'map',
+    orientation: map.getAttribute('orientation') || 'orthogonal',
+    infinite: map.getAttribute('infinite') === '1',
+    width: getNumberAttribute(map, 'width') || 0,
+    height: getNumberAttribute(map, 'height') || 0,
+    tilewidth: getNumberAttribute(map, 'tilewidth') || 0,
+    tileheight: getNumberAttribute(map, 'tileheight') || 0,
+    layers: parseTmxLayers(map),
+    tilesets: getChildren(map, 'tileset').map(parseTmxTileset),
+    properties: parseTmxProperties(map)
+  };
+}
+
+// Parses the specified TSX tileset into the same shape as a tileset saved in Tiled's JSON format.
+export function parseTsx(text: string): TiledTileset {
+  const tileset = parseXml(text).documentElement;
+  if (tileset.tagName !== 'tileset') {
+    throw new Error(`Invalid TSX: expected a tileset element but found ${tileset.tagName}`);
+  }
+  return parseTmxTileset(tileset);
+}
+
+// Fetches the specified URL as text.
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch '${url}': ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+// Fetches the Tiled map at the specified URL, which is either TMX or JSON, along with any external tilesets it uses, and creates a new Level from it.
+export async function fetchTiledMap(url: string): Promise<Level> {
+  const text = await fetchText(url);
+  const map: TiledMap = /\.tmx$/i.test(url) ? parseTmx(text) : JSON.parse(text);
+
+  // External tilesets are relative to the map, and keep the first global ID the map gave them.
+  const base = new URL(url, self.location.href);
+  for (let i = 0; i < map.tilesets.length; i++) {
+    const source = map.tilesets[i].source;
+    if (source !== undefined) {
+      const tilesetText = await fetchText(new URL(source, base).href);
+      const tileset: TiledTileset = /\.tsx$/i.test(source) ? parseTsx(tilesetText) : JSON.parse(tilesetText);
+      map.tilesets[i] = { ...tileset, source: undefined, firstgid: map.tilesets[i].firstgid };
+    }
+  }
+
+  return parseTiledMap(map, url);
+}
@@ -30,3 +30,11 @@ export function updateTimers(delta: number): void {
     }
   }
 }
+
+// Creates a timer that does nothing but expire after the specified number of seconds, so that whilst it exists something can be throttled, e.g. how
+// often a weapon can fire.
+export function createThrottleTimer(wait: number): Timer {
+  return (delta: number) => {
+    return (wait -= delta) < 0;
+  };
+}
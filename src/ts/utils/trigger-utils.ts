@@ -0,0 +1,180 @@
+import type { Cell, DoorCell } from '../interfaces/cell';
+import type { Level } from '../interfaces/level';
+import type { Sprite } from '../interfaces/sprite';
+import type { Trigger, TriggerAction } from '../interfaces/trigger';
+import type { Player } from '../objects/player';
+
+import { DoorState, TriggerActionType, TriggerEvent } from '../enums.js';
+import { activatorLight, activatorToggle } from './activator-utils.js';
+import { isDoor } from './cell-utils.js';
+import { getCell } from './level-utils.js';
+import { degreesToRadians } from './math-utils.js';
+import * as vu from './vector-utils.js';
+
+// State
+let lastCell: Cell | undefined; // The cell the player was in last frame, so that entering a cell is only noticed once.
+let messages: string[] = []; // The messages shown by triggers that have not been shown yet.
+
+// Sets every trigger in the specified level back to how it was at the start of the level, so that triggers that only go off once can go off again, and
+// timers count from the start, and forgets where the player was and any messages not yet shown. Should be called whenever a level is started.
+export function resetTriggers(level: Level): void {
+  for (const trigger of level.triggers || []) {
+    trigger.fired = false;
+    trigger.elapsed = undefined;
+  }
+  lastCell = undefined;
+  messages = [];
+}
+
+// Gets the messages shown by triggers since this was last called, so that each is only shown once.
+export function takeTriggerMessages(): string[] {
+  const retVal = messages;
+  messages = [];
+  return retVal;
+}
+
+// Checks if the specified trigger can go off, i.e. it does not only go off once, or it has not yet gone off.
+function canFire(trigger: Trigger): boolean {
+  return !trigger.once || !trigger.fired;
+}
+
+// Runs each of the specified cell's activators, e.g. to open or close a door, in the same way as the player interacting with it.
+function activate(cell: Cell): void {
+  for (const activator of cell.activators) {
+    activator(cell);
+  }
+}
+
+// Gets the sprite, or entity, the specified action targets, if any.
+function getTargetSprite(level: Level, action: TriggerAction): Sprite | undefined {
+  if (action.sprite !== undefined) {
+    return level.sprites[action.sprite];
+  }
+  return action.entity !== undefined ? level.entities[action.entity] : undefined;
+}
+
+// Moves the player to the center of the specified cell, turning them to face the specified angle if there is one.
+function teleport(level: Level, player: Player, x: number, y: number, angle?: number): void {
+  const cell = getCell(level, x, y);
+  player.position = vu.create(x + 0.5, y + 0.5);
+  if (angle !== undefined) {
+    player.rotate(degreesToRadians(angle) - vu.angle(player.direction));
+  }
+  player.enter(cell);
+
+  // Arriving in a cell does not count as walking into it, otherwise two teleports could send the player back and forth forever.
+  lastCell = cell;
+}
+
+// Does the specified action to the level, or the player. Doors are opened and closed regardless of any lock on them, so that a switch can open a
+// door that the player can't.
+function runAction(level: Level, player: Player, action: TriggerAction): void {
+  const cell = action.x !== undefined && action.y !== undefined ? getCell(level, action.x, action.y) : undefined;
+  const sprite = getTargetSprite(level, action);
+
+  switch (action.type) {
+    case TriggerActionType.OPEN_DOOR:
+      if (cell !== undefined && isDoor(cell) && ((cell as DoorCell).status === DoorState.CLOSED || (cell as DoorCell).status === DoorState.CLOSING)) {
+        activate(cell);
+      }
+      break;
+
+    case TriggerActionType.CLOSE_DOOR:
+      if (cell !== undefined && isDoor(cell) && ((cell as DoorCell).status === DoorState.OPEN || (cell as DoorCell).status === DoorState.OPENING)) {
+        activate(cell);
+      }
+      break;
+
+    case TriggerActionType.TOGGLE_LIGHT:
+      // A lamp's state shows whether it is on, as it does when it is switched on and off by hand.
+      if (cell !== undefined && cell.lamp !== undefined) {
+        activatorLight(cell);
+        if (cell.activators.includes(activatorToggle)) {
+          activatorToggle(cell);
+        }
+      }
+      if (sprite !== undefined && sprite.light !== undefined) {
+        sprite.light.active = !sprite.light.active;
+      }
+      break;
+
+    case TriggerActionType.SPAWN:
+      if (sprite !== undefined) {
+        sprite.active = true;
+      }
+      break;
+
+    case TriggerActionType.TELEPORT:
+      if (action.x !== undefined && action.y !== undefined) {
+        teleport(level, player, action.x, action.y, action.angle);
+      }
+      break;
+
+    case TriggerActionType.SET_STATE:
+      if (cell !== undefined && action.state !== undefined) {
+        cell.state = action.state;
+      }
+      break;
+
+    case TriggerActionType.MESSAGE:
+      if (action.message !== undefined) {
+        messages.push(action.message);
+      }
+      break;
+  }
+}
+
+// Sets off the specified trigger, doing each of its actions in order.
+function fire(level: Level, player: Player, trigger: Trigger): void {
+  trigger.fired = true;
+  for (const action of trigger.actions) {
+    runAction(level, player, action);
+  }
+}
+
+// Sets off every trigger for the specified event that happened in the specified cell, i.e. the player interacting with it or walking into it.
+export function fireCellTriggers(level: Level, player: Player, event: TriggerEvent.INTERACT | TriggerEvent.ENTER, cell: Cell): void {
+  for (const trigger of level.triggers || []) {
+    if (trigger.event === event && canFire(trigger) && trigger.x !== undefined && trigger.y !== undefined && getCell(level, trigger.x, trigger.y) === cell) {
+      fire(level, player, trigger);
+    }
+  }
+}
+
+// Sets off every trigger for the player picking up the specified entity.
+export function firePickupTriggers(level: Level, player: Player, entity: Sprite): void {
+  for (const trigger of level.triggers || []) {
+    if (trigger.event === TriggerEvent.PICKUP && canFire(trigger) && trigger.entity !== undefined && level.entities[trigger.entity] === entity) {
+      fire(level, player, trigger);
+    }
+  }
+}
+
+// Sets off the triggers for the player walking into a cell, for time passing, and for every enemy having died. Should be called every frame, after the
+// player has moved.
+export function updateTriggers(level: Level, player: Player, elapsed: number): void {
+  const cell = getCell(level, Math.floor(player.position.x), Math.floor(player.position.y));
+  const entered = lastCell !== undefined && cell !== undefined && cell !== lastCell;
+  lastCell = cell;
+  if (entered && cell !== undefined) {
+    fireCellTriggers(level, player, TriggerEvent.ENTER, cell);
+  }
+
+  const enemies = level.enemies || [];
+  const enemiesDead = enemies.length > 0 && enemies.every((enemy) => enemy.health <= 0);
+
+  for (const trigger of level.triggers || []) {
+    if (trigger.event === TriggerEvent.TIMER && canFire(trigger) && trigger.time !== undefined) {
+      trigger.elapsed = (trigger.elapsed || 0) + elapsed;
+      if (trigger.elapsed >= trigger.time) {
+        trigger.elapsed -= trigger.time;
+        fire(level, player, trigger);
+      }
+    }
+
+    // Every enemy dying can only happen once.
+    if (trigger.event === TriggerEvent.ENEMIES_DEAD && enemiesDead && !trigger.fired) {
+      fire(level, player, trigger);
+    }
+  }
+}
@@ -65,3 +65,7 @@ export function angle(a: Vector, b?: Vector): Radian {
   }
   return Math.atan2(a.y, a.x);
 }
+
+export function distance(a: Vector, b: Vector): Scaler {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
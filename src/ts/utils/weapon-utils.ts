@@ -0,0 +1,163 @@
+import type { Actor } from '../interfaces/actor';
+import type { Cell } from '../interfaces/cell';
+import type { Level } from '../interfaces/level';
+import type { Sprite } from '../interfaces/sprite';
+import type { Vector } from '../interfaces/vector';
+import type { Impact, WeaponType } from '../interfaces/weapon';
+
+import { CellProperties, SoundEffect, SpriteProperties, WeaponAttack } from '../enums.js';
+import { weaponTypes } from '../data/weapons/weapons.js';
+import { Projectile } from '../objects/projectile.js';
+import { playSound, playSoundAtCell } from './audio-utils.js';
+import { isDestructible, isSolid } from './cell-utils.js';
+import { getRayCircleDistance } from './collision-utils.js';
+import { alertEnemies } from './enemy-utils.js';
+import { castRay, rayHitsSolid } from './ray-utils.js';
+import { getEffects } from './sprite-utils.js';
+import { deregisterTimer, registerTimer } from './timer-utils.js';
+import * as vu from './vector-utils.js';
+
+const decalTime = 10; // Seconds an impact stays on a wall.
+const splashTime = 0.2; // Seconds an impact is shown on whoever was hit.
+const decalScale = 0.2;
+const decalOffset = 0.05; // How far, in cells, an impact is drawn in front of the wall it hit, so that it is not hidden by the wall.
+const loudness = 2; // How much further away enemies can hear gunfire from than footsteps.
+
+// Gets the specified type of weapon by Id.
+export function getWeaponTypeById(id: number): WeaponType | undefined {
+  return weaponTypes[id - 1];
+}
+
+// Shows the specified texture at the specified position using the first effect sprite that is not in use, for the specified time or, if no time is
+// given, until it is deactivated. Returns the sprite, or undefined if every effect sprite is in use.
+export function spawnEffect(level: Level, position: Vector, textureId: number, scale: number, time?: number, properties: number = SpriteProperties.TINT): Sprite | undefined {
+  const effects = getEffects(level);
+  const index = effects.findIndex((effect) => !effect.active);
+  if (index < 0) {
+    return undefined;
+  }
+
+  const sprite = effects[index];
+  sprite.position = vu.create(position.x, position.y);
+  sprite.textureId = textureId;
+  sprite.scale = scale;
+  sprite.properties = properties;
+  sprite.active = true;
+  if (time !== undefined) {
+    let remaining = time;
+    registerTimer(`effect-${index}`, (delta: number): boolean => {
+      remaining -= delta;
+      if (remaining <= 0) {
+        sprite.active = false;
+      }
+      return remaining <= 0;
+    });
+  }
+  return sprite;
+}
+
+// Removes every projectile and effect from the level, e.g. when it is started again.
+export function resetEffects(level: Level): void {
+  level.projectiles = [];
+  getEffects(level).forEach((effect, index) => {
+    effect.active = false;
+    deregisterTimer(`effect-${index}`);
+  });
+}
+
+// Damages the specified wall, if it can be destroyed, crumbling it so that it can be walked through once it has no health left.
+export function damageCell(cell: Cell, amount: number): void {
+  if (!isDestructible(cell)) {
+    return;
+  }
+  cell.health = Math.max((cell.health as number) - amount, 0);
+  if (cell.health === 0) {
+    cell.properties &= ~CellProperties.SOLID;
+    playSoundAtCell(cell, SoundEffect.CRUMBLE);
+  }
+}
+
+// Hurts whatever the weapon hit, leaving a mark where it hit, where the source is where the shot came from.
+function applyImpact(level: Level, weapon: WeaponType, impact: Impact, source: Vector): void {
+  if (impact.actor !== undefined) {
+    impact.actor.damage(weapon.damage, source);
+    spawnEffect(level, impact.position, weapon.decal, decalScale, splashTime);
+  } else if (impact.cell !== undefined) {
+    damageCell(impact.cell, weapon.damage);
+
+    // Walls that crumbled are no longer there to be marked.
+    if (isSolid(impact.cell)) {
+      spawnEffect(level, impact.position, weapon.decal, decalScale, decalTime);
+    }
+  }
+  playSound(SoundEffect.IMPACT, impact.position);
+}
+
+// Finds the first thing a hitscan attack hits, by casting a ray against the walls and the circle of each target, up to the range of the weapon.
+function castHitscan(level: Level, owner: Actor, weapon: WeaponType, targets: Actor[]): Impact | undefined {
+  const direction = vu.normalise(owner.direction);
+  const wall = castRay(level, owner.position, direction, rayHitsSolid, Math.ceil(weapon.range) + 1);
+  let distance = wall !== undefined ? Math.min(wall.distance, weapon.range) : weapon.range;
+
+  let actor: Actor | undefined;
+  for (const target of targets) {
+    if (target === owner || target.health <= 0) {
+      continue;
+    }
+    const hit = getRayCircleDistance(owner.position, direction, target);
+    if (hit !== undefined && hit < distance) {
+      distance = hit;
+      actor = target;
+    }
+  }
+
+  if (actor !== undefined) {
+    return { position: vu.add(owner.position, vu.scale(direction, distance)), actor };
+  }
+  if (wall !== undefined && wall.distance <= weapon.range) {
+    return { position: vu.add(owner.position, vu.scale(direction, wall.distance - decalOffset)), cell: wall.cell };
+  }
+  return undefined;
+}
+
+// Fires the weapon from the owner in the direction they are facing, either hitting the first target or wall in the way straight away, or launching a
+// projectile. Gunfire is loud, so enemies hear it from further away than footsteps.
+export function fireWeapon(level: Level, owner: Actor, weapon: WeaponType, targets: Actor[]): void {
+  playSound(weapon.sound, owner.position);
+  alertEnemies(level, owner.position, loudness);
+
+  switch (weapon.attack) {
+    case WeaponAttack.HITSCAN: {
+      const impact = castHitscan(level, owner, weapon, targets);
+      if (impact !== undefined) {
+        applyImpact(level, weapon, impact, owner.position);
+      }
+      break;
+    }
+
+    case WeaponAttack.PROJECTILE:
+      if (weapon.projectile !== undefined) {
+        const sprite = spawnEffect(level, owner.position, weapon.projectile.textureId, weapon.projectile.scale, undefined, SpriteProperties.NONE);
+        level.projectiles = level.projectiles || [];
+        level.projectiles.push(new Projectile(weapon, owner, sprite));
+      }
+      break;
+  }
+}
+
+// Moves every projectile in the level, hurting whatever they hit, and removes those that are no longer flying.
+export function updateProjectiles(level: Level, targets: Actor[], elapsed: number): void {
+  const projectiles = level.projectiles || [];
+  for (const projectile of [...projectiles]) {
+    const impact = projectile.fly(level, targets, elapsed);
+    if (impact !== undefined) {
+      applyImpact(level, projectile.weapon, impact, projectile.owner.position);
+    }
+    if (!projectile.active) {
+      if (projectile.sprite !== undefined) {
+        projectile.sprite.active = false;
+      }
+      projectiles.splice(projectiles.indexOf(projectile), 1);
+    }
+  }
+}
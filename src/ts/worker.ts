@@ -0,0 +1,117 @@
+import type { Entity } from './interfaces/entity';
+import type { Level } from './interfaces/level';
+import type { FrameMessage, LevelMessage, RenderMessage } from './interfaces/messages';
+
+import { MessageType } from './enums.js';
+import { levels } from './data/levels/levels.js';
+import { render } from './raycaster.js';
+import { getExploredCells } from './utils/automap-utils.js';
+import { applyLevelDiff, readLevelState } from './utils/diff-utils.js';
+import { initialiseLights } from './utils/light-utils.js';
+import { loadTexturesForLevel } from './utils/level-utils.js';
+import { createLevelFromFile } from './utils/level-file-utils.js';
+import { Mark } from './utils/time-utils.js';
+
+// The Back Buffer is owned by the worker, and once its strip of each frame has been rendered it is sent back to the main thread as an image.
+let backBufferCanvas: OffscreenCanvas;
+let backBuffer: OffscreenCanvasRenderingContext2D;
+
+// The level being rendered, which is a copy of the one on the main thread that is kept up to date with either the diffs sent with each frame or the
+// shared level state.
+let currentLevel: Level | undefined;
+let currentState: Float64Array | undefined;
+let loaded = false;
+let failed = false;
+
+// Switches to the specified level, and loads the Textures it needs. If that fails, every request is still answered, but with a strip that tells the main
+// thread the level can't be rendered here, rather than leaving it waiting for a strip that never arrives.
+async function setLevel(message: LevelMessage): Promise<void> {
+  let level: Level | undefined;
+  currentLevel = undefined;
+  loaded = false;
+  failed = false;
+
+  try {
+    // Levels that were loaded at runtime are not in the worker's levels, so are recreated from the level file they were loaded from.
+    level = message.file !== undefined ? createLevelFromFile(message.file) : levels[message.level];
+    currentLevel = level;
+    currentState = message.state !== undefined ? new Float64Array(message.state) : undefined;
+
+    initialiseLights(level);
+    await loadTexturesForLevel(level);
+
+    // Only mark the level as loaded if it has not been switched again whilst the Textures were loading.
+    if (currentLevel === level) {
+      loaded = true;
+    }
+  } catch (error) {
+    console.error(error);
+    if (currentLevel === level) {
+      failed = true;
+    }
+  }
+}
+
+// Renders the requested strip of the frame, and sends it back to the main thread.
+function renderFrame(message: RenderMessage): void {
+  const retVal: FrameMessage = { type: MessageType.FRAME, start: message.start, end: message.end, time: 0 };
+
+  // Always apply the diff, even if still loading, as the next diff will only include what has changed since this one.
+  if (currentLevel !== undefined && message.diff !== undefined) {
+    applyLevelDiff(currentLevel, message.diff);
+  }
+
+  if (currentLevel === undefined || !loaded) {
+    retVal.failed = failed;
+    self.postMessage(retVal);
+    return;
+  }
+
+  // Resize the Back Buffer if the resolution has changed.
+  if (backBufferCanvas === undefined || backBufferCanvas.width !== message.width || backBufferCanvas.height !== message.height) {
+    backBufferCanvas = new OffscreenCanvas(message.width, message.height);
+    backBuffer = backBufferCanvas.getContext('2d', { alpha: false }) as OffscreenCanvasRenderingContext2D;
+    backBuffer.imageSmoothingEnabled = false;
+  }
+
+  const entity: Entity = {
+    ...message.entity,
+    update: (): void => {}
+  };
+
+  // If the level state is shared, then read the latest state just before rendering.
+  if (currentState !== undefined) {
+    readLevelState(currentLevel, currentState);
+  }
+
+  // Forget the cells seen in previous frames, so that only those seen in this strip are sent back to the main thread for the automap.
+  currentLevel.explored = undefined;
+
+  const start = performance.now();
+  Mark(message.timestamp);
+  try {
+    render(backBuffer, entity, currentLevel, message.debug, message.renderer, message.start, message.end);
+  } catch (error) {
+    console.error(error);
+    retVal.failed = true;
+    self.postMessage(retVal);
+    return;
+  }
+  retVal.time = performance.now() - start;
+  retVal.explored = getExploredCells(currentLevel);
+
+  retVal.image = backBufferCanvas.transferToImageBitmap();
+  self.postMessage(retVal, { transfer: [retVal.image] });
+}
+
+self.onmessage = (event: MessageEvent<LevelMessage | RenderMessage>): void => {
+  switch (event.data.type) {
+    case MessageType.LEVEL:
+      setLevel(event.data);
+      break;
+
+    case MessageType.RENDER:
+      renderFrame(event.data);
+      break;
+  }
+};